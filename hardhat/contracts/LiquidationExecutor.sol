@@ -46,7 +46,17 @@ interface ISwapRouter02 {
     uint256 amountOutMinimum;
   }
 
+  struct ExactOutputParams {
+    bytes path;
+    address recipient;
+    uint256 deadline;
+    uint256 amountOut;
+    uint256 amountInMaximum;
+  }
+
   function exactInput(ExactInputParams calldata params) external payable returns (uint256 amountOut);
+
+  function exactOutput(ExactOutputParams calldata params) external payable returns (uint256 amountIn);
 }
 
 ///
@@ -74,6 +84,9 @@ contract LiquidationExecutor is IFlashLoanSimpleReceiver, Ownable2Step, Pausable
   error ProfitTooLow();
   error NoCollateral();
   error InvalidSignature();
+  error BadSwapTarget();
+  error SwapFailed();
+  error BadSwapData();
 
   // -----------------------------
   // Events
@@ -123,12 +136,23 @@ contract LiquidationExecutor is IFlashLoanSimpleReceiver, Ownable2Step, Pausable
     address borrower;
     uint256 repayAmount; // Amount to liquidate (debt to cover)
 
-    // Uniswap V3 path collateral -> debtAsset
+    // Uniswap V3 path collateral -> debtAsset (exactOutput: debtAsset -> collateral)
     bytes uniPath;
 
     // Slippage guard: min output in debtAsset
     uint256 amountOutMin;
 
+    // 0: sell all seized collateral (exactInput)
+    // >0: buy exactly this much debtAsset (exactOutput, at most the seized collateral), keep the rest
+    uint256 swapAmountOut;
+
+    // Non-Uniswap route (Algebra, Solidly, Curve, Balancer...): swapData is called on swapTarget
+    // with the seized collateral approved; address(0) = Uniswap V3 via uniPath
+    address swapTarget;
+    bytes swapData;
+    // Byte offset of the amountIn word in swapData, overwritten with the collateral actually received
+    uint256 swapAmountInOffset;
+
     // Profit guardrail in debtAsset
     uint256 minProfit;
 
@@ -145,7 +169,7 @@ contract LiquidationExecutor is IFlashLoanSimpleReceiver, Ownable2Step, Pausable
 
   bytes32 private constant ORDER_TYPEHASH =
     keccak256(
-      "Order(address debtAsset,address collateralAsset,address borrower,uint256 repayAmount,bytes32 uniPathHash,uint256 amountOutMin,uint256 minProfit,uint256 deadline,uint256 maxTxGasPrice,uint16 referralCode,uint256 nonce)"
+      "Order(address debtAsset,address collateralAsset,address borrower,uint256 repayAmount,bytes32 uniPathHash,uint256 amountOutMin,uint256 swapAmountOut,address swapTarget,bytes32 swapDataHash,uint256 swapAmountInOffset,uint256 minProfit,uint256 deadline,uint256 maxTxGasPrice,uint16 referralCode,uint256 nonce)"
     );
 
   // -----------------------------
@@ -272,18 +296,55 @@ contract LiquidationExecutor is IFlashLoanSimpleReceiver, Ownable2Step, Pausable
     
     if (collReceived == 0) revert NoCollateral();
 
-    // 3) Swap Collateral -> Debt Asset
-    IERC20(order.collateralAsset).forceApprove(address(swapRouter), collReceived);
-
-    ISwapRouter02.ExactInputParams memory p = ISwapRouter02.ExactInputParams({
-      path: order.uniPath,
-      recipient: address(this),
-      deadline: block.timestamp,
-      amountIn: collReceived,
-      amountOutMinimum: order.amountOutMin
-    });
-
-    uint256 loanOut = swapRouter.exactInput(p);
+    // 3) Swap Collateral -> Debt Asset (all of it, or just enough for swapAmountOut)
+    if (order.swapTarget == address(0)) IERC20(order.collateralAsset).forceApprove(address(swapRouter), collReceived);
+
+    uint256 loanOut;
+    if (order.swapTarget != address(0)) {
+      // Exact input only; never a call into the Pool or the tokens themselves
+      if (
+        order.swapAmountOut != 0 ||
+        order.swapTarget == address(aavePool) ||
+        order.swapTarget == order.debtAsset ||
+        order.swapTarget == order.collateralAsset
+      ) revert BadSwapTarget();
+
+      // swapData was encoded for the simulated seize: sell exactly what liquidationCall handed over
+      bytes memory swapData = order.swapData;
+      uint256 offset = order.swapAmountInOffset;
+      if (offset < 4 || offset + 32 > swapData.length) revert BadSwapData();
+      assembly ("memory-safe") {
+        mstore(add(add(swapData, 32), offset), collReceived)
+      }
+
+      IERC20(order.collateralAsset).forceApprove(order.swapTarget, collReceived);
+      uint256 debtBefore = IERC20(asset).balanceOf(address(this));
+      (bool ok, ) = order.swapTarget.call(swapData);
+      if (!ok) revert SwapFailed();
+      loanOut = IERC20(asset).balanceOf(address(this)) - debtBefore;
+      if (loanOut < order.amountOutMin) revert ProfitTooLow();
+      IERC20(order.collateralAsset).forceApprove(order.swapTarget, 0);
+    } else if (order.swapAmountOut == 0) {
+      ISwapRouter02.ExactInputParams memory p = ISwapRouter02.ExactInputParams({
+        path: order.uniPath,
+        recipient: address(this),
+        deadline: block.timestamp,
+        amountIn: collReceived,
+        amountOutMinimum: order.amountOutMin
+      });
+      loanOut = swapRouter.exactInput(p);
+    } else {
+      ISwapRouter02.ExactOutputParams memory p = ISwapRouter02.ExactOutputParams({
+        path: order.uniPath,
+        recipient: address(this),
+        deadline: block.timestamp,
+        amountOut: order.swapAmountOut,
+        amountInMaximum: collReceived
+      });
+      swapRouter.exactOutput(p);
+      loanOut = order.swapAmountOut;
+      IERC20(order.collateralAsset).forceApprove(address(swapRouter), 0);
+    }
 
     // 4) Repay Flashloan
     uint256 totalDebt = amount + premium;
@@ -295,7 +356,7 @@ contract LiquidationExecutor is IFlashLoanSimpleReceiver, Ownable2Step, Pausable
     uint256 profit = IERC20(asset).balanceOf(address(this)) - totalDebt;
     if (profit > 0) IERC20(asset).safeTransfer(treasury, profit);
 
-    // Dust
+    // Dust / collateral kept by an exactOutput swap
     uint256 dust = IERC20(order.collateralAsset).balanceOf(address(this));
     if (dust > 0) IERC20(order.collateralAsset).safeTransfer(treasury, dust);
 
@@ -331,6 +392,10 @@ contract LiquidationExecutor is IFlashLoanSimpleReceiver, Ownable2Step, Pausable
         o.repayAmount,
         keccak256(o.uniPath),
         o.amountOutMin,
+        o.swapAmountOut,
+        o.swapTarget,
+        keccak256(o.swapData),
+        o.swapAmountInOffset,
         o.minProfit,
         o.deadline,
         o.maxTxGasPrice,
@@ -2,15 +2,15 @@
 pragma solidity ^0.8.20;
 
 import "./LiquidationExecutor.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 
 contract LiquidationExecutorSmokeTest {
   function test_constructor_sets_owner_and_treasury() public {
     address aave = address(0x1111);
-    address morpho = address(0x2222);
     address router = address(0x3333);
     address treasury = address(0xBEEF);
 
-    LiquidationExecutor exec = new LiquidationExecutor(aave, morpho, router, treasury);
+    LiquidationExecutor exec = new LiquidationExecutor(aave, router, treasury);
 
     require(exec.owner() == address(this), "owner not set");
     require(exec.treasury() == treasury, "treasury not set");
@@ -20,19 +20,194 @@ contract LiquidationExecutorSmokeTest {
     bool reverted;
 
     reverted = false;
-    try new LiquidationExecutor(address(0), address(1), address(2), address(3)) { } catch { reverted = true; }
+    try new LiquidationExecutor(address(0), address(1), address(2)) { } catch { reverted = true; }
     require(reverted, "expected revert (aave=0)");
 
     reverted = false;
-    try new LiquidationExecutor(address(1), address(0), address(2), address(3)) { } catch { reverted = true; }
-    require(reverted, "expected revert (morpho=0)");
-
-    reverted = false;
-    try new LiquidationExecutor(address(1), address(2), address(0), address(3)) { } catch { reverted = true; }
+    try new LiquidationExecutor(address(1), address(0), address(2)) { } catch { reverted = true; }
     require(reverted, "expected revert (router=0)");
 
     reverted = false;
-    try new LiquidationExecutor(address(1), address(2), address(3), address(0)) { } catch { reverted = true; }
+    try new LiquidationExecutor(address(1), address(2), address(0)) { } catch { reverted = true; }
     require(reverted, "expected revert (treasury=0)");
   }
 }
+
+contract MockToken is ERC20 {
+  constructor(string memory symbol) ERC20(symbol, symbol) {}
+
+  function mint(address to, uint256 amount) external {
+    _mint(to, amount);
+  }
+}
+
+/// Flash loan + liquidation as the Aave Pool does them: lends `amount`, calls back, pulls amount + premium;
+/// liquidationCall takes the debt and hands over `seize` collateral.
+contract MockPool {
+  uint256 public constant PREMIUM_BPS = 5;
+  uint256 public seize;
+
+  function setSeize(uint256 amount) external {
+    seize = amount;
+  }
+
+  function flashLoanSimple(address receiver, address asset, uint256 amount, bytes calldata params, uint16) external {
+    uint256 premium = (amount * PREMIUM_BPS + 5_000) / 10_000; // percentMul
+    IERC20(asset).transfer(receiver, amount);
+    require(IFlashLoanSimpleReceiver(receiver).executeOperation(asset, amount, premium, msg.sender, params), "callback");
+    IERC20(asset).transferFrom(receiver, address(this), amount + premium);
+  }
+
+  function liquidationCall(address collateralAsset, address debtAsset, address, uint256 debtToCover, bool) external {
+    IERC20(debtAsset).transferFrom(msg.sender, address(this), debtToCover);
+    IERC20(collateralAsset).transfer(msg.sender, seize);
+  }
+}
+
+/// SwapRouter02 at a fixed price: 1 tokenIn buys `price` tokenOut; exactOutput rounds the input up.
+contract MockRouter {
+  uint256 public constant price = 2;
+
+  function exactInput(ISwapRouter02.ExactInputParams calldata p) external returns (uint256 amountOut) {
+    (address tokenIn, address tokenOut) = (address(bytes20(p.path[:20])), address(bytes20(p.path[p.path.length - 20:])));
+    amountOut = p.amountIn * price;
+    require(amountOut >= p.amountOutMinimum, "Too little received");
+    IERC20(tokenIn).transferFrom(msg.sender, address(this), p.amountIn);
+    IERC20(tokenOut).transfer(p.recipient, amountOut);
+  }
+
+  function exactOutput(ISwapRouter02.ExactOutputParams calldata p) external returns (uint256 amountIn) {
+    // Reversed path: tokenOut first
+    (address tokenOut, address tokenIn) = (address(bytes20(p.path[:20])), address(bytes20(p.path[p.path.length - 20:])));
+    amountIn = (p.amountOut + price - 1) / price;
+    require(amountIn <= p.amountInMaximum, "Too much requested");
+    IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+    IERC20(tokenOut).transfer(p.recipient, p.amountOut);
+  }
+}
+
+/// Curve-style pool (coin 0 = collateral, coin 1 = debt): exchange() pulls dx, pays `price` per unit to msg.sender.
+contract MockCurvePool {
+  uint256 public constant price = 2;
+  address[2] public coins;
+
+  constructor(address collateral, address debt) {
+    coins = [collateral, debt];
+  }
+
+  function exchange(int128 i, int128 j, uint256 dx, uint256 minDy) external returns (uint256 dy) {
+    require(i == 0 && j == 1, "pair");
+    dy = dx * price;
+    require(dy >= minDy, "Exchange resulted in fewer coins than expected");
+    IERC20(coins[0]).transferFrom(msg.sender, address(this), dx);
+    IERC20(coins[1]).transfer(msg.sender, dy);
+  }
+}
+
+contract LiquidationExecutorSwapTest {
+  address constant TREASURY = address(0xBEEF);
+  address constant BORROWER = address(0xB0B);
+  uint256 constant REPAY = 1_000e18;
+  uint256 constant SEIZED = 1_000e18;
+
+  MockToken debt;
+  MockToken coll;
+  MockPool pool;
+  MockRouter router;
+  LiquidationExecutor exec;
+
+  function setUp() public {
+    debt = new MockToken("DEBT");
+    coll = new MockToken("COLL");
+    pool = new MockPool();
+    router = new MockRouter();
+    exec = new LiquidationExecutor(address(pool), address(router), TREASURY);
+
+    pool.setSeize(SEIZED);
+    debt.mint(address(pool), 10_000e18);
+    coll.mint(address(pool), 10_000e18);
+    debt.mint(address(router), 10_000e18);
+  }
+
+  function _order(uint256 swapAmountOut, uint256 minProfit) internal view returns (LiquidationExecutor.Order memory o) {
+    o.debtAsset = address(debt);
+    o.collateralAsset = address(coll);
+    o.borrower = BORROWER;
+    o.repayAmount = REPAY;
+    o.uniPath = swapAmountOut == 0
+      ? abi.encodePacked(address(coll), uint24(500), address(debt))
+      : abi.encodePacked(address(debt), uint24(500), address(coll)); // exactOutput: reversed
+    o.amountOutMin = swapAmountOut;
+    o.swapAmountOut = swapAmountOut;
+    o.minProfit = minProfit;
+    o.deadline = block.timestamp + 60;
+  }
+
+  function test_exactOutput_repays_flash_loan_and_sends_kept_collateral_to_treasury() public {
+    uint256 premium = (REPAY * 5 + 5_000) / 10_000;
+    uint256 minProfit = 1e18;
+    uint256 target = REPAY + premium + minProfit; // plan's sell_just_enough target
+    uint256 poolBefore = debt.balanceOf(address(pool));
+
+    exec.execute(_order(target, minProfit));
+
+    uint256 sold = (target + 1) / 2;
+    // The Pool got the liquidated debt back and the flash loan with its premium
+    require(debt.balanceOf(address(pool)) == poolBefore + REPAY + premium, "flash loan not repaid");
+    require(coll.balanceOf(address(router)) == sold, "sold more than needed");
+    require(coll.balanceOf(TREASURY) == SEIZED - sold, "kept collateral not in treasury");
+    require(debt.balanceOf(TREASURY) == minProfit, "profit not in treasury");
+    require(debt.balanceOf(address(exec)) == 0 && coll.balanceOf(address(exec)) == 0, "executor kept funds");
+    require(coll.allowance(address(exec), address(router)) == 0, "router allowance left");
+  }
+
+  /// swapData as exec encodes it (encodeCurveSwap) for `simulatedSeize`; dx at CURVE_AMOUNT_IN_OFFSET
+  function _curveOrder(MockCurvePool curve, uint256 simulatedSeize) internal view returns (LiquidationExecutor.Order memory o) {
+    o = _order(0, 0);
+    o.uniPath = "";
+    o.amountOutMin = REPAY;
+    o.swapTarget = address(curve);
+    o.swapData = abi.encodeCall(MockCurvePool.exchange, (0, 1, simulatedSeize, REPAY));
+    o.swapAmountInOffset = 4 + 2 * 32;
+  }
+
+  function _checkSwapTargetSells(uint256 simulatedSeize) internal {
+    MockCurvePool curve = new MockCurvePool(address(coll), address(debt));
+    debt.mint(address(curve), 10_000e18);
+    uint256 premium = (REPAY * 5 + 5_000) / 10_000;
+
+    exec.execute(_curveOrder(curve, simulatedSeize));
+
+    require(coll.balanceOf(address(curve)) == SEIZED, "did not sell the collateral received");
+    require(coll.balanceOf(TREASURY) == 0, "collateral left over as dust");
+    require(debt.balanceOf(TREASURY) == SEIZED * 2 - REPAY - premium, "profit not in treasury");
+    require(coll.allowance(address(exec), address(curve)) == 0, "swapTarget allowance left");
+  }
+
+  function test_swapTarget_sells_all_received_when_the_seize_is_larger_than_simulated() public {
+    _checkSwapTargetSells(SEIZED - 100e18);
+  }
+
+  function test_swapTarget_sells_all_received_when_the_seize_is_smaller_than_simulated() public {
+    _checkSwapTargetSells(SEIZED + 100e18);
+  }
+
+  function test_swapTarget_reverts_on_an_amountIn_offset_outside_swapData() public {
+    MockCurvePool curve = new MockCurvePool(address(coll), address(debt));
+    debt.mint(address(curve), 10_000e18);
+    LiquidationExecutor.Order memory o = _curveOrder(curve, SEIZED);
+    o.swapAmountInOffset = o.swapData.length - 31;
+
+    try exec.execute(o) {
+      revert("expected revert");
+    } catch (bytes memory reason) {
+      require(bytes4(reason) == LiquidationExecutor.BadSwapData.selector, "expected BadSwapData");
+    }
+  }
+
+  function test_exactOutput_reverts_when_the_seized_collateral_cannot_buy_the_target() public {
+    bool reverted;
+    try exec.execute(_order(SEIZED * 2 + 2, 0)) { } catch { reverted = true; }
+    require(reverted, "expected revert (amountInMaximum = seized)");
+  }
+}
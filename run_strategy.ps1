@@ -1,18 +1,5 @@
 Write-Host "🧠 Aave V3 STRATEGIST - Plan & Execute Mode" -ForegroundColor Magenta
 
-while ($true) {
-    # Lee candidates.jsonl (generado por el scanner)
-    # Muestra HUD Detallado (Tokens, Profit)
-    # Ejecuta transacciones
-    
-    $now = Get-Date -Format "HH:mm:ss"
-    
-    # 1. Plan (Genera tx_plan.json + Rich HUD)
-    pnpm plan
-    
-    # 2. Exec (Lee tx_plan.json + Envía TX)
-    pnpm execute
-    
-    # Descanso breve para no saturar CPU y dar tiempo al scanner de actualizar
-    Start-Sleep -Seconds 2
-}
+# Un solo proceso: escucha los eventos del sentry (socket / named pipe) y planifica + simula + ejecuta al instante.
+# Si el canal se cae, lee candidates.jsonl hasta que vuelva.
+pnpm sniper
@@ -0,0 +1,98 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { createPublicClient, http, parseAbi, type Address } from "viem";
+import { arbitrum, base } from "viem/chains";
+import { uiPoolDataProviderAbi } from "../src/services/aaveScanner";
+import { UniverseStore } from "../src/lib/universeStore";
+import { POOL_VERSIONS, type PoolVersion } from "../src/lib/liquidationRules";
+
+/**
+ * Records a HealthEngine fixture: reserves, eModes, user balances and the Pool's own
+ * getUserAccountData, all pinned to one block. Output goes to test/fixtures/health/.
+ *
+ *   tsx scripts/record_health_fixture.ts [user ...]
+ * Without users, the 10 riskiest borrowers of the universe store are recorded.
+ * AAVE_POOL_VERSION picks the UI provider layout and is kept in the fixture for the engine.
+ */
+
+const RPC = process.env.ARB_RPC_URL || process.env.RPC_URL;
+if (!RPC) {
+  console.error("Missing RPC url. Set ARB_RPC_URL / RPC_URL");
+  process.exit(1);
+}
+
+const CHAIN_ID = Number(process.env.CHAIN_ID ?? "42161");
+const chain = CHAIN_ID === 8453 ? base : arbitrum;
+const UI = process.env.AAVE_UI_POOL_DATA_PROVIDER as Address;
+const PROVIDER = process.env.AAVE_POOL_ADDRESS_PROVIDER as Address;
+const POOL_VERSION = (process.env.AAVE_POOL_VERSION ?? "3.3") as PoolVersion;
+if (!POOL_VERSIONS.includes(POOL_VERSION)) {
+  console.error(`Invalid AAVE_POOL_VERSION=${POOL_VERSION} (expected ${POOL_VERSIONS.join("|")})`);
+  process.exit(1);
+}
+const UI_ABI = uiPoolDataProviderAbi(POOL_VERSION);
+
+const providerAbi = parseAbi(["function getPool() external view returns (address)"]);
+const poolAbi = parseAbi([
+  "function getUserAccountData(address user) external view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)",
+]);
+
+const client = createPublicClient({ chain, transport: http(RPC) });
+
+function strings(v: unknown): unknown {
+  if (typeof v === "bigint") return v.toString();
+  if (Array.isArray(v)) return v.map(strings);
+  if (v && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, strings(x)]));
+  return v;
+}
+
+async function main() {
+  let users = process.argv.slice(2) as Address[];
+  if (users.length === 0) {
+    users = UniverseStore.open().query({ maxHf: 1.5, limit: 10 }).map((r) => r.user as Address);
+  }
+  if (users.length === 0) throw new Error("No users given and none at risk in the universe store");
+
+  const block = await client.getBlock();
+  const at = { blockNumber: block.number! };
+  const pool = await client.readContract({ address: PROVIDER, abi: providerAbi, functionName: "getPool", ...at });
+
+  const [reserves] = await client.readContract({ address: UI, abi: UI_ABI, functionName: "getReservesData", args: [PROVIDER], ...at });
+  const emodes = await client.readContract({ address: UI, abi: UI_ABI, functionName: "getEModes", args: [PROVIDER], ...at });
+
+  const recorded = [];
+  for (const user of users) {
+    const [userReserves, eMode] = await client.readContract({ address: UI, abi: UI_ABI, functionName: "getUserReservesData", args: [PROVIDER, user], ...at });
+    const [totalCollateralBase, totalDebtBase, , currentLiquidationThreshold, , healthFactor] =
+      await client.readContract({ address: pool, abi: poolAbi, functionName: "getUserAccountData", args: [user], ...at });
+    recorded.push({
+      user,
+      eMode,
+      reserves: userReserves.filter((r) => r.scaledATokenBalance > 0n || r.scaledVariableDebt > 0n),
+      account: { totalCollateralBase, totalDebtBase, currentLiquidationThreshold, healthFactor },
+    });
+  }
+
+  const fixture = {
+    source: `recorded from chain ${CHAIN_ID} at block ${block.number}`,
+    chainId: CHAIN_ID,
+    poolVersion: POOL_VERSION,
+    block: block.number,
+    timestamp: block.timestamp,
+    reserves,
+    emodes,
+    users: recorded,
+  };
+
+  const dir = path.join("test", "fixtures", "health");
+  fs.mkdirSync(dir, { recursive: true });
+  const out = path.join(dir, `${CHAIN_ID}-${block.number}.json`);
+  fs.writeFileSync(out, JSON.stringify(strings(fixture), null, 2));
+  console.log(`wrote ${out} (${recorded.length} users, ${reserves.length} reserves)`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,164 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { createPublicClient, defineChain, http, parseAbi, type Address, type PublicClient } from "viem";
+import { arbitrum, base } from "viem/chains";
+import { V3PoolCache, WORDS_AROUND } from "../src/services/v3PoolCache";
+
+/**
+ * Records a V3PoolCache fixture: the pool reads the cache makes (slot0, liquidity, bitmap words,
+ * initialized ticks) and QuoterV2's answers for a ladder of swap sizes, all pinned to one block.
+ * Output goes to test/fixtures/v3/.
+ *
+ *   tsx scripts/record_v3_fixture.ts <tokenA> <tokenB>
+ * Every fee tier with a pool is recorded; sizes run from 1e-6 to 100% of the pool's balance of tokenIn
+ * (tokenOut for exact output). Swaps leaving the cached words are kept with `local: false`: the cache
+ * must hand those to QuoterV2. Fee tiers without a pool get one quote each way (QuoterV2 reverts).
+ * Other chain ids are local dev chains (anvil, ganache) with Multicall3 at its usual address.
+ */
+
+const RPC = process.env.ARB_RPC_URL || process.env.RPC_URL;
+if (!RPC) {
+  console.error("Missing RPC url. Set ARB_RPC_URL / RPC_URL");
+  process.exit(1);
+}
+
+const CHAIN_ID = Number(process.env.CHAIN_ID ?? "42161");
+const chain = CHAIN_ID === 8453 ? base : CHAIN_ID === 42161 ? arbitrum : defineChain({
+  id: CHAIN_ID,
+  name: `local-${CHAIN_ID}`,
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: [RPC] } },
+  contracts: { multicall3: { address: "0xcA11bde05977b3631167028862bE2a173976CA11" } },
+});
+const FACTORY = (process.env.UNISWAP_V3_FACTORY ?? "0x1F98431c8aD98523631AE4a59f267346ea31F984") as Address;
+const QUOTER = (process.env.UNISWAP_V3_QUOTER_V2 ?? "0x61fFE014bA17989E743c5F6cB21bF9697530B21e") as Address;
+const FEES = [100, 500, 3000, 10000];
+const SIZES_PPM = [1n, 100n, 10_000n, 100_000n, 300_000n, 1_000_000n];
+
+const factoryAbi = parseAbi(["function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)"]);
+const poolAbi = parseAbi([
+  "function token0() external view returns (address)",
+  "function token1() external view returns (address)",
+  "function slot0() external view returns (uint160 sqrtPriceX96,int24 tick,uint16 observationIndex,uint16 observationCardinality,uint16 observationCardinalityNext,uint8 feeProtocol,bool unlocked)",
+  "function liquidity() external view returns (uint128)",
+  "function tickSpacing() external view returns (int24)",
+  "function tickBitmap(int16 wordPosition) external view returns (uint256)",
+  "function ticks(int24 tick) external view returns (uint128 liquidityGross,int128 liquidityNet,uint256 feeGrowthOutside0X128,uint256 feeGrowthOutside1X128,int56 tickCumulativeOutside,uint160 secondsPerLiquidityOutsideX128,uint32 secondsOutside,bool initialized)",
+]);
+const quoterAbi = parseAbi([
+  "function quoteExactInputSingle((address tokenIn,address tokenOut,uint256 amountIn,uint24 fee,uint160 sqrtPriceLimitX96)) external returns (uint256 amountOut,uint160 sqrtPriceX96After,uint32 initializedTicksCrossed,uint256 gasEstimate)",
+  "function quoteExactOutputSingle((address tokenIn,address tokenOut,uint256 amount,uint24 fee,uint160 sqrtPriceLimitX96)) external returns (uint256 amountIn,uint160 sqrtPriceX96After,uint32 initializedTicksCrossed,uint256 gasEstimate)",
+]);
+const erc20Abi = parseAbi(["function balanceOf(address) view returns (uint256)"]);
+
+const client = createPublicClient({ chain, transport: http(RPC) });
+
+async function main() {
+  const [tokenA, tokenB] = process.argv.slice(2) as Address[];
+  if (!tokenA || !tokenB) {
+    console.error("Usage: tsx scripts/record_v3_fixture.ts <tokenA> <tokenB>");
+    process.exit(1);
+  }
+
+  const blockNumber = await client.getBlockNumber();
+  const at = { blockNumber };
+  const cache = new V3PoolCache(client as PublicClient, FACTORY);
+
+  const pools = [];
+  const quotes = [];
+  const quote = async (fn: "quoteExactInputSingle" | "quoteExactOutputSingle", tokenIn: Address, tokenOut: Address, fee: number, amount: bigint) => {
+    try {
+      const { result: r } = fn === "quoteExactInputSingle"
+        ? await client.simulateContract({ address: QUOTER, abi: quoterAbi, functionName: fn, args: [{ tokenIn, tokenOut, amountIn: amount, fee, sqrtPriceLimitX96: 0n }], ...at })
+        : await client.simulateContract({ address: QUOTER, abi: quoterAbi, functionName: fn, args: [{ tokenIn, tokenOut, amount, fee, sqrtPriceLimitX96: 0n }], ...at });
+      return { amount: r[0].toString(), sqrtPriceX96After: r[1].toString() };
+    } catch {
+      return "revert" as const;
+    }
+  };
+  for (const fee of FEES) {
+    const pool = await client.readContract({ address: FACTORY, abi: factoryAbi, functionName: "getPool", args: [tokenA, tokenB, fee], ...at });
+    if (pool === "0x0000000000000000000000000000000000000000") {
+      for (const [tokenIn, tokenOut] of [[tokenA, tokenB], [tokenB, tokenA]]) {
+        for (const fn of ["quoteExactInputSingle", "quoteExactOutputSingle"] as const) {
+          const amount = 10n ** 6n;
+          quotes.push({ fn, tokenIn: tokenIn.toLowerCase(), tokenOut: tokenOut.toLowerCase(), fee, amount: amount.toString(), result: await quote(fn, tokenIn, tokenOut, fee, amount) });
+        }
+      }
+      continue;
+    }
+    const read = <F extends "token0" | "token1" | "slot0" | "liquidity" | "tickSpacing">(functionName: F) =>
+      client.readContract({ address: pool, abi: poolAbi, functionName, ...at } as any) as Promise<any>;
+
+    const [token0, token1, slot0, liquidity, tickSpacing] = await Promise.all([read("token0"), read("token1"), read("slot0"), read("liquidity"), read("tickSpacing")]);
+    const tick = Number(slot0[1]);
+    const spacing = Number(tickSpacing);
+    const word = Math.floor(tick / spacing) >> 8;
+
+    const bitmap: Record<string, string> = {};
+    const ticks: Record<string, string> = {};
+    for (let w = word - WORDS_AROUND; w <= word + WORDS_AROUND; w++) {
+      const bits = await client.readContract({ address: pool, abi: poolAbi, functionName: "tickBitmap", args: [w], ...at });
+      bitmap[String(w)] = `0x${bits.toString(16)}`;
+      for (let bit = 0; bit < 256; bit++) {
+        if (((bits >> BigInt(bit)) & 1n) === 0n) continue;
+        const t = (w * 256 + bit) * spacing;
+        const info = await client.readContract({ address: pool, abi: poolAbi, functionName: "ticks", args: [t], ...at });
+        ticks[String(t)] = info[1].toString();
+      }
+    }
+    pools.push({
+      address: pool.toLowerCase(),
+      token0: String(token0).toLowerCase(),
+      token1: String(token1).toLowerCase(),
+      fee,
+      tickSpacing: spacing,
+      sqrtPriceX96: slot0[0].toString(),
+      tick,
+      liquidity: liquidity.toString(),
+      bitmap,
+      ticks,
+    });
+
+    for (const [tokenIn, tokenOut] of [[token0, token1], [token1, token0]] as Address[][]) {
+      const leg = { tokenIn, tokenOut, fee };
+      const snap = await cache.snapshot([leg], blockNumber);
+      const [balanceIn, balanceOut] = await Promise.all([
+        client.readContract({ address: tokenIn, abi: erc20Abi, functionName: "balanceOf", args: [pool], ...at }),
+        client.readContract({ address: tokenOut, abi: erc20Abi, functionName: "balanceOf", args: [pool], ...at }),
+      ]);
+      for (const ppm of SIZES_PPM) {
+        for (const fn of ["quoteExactInputSingle", "quoteExactOutputSingle"] as const) {
+          const amount = ((fn === "quoteExactInputSingle" ? balanceIn : balanceOut) * ppm) / 1_000_000n;
+          if (amount === 0n) continue;
+          // Swaps leaving the cached words go to QuoterV2 in production: recorded to check the cache says so
+          const local = fn === "quoteExactInputSingle" ? snap.exactInputSingle(leg, amount) : snap.exactOutputSingle(leg, amount);
+          const result = await quote(fn, tokenIn, tokenOut, fee, amount);
+          quotes.push({ fn, tokenIn: tokenIn.toLowerCase(), tokenOut: tokenOut.toLowerCase(), fee, amount: amount.toString(), result, ...(local === null ? { local: false } : {}) });
+        }
+      }
+    }
+  }
+  if (pools.length === 0) throw new Error("No Uniswap V3 pool for the pair");
+
+  const fixture = {
+    source: `recorded from chain ${CHAIN_ID} at block ${blockNumber}`,
+    chainId: CHAIN_ID,
+    block: blockNumber.toString(),
+    factory: FACTORY,
+    pools,
+    quotes,
+  };
+
+  const dir = path.join("test", "fixtures", "v3");
+  fs.mkdirSync(dir, { recursive: true });
+  const out = path.join(dir, `${CHAIN_ID}-${blockNumber}-${tokenA.slice(2, 8).toLowerCase()}-${tokenB.slice(2, 8).toLowerCase()}.json`);
+  fs.writeFileSync(out, JSON.stringify(fixture, null, 2));
+  console.log(`wrote ${out} (${pools.length} pools, ${quotes.length} quotes)`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
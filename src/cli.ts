@@ -1,11 +1,14 @@
 import { Command } from "commander";
 import { scanCmd } from "./commands/scan.js";
-// import { simulateCmd } from "./commands/simulate.js";
+import { simulateCmd } from "./commands/simulate.js";
 import { planCmd } from "./commands/plan.js";
 import { execCmd } from "./commands/exec.js";
+import { universeCmd } from "./commands/universe.js";
 
-// import { preflightCmd } from "./commands/preflight.js";
-// import { cycleCmd } from "./commands/cycle.js";
+import { preflightCmd } from "./commands/preflight.js";
+import { cycleCmd } from "./commands/cycle.js";
+import { runCmd } from "./commands/run.js";
+import { sniperCmd } from "./commands/sniper.js";
 // import { showBanner } from "./banner.js";
 const program = new Command();
 
@@ -20,17 +23,44 @@ program
 program.command("scan")
   .description("Discover candidates")
   .option("-m, --mode <mode>", "mining | sentry | mixed", "mixed")
-  .action(async (opts) => scanCmd(opts));
-// program.command("simulate").description("Simulate opportunities net profitability").action(async () => simulateCmd());
+  .option("--cycles <n>", "stop after N sentry cycles (default: run forever)", Number)
+  .option("--pass", "stop after one full pass over the active universe")
+  .action(async (opts) => { await scanCmd(opts); });
+program.command("simulate").description("Re-check tx_plan orders: fresh quote, Pool sizing, gas + L1 fee").action(async () => simulateCmd());
 program.command("plan").description("Create tx plan (WATCH/EXEC)").action(async () => planCmd());
-// program.command("preflight").description("Preflight checks (RPC, quoter, staleness, key if EXEC)").action(async () => preflightCmd());
-// program.command("cycle").description("Run full optimization cycle (Scan->Sim->Plan->Exec)").action(async () => cycleCmd());
+program.command("preflight").description("Preflight checks (RPC, quoter, staleness, key if EXEC)").action(async () => preflightCmd());
+program.command("cycle")
+  .description("Run the pipeline once: scan -> plan -> simulate -> preflight -> exec (exit code = failed step)")
+  .option("--cycles <n>", "sentry cycles for the scan step (default: one full universe pass)", Number)
+  .action(async (opts) => cycleCmd(opts));
+
+program
+  .command("run")
+  .description("Daemon: miner + sentry + sniper in one process (in-memory hand-off, shared RPC client)")
+  .action(async () => runCmd());
+
+program
+  .command("sniper")
+  .description("Plan -> simulate -> exec on sentry IPC events (falls back to candidates.jsonl while disconnected)")
+  .action(async () => sniperCmd());
 
 program
   .command("exec")
   .description("DRY-RUN execution plumbing (requires PRIVATE_KEY)")
   .action(async () => execCmd());
 
+program
+  .command("universe")
+  .description("Query the borrower universe store (e.g. --max-hf 1.3 => riskiest by debt)")
+  .option("--max-hf <hf>", "only users with last known HF below this")
+  .option("--min-debt <usd>", "only users with at least this much debt (USD)")
+  .option("--debt-in <reserve>", "only users borrowing this reserve")
+  .option("--collateral-in <reserve>", "only users supplying this reserve")
+  .option("--tier <tier>", "active | dormant (closed positions)")
+  .option("-l, --limit <n>", "rows to show", "20")
+  .option("--json", "print matching records as JSON")
+  .action(async (opts) => universeCmd(opts));
+
 program.parseAsync(process.argv);
 
 
@@ -5,41 +5,83 @@ import { planCmd } from "./plan.js";
 import { execCmd } from "./exec.js";
 import { preflightCmd } from "./preflight.js";
 
-export async function cycleCmd() {
-    const start = Date.now();
-    logger.info("🔄 [CYCLE] Starting optimized execution sequence...");
+type StepName = "scan" | "plan" | "simulate" | "preflight" | "exec";
 
-    try {
-        // 1. SCAN
-        console.log(">> STEP: SCAN");
-        await scanCmd();
+type StepResult = {
+    step: StepName;
+    status: "ok" | "failed" | "skipped";
+    ms: number;
+    detail?: unknown;
+};
 
-        // 2. SIMULATE
-        console.log(">> STEP: SIMULATE");
-        await simulateCmd();
+/** Process exit code per failed step (0 = every step ok or skipped). */
+export const CYCLE_EXIT_CODES: Record<StepName, number> = {
+    scan: 1,
+    plan: 2,
+    simulate: 3,
+    preflight: 4,
+    exec: 5,
+};
 
-        // 3. PLAN
-        console.log(">> STEP: PLAN");
-        await planCmd();
+function truthyEnv(name: string, def = "0"): boolean {
+    return ["1", "true", "yes", "y", "on"].includes(String(process.env[name] ?? def).toLowerCase());
+}
 
-        // 4. PREFLIGHT
-        console.log(">> STEP: PREFLIGHT");
-        await preflightCmd();
+type CycleStep = [StepName, () => Promise<unknown>];
 
-        // 5. EXEC
-        console.log(">> STEP: EXEC");
-        // We capture the return value or logs if possible, but execCmd usually logs to stdout
-        // For the visual dashboard, we need it to print "exec: submitted" if successful
-        await execCmd();
+/**
+ * Runs the steps in order. The first failing step stops the sequence (the rest are skipped) and
+ * its CYCLE_EXIT_CODES entry is returned; exec is skipped unless `execEnabled`.
+ */
+export async function runCycleSteps(steps: CycleStep[], execEnabled: boolean): Promise<{ exitCode: number; results: StepResult[] }> {
+    const results: StepResult[] = [];
+    let exitCode = 0;
 
-        const duration = ((Date.now() - start) / 1000).toFixed(2);
-        logger.info(`✅ [CYCLE] Sequence completed in ${duration}s`);
+    for (const [step, run] of steps) {
+        if (exitCode !== 0 || (step === "exec" && !execEnabled)) {
+            results.push({ step, status: "skipped", ms: 0, detail: exitCode !== 0 ? "earlier step failed" : "EXEC_ENABLED off" });
+            continue;
+        }
+        console.log(`>> STEP: ${step.toUpperCase()}`);
+        const t0 = Date.now();
+        try {
+            const detail = await run();
+            results.push({ step, status: "ok", ms: Date.now() - t0, ...(detail !== undefined ? { detail } : {}) });
+        } catch (error: any) {
+            results.push({ step, status: "failed", ms: Date.now() - t0, detail: String(error?.message ?? error).slice(0, 300) });
+            logger.error(error, `❌ [CYCLE] ${step} failed`);
+            exitCode = CYCLE_EXIT_CODES[step];
+        }
+    }
+    return { exitCode, results };
+}
 
-        // Force exit to ensure no lingering handles (sockets/timeouts) keep the process alive
-        process.exit(0);
+/**
+ * One bounded pass of the whole pipeline (cron / CI): the scan stops after `cycles` sentry cycles,
+ * or after one full pass over the active universe, then plan, simulate, preflight and exec run once.
+ * The first failing step stops the sequence; its code is the process exit code.
+ */
+export async function cycleCmd(opts: { cycles?: number } = {}) {
+    const start = Date.now();
+    logger.info("🔄 [CYCLE] Starting optimized execution sequence...");
 
-    } catch (error) {
-        logger.error(error, "❌ [CYCLE] Sequence failed");
-        process.exit(1);
-    }
+    const execEnabled = truthyEnv("EXEC_ENABLED", "0");
+    const steps: CycleStep[] = [
+        ["scan", () => scanCmd(opts.cycles !== undefined ? { cycles: opts.cycles } : { pass: true })],
+        ["plan", () => planCmd()],
+        // simulate re-checks the plan's orders; exec only sends what passes here
+        ["simulate", () => simulateCmd()],
+        ["preflight", () => preflightCmd()],
+        ["exec", () => execCmd()],
+    ];
+
+    const { exitCode, results } = await runCycleSteps(steps, execEnabled);
+
+    const duration = ((Date.now() - start) / 1000).toFixed(2);
+    for (const r of results) logger.info(r, `[CYCLE] ${r.step}: ${r.status}`);
+    if (exitCode === 0) logger.info(`✅ [CYCLE] Sequence completed in ${duration}s`);
+    else logger.error({ exitCode }, `❌ [CYCLE] Sequence failed in ${duration}s`);
+
+    // Force exit to ensure no lingering handles (sockets/timeouts) keep the process alive
+    process.exit(exitCode);
 }
@@ -1,12 +1,14 @@
-import fs from "node:fs/promises";
 import { logger } from "../logger";
-import { loadConfig } from "../config";
-import { createPublicClient, createWalletClient, http, Address } from "viem";
+import { loadConfig, AppConfig } from "../config";
+import { createPublicClient, createWalletClient, http, zeroAddress, Address, PublicClient, WalletClient, Chain } from "viem";
 import { arbitrum, base } from "viem/chains";
 import { privateKeyToAccount } from "viem/accounts";
 import { dataPath } from "../lib/data_dir";
 import { AaveScanner } from "../services/aaveScanner";
 import { addToBlacklist } from "../lib/blacklist";
+import { readArtifact, writeArtifact, ArtifactError } from "../utils/io";
+import { dexAmountInOffset, encodeDexSwap } from "../services/dex";
+import type { TxSim } from "./simulate.js";
 
 function truthyEnv(name: string, def = "0"): boolean {
   return ["1", "true", "yes", "y", "on"].includes(String(process.env[name] ?? def).toLowerCase());
@@ -19,13 +21,17 @@ function parseAddr(name: string): `0x${string}` {
 }
 
 // Aave V3 Executor Order
-type ExecutorOrder = {
+export type ExecutorOrder = {
   debtAsset: Address;
   collateralAsset: Address;
   borrower: Address;
   repayAmount: bigint;
-  uniPath: `0x${string}`;
+  uniPath: `0x${string}`;  // exactOutput (swapAmountOut > 0): reversed, debt first
   amountOutMin: bigint;
+  swapAmountOut: bigint;   // 0: sell all seized collateral; else buy exactly this much debt, keep the rest
+  swapTarget: Address;     // zero: Uniswap V3 via uniPath; else another DEX, called with swapData
+  swapData: `0x${string}`;
+  swapAmountInOffset: bigint; // byte offset of amountIn in swapData: the executor writes the collateral received there
   minProfit: bigint;
   deadline: bigint;
   maxTxGasPrice: bigint;
@@ -36,7 +42,7 @@ type ExecutorOrder = {
 type PlanItem = {
   ts?: string;
   candidateId?: string;
-  marketId: string; // Kept for reference or could be removed/renamed
+  marketId?: string; // Kept for reference or could be removed/renamed
   borrower: string;
   netProfitUsd: number;
   proximity: number | null;
@@ -48,7 +54,20 @@ type PlanItem = {
 
 type TxPlan = { items: PlanItem[]; generatedAt?: string };
 
-const EXECUTOR_ABI = [
+/** Signer + clients, checked once (execCmd per call, the run daemon at startup). */
+export type ExecContext = {
+  cfg: AppConfig;
+  account: ReturnType<typeof privateKeyToAccount>;
+  executor: `0x${string}`;
+  chain: Chain;
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  scanner: AaveScanner; // forensic checks
+};
+
+export type ExecResult = { tried: number; skippedHealthy: number; failed: number; txHash: `0x${string}` | null };
+
+export const EXECUTOR_ABI = [
   {
     type: "function",
     name: "execute",
@@ -64,6 +83,10 @@ const EXECUTOR_ABI = [
           { name: "repayAmount", type: "uint256" },
           { name: "uniPath", type: "bytes" },
           { name: "amountOutMin", type: "uint256" },
+          { name: "swapAmountOut", type: "uint256" },
+          { name: "swapTarget", type: "address" },
+          { name: "swapData", type: "bytes" },
+          { name: "swapAmountInOffset", type: "uint256" },
           { name: "minProfit", type: "uint256" },
           { name: "deadline", type: "uint256" },
           { name: "maxTxGasPrice", type: "uint256" },
@@ -76,6 +99,17 @@ const EXECUTOR_ABI = [
   },
 ] as const;
 
+/** Another DEX's route from simulate, encoded for this executor (it is the swap's recipient). */
+function executorSwap(sim: TxSim["orders"][number], executor: Address): Pick<ExecutorOrder, "swapTarget" | "swapData" | "swapAmountInOffset"> {
+  if (!sim.dexRoute) return { swapTarget: zeroAddress, swapData: "0x", swapAmountInOffset: 0n };
+  return {
+    swapTarget: sim.dexRoute.target,
+    // amountIn is the simulated seize; the executor patches in what liquidationCall actually handed over
+    swapData: encodeDexSwap(sim.dexRoute, { amountIn: BigInt(sim.collateralIn), amountOutMin: BigInt(sim.amountOutMin), recipient: executor }),
+    swapAmountInOffset: BigInt(dexAmountInOffset(sim.dexRoute)),
+  };
+}
+
 function classifyErr(e: any): { kind: "SKIP_HEALTHY" | "FAIL"; msg: string } {
   const msg = String(e?.shortMessage ?? e?.message ?? e ?? "");
   const m = msg.toLowerCase();
@@ -84,7 +118,8 @@ function classifyErr(e: any): { kind: "SKIP_HEALTHY" | "FAIL"; msg: string } {
   return { kind: "FAIL", msg };
 }
 
-export async function execCmd() {
+/** Throws when exec is blocked (EXEC_ENABLED, PRIVATE_KEY, EXECUTOR_ADDR). `client`/`scanner`: shared reads (run daemon). */
+export function execContext(client?: PublicClient, scanner?: AaveScanner): ExecContext {
   const cfg = loadConfig();
 
   if (!truthyEnv("EXEC_ENABLED", "0")) {
@@ -94,16 +129,16 @@ export async function execCmd() {
     throw new Error("exec: PRIVATE_KEY missing in config/env.");
   }
 
-  const EXECUTOR_ADDR = parseAddr("EXECUTOR_ADDR");
+  const executor = parseAddr("EXECUTOR_ADDR");
   const account = privateKeyToAccount(cfg.PRIVATE_KEY as `0x${string}`);
 
   // Select chain
   const chain = cfg.CHAIN_ID === 8453 ? base : arbitrum;
 
-  const publicClient = createPublicClient({
+  const publicClient = client ?? (createPublicClient({
     chain,
     transport: http(cfg.ARB_RPC_URL),
-  });
+  }) as PublicClient);
 
   const walletClient = createWalletClient({
     account,
@@ -111,36 +146,63 @@ export async function execCmd() {
     transport: http(cfg.ARB_RPC_URL),
   });
 
-  const planRaw = await fs.readFile(dataPath("tx_plan.json"), "utf8");
-  const plan = JSON.parse(planRaw) as TxPlan;
+  return { cfg, account, executor, chain, publicClient, walletClient, scanner: scanner ?? new AaveScanner() };
+}
+
+export async function execCmd() {
+  const ctx = execContext();
+
+  const { data: plan } = await readArtifact<TxPlan>(dataPath("tx_plan.json"));
+
+  let txSim: TxSim;
+  try {
+    txSim = (await readArtifact<TxSim>(dataPath("tx_sim.json"))).data;
+  } catch (e: any) {
+    if (!(e instanceof ArtifactError)) throw e;
+    logger.error({ reason: e.reason, err: e.message }, "exec: data/tx_sim.json not usable (run simulate first)");
+    return;
+  }
+  await executePlan(ctx, plan, txSim);
+}
+
+/** Sends the best order the simulation of this very plan passed (one liquidation per call). */
+export async function executePlan(ctx: ExecContext, plan: TxPlan, txSim: Pick<TxSim, "planGeneratedAt" | "orders">): Promise<ExecResult> {
+  const { cfg, account, chain, publicClient, walletClient, scanner } = ctx;
+  const EXECUTOR_ADDR = ctx.executor;
+  const result: ExecResult = { tried: 0, skippedHealthy: 0, failed: 0, txHash: null };
+
+  if (!plan.generatedAt || txSim.planGeneratedAt !== plan.generatedAt) {
+    logger.error(
+      { planGeneratedAt: plan.generatedAt, simPlanGeneratedAt: txSim.planGeneratedAt },
+      "exec: tx_sim.json was not produced from this tx_plan.json (safety abort)"
+    );
+    return result;
+  }
+  const simById = new Map((txSim.orders ?? []).filter((o) => o.pass).map((o) => [o.candidateId, o]));
 
   const execs = (plan.items ?? [])
-    .filter((x) => x.action === "EXEC" && x.pass && x.order)
-    .sort((a, b) => Number(b.netProfitUsd) - Number(a.netProfitUsd));
+    .filter((x) => x.action === "EXEC" && x.pass && x.order && simById.has(x.candidateId ?? ""))
+    .map((x) => ({ ...x, sim: simById.get(x.candidateId ?? "")! }))
+    .sort((a, b) => b.sim.netProfitUsd - a.sim.netProfitUsd);
 
   if (execs.length === 0) {
-    logger.info({ exec: 0 }, "exec: nothing to execute (no EXEC+pass items with order)");
-    return;
+    logger.info({ exec: 0, simulated: txSim.orders?.length ?? 0 }, "exec: nothing to execute (no EXEC item passed simulate)");
+    return result;
   }
 
   const deadlineSec = Math.trunc(Number(process.env.ORDER_DEADLINE_SEC ?? "180"));
   const refreshedDeadline = BigInt(Math.floor(Date.now() / 1000) + Math.max(60, deadlineSec));
 
-  let tried = 0;
-  let skippedHealthy = 0;
-  let failed = 0;
 
   const maxAgeSec = 90; // Increased to 90s to prevent stale plans on slow loops
   const planAge = (Date.now() - Date.parse(plan.generatedAt ?? "")) / 1000;
   if (planAge > maxAgeSec) {
     logger.error({ planAge, maxAgeSec }, "exec: plan is STALE (safety abort)");
-    return;
+    return result;
   }
 
-  const scanner = new AaveScanner(); // For forensic check
-
   for (const selected of execs) {
-    tried++;
+    result.tried++;
 
     // Safety: Gas Price Cap
     const currentGasPrice = await publicClient.getGasPrice();
@@ -151,12 +213,16 @@ export async function execCmd() {
 
     const selectedOrder = selected.order!;
     // Refresh deadline/nonce
-    const refreshedNonce = BigInt(Date.now() + tried);
+    const refreshedNonce = BigInt(Date.now() + result.tried);
 
     const order: ExecutorOrder = {
       ...selectedOrder,
       repayAmount: BigInt(selectedOrder.repayAmount),
-      amountOutMin: BigInt(selectedOrder.amountOutMin),
+      // Route and floor from the fresh quote in simulate
+      uniPath: selected.sim.uniPath as `0x${string}`,
+      amountOutMin: BigInt(selected.sim.amountOutMin),
+      swapAmountOut: BigInt(selected.sim.swapAmountOut),
+      ...executorSwap(selected.sim, EXECUTOR_ADDR),
       minProfit: BigInt(selectedOrder.minProfit),
       maxTxGasPrice: BigInt(selectedOrder.maxTxGasPrice),
       deadline: refreshedDeadline,
@@ -177,7 +243,7 @@ export async function execCmd() {
       // We are willing to share 10% of the profit with the miner to get the transaction in.
       // But we strict CAP the bid to $2.00 because our wallet only has $10.
 
-      const profitUsd = Number(selected.netProfitUsd || 0);
+      const profitUsd = Number(selected.sim.netProfitUsd || 0);
 
       // 1. Target Fee: 10% of profit (Aggressive)
       // e.g. Profit $10 -> Fee $1. Profit $50 -> Fee $5.
@@ -221,21 +287,22 @@ export async function execCmd() {
         selected: {
           candidateId: selected.candidateId,
           borrower: selected.borrower,
-          netProfitUsd: selected.netProfitUsd,
-          note: selected.note,
+          netProfitUsd: selected.sim.netProfitUsd,
+          note: selected.sim.note,
         },
         from: account.address,
         txHash: hash,
         note: "LIQUIDATION_SENT",
       };
 
-      await fs.writeFile(outPath, JSON.stringify(out, null, 2), "utf8");
+      await writeArtifact(outPath, out);
       logger.info({ ...out, out: outPath }, "exec: broadcasted liquidation");
-      return;
+      result.txHash = hash;
+      return result;
     } catch (e: any) {
       const c = classifyErr(e);
       if (c.kind === "SKIP_HEALTHY") {
-        skippedHealthy++;
+        result.skippedHealthy++;
 
         // --- FORENSIC ANALYSIS (Aave V3) ---
         try {
@@ -265,7 +332,7 @@ export async function execCmd() {
         addToBlacklist(selected.borrower);
         continue;
       }
-      failed++;
+      result.failed++;
       logger.warn(
         { candidateId: selected.candidateId, err: c.msg.slice(0, 500) },
         "exec: simulate failed - trying next"
@@ -275,6 +342,7 @@ export async function execCmd() {
     }
   }
 
-  logger.info({ tried, skippedHealthy, failed }, "exec: no executable order found this cycle");
+  logger.info(result, "exec: no executable order found this cycle");
+  return result;
 }
 
@@ -1,13 +1,19 @@
-import fs from "node:fs";
 import { logger } from "../logger";
-import { loadConfig } from "../config";
+import { loadConfig, SwapStrategy } from "../config";
 import { dataPath } from "../lib/data_dir";
+import { readJsonlArtifact, writeArtifact } from "../utils/io";
 import { loadBlacklist, isBlacklisted } from "../lib/blacklist";
-import { Address, parseUnits } from "viem";
+import { getUserAssets, UserAssets } from "../lib/getUserAssets";
+import { selectPair, PairScore, PairSelection, PairSelectorOpts, QuoteFn } from "../services/pairSelector";
+import { quoteBestExactInput, quoteBestExactOutput } from "../services/quoteBest";
+import { dexAdapters, dexAmountInOffset, encodeDexSwap, DexId, DexRoute } from "../services/dex";
+import { v3PoolCache } from "../services/v3PoolCache";
+import { Address, isAddress, parseUnits, zeroAddress } from "viem";
+import { percentMul } from "../lib/aaveMath";
 
 type PlanAction = "EXEC" | "WATCH" | "SKIP";
 
-type AaveCandidate = {
+export type AaveCandidate = {
   candidateId: string;
   borrower: Address;
   healthFactor: number;
@@ -17,6 +23,7 @@ type AaveCandidate = {
   bestDebt?: Address;
   bestCollateral?: Address;
   bestDebtAmount?: string; // serialized bigint
+  liqDistancePct?: number | null; // % move of the nearest asset to HF < 1 (sentry, when positions loaded)
   status: string;
   ts: string;
 };
@@ -29,6 +36,10 @@ type ExecutorOrder = {
   repayAmount: bigint;
   uniPath: `0x${string}`;
   amountOutMin: bigint;
+  swapAmountOut: bigint; // 0: sell all (exactInput)
+  swapTarget: Address;   // zero: Uniswap V3 (uniPath)
+  swapData: `0x${string}`;
+  swapAmountInOffset: bigint; // amountIn word in swapData, patched by the executor
   minProfit: bigint;
   deadline: bigint;
   maxTxGasPrice: bigint;
@@ -36,7 +47,7 @@ type ExecutorOrder = {
   nonce: bigint;
 };
 
-type TxPlanItem = {
+export type TxPlanItem = {
   ts: string;
   candidateId: string;
   borrower: string;
@@ -45,27 +56,113 @@ type TxPlanItem = {
   action: PlanAction;
   pass: boolean;
   note: string;
+  selection?: PairRank[]; // best first; the order uses selection[0]
+  skipReasons?: string[]; // reserves/pairs left out: paused, inactive, not collateral, dust...
+  swap?: PlanSwap;
   order?: ExecutorOrder;
 };
 
-function bigintReplacer(_key: string, value: unknown) {
-  return typeof value === "bigint" ? value.toString() : value;
-}
+/** How much of the seized collateral the order sells (SWAP_STRATEGY, sell_all when just-enough has no route). */
+type PlanSwap = {
+  strategy: SwapStrategy;
+  dex: DexId;
+  dexRoute?: DexRoute;    // non-Uniswap route; exec re-encodes simulate's fresh one
+  collateralIn: string;   // collateral units sold (sell_just_enough: exact-output quote)
+  keptCollateral: string; // seized - collateralIn, to the treasury
+  keptUsd: number;
+  sellAllNetUsd: number;  // the sell_all alternative, for comparison
+  note?: string;
+};
 
-export async function planCmd() {
-  const cfg = loadConfig();
-  const now = new Date().toISOString();
+type PairRank = {
+  pair: string; // COLLATERAL->DEBT
+  repayUsd: number;
+  seizeUsd: number;
+  swapOutUsd: number;
+  netUsd: number;
+  quoted: boolean;
+  limitedBy: string;
+  fullClose: boolean;
+  dust: string | null;
+};
 
-  const candFile = dataPath("candidates.jsonl");
-  if (!fs.existsSync(candFile)) throw new Error(`Missing ${candFile}`);
+function rankRow(p: PairScore): PairRank {
+  return {
+    pair: `${p.collateralSymbol}->${p.debtSymbol}`,
+    repayUsd: p.repayUsd,
+    seizeUsd: p.seizeUsd,
+    swapOutUsd: p.swapOutUsd,
+    netUsd: p.netUsd,
+    quoted: p.quoted,
+    limitedBy: p.limitedBy,
+    fullClose: p.fullClose,
+    dust: p.dust,
+  };
+}
 
-  const candidates: AaveCandidate[] = [];
-  const raw = fs.readFileSync(candFile, "utf-8").trim();
-  if (raw) {
-    raw.split(/\r?\n/).forEach(ln => {
-      try { candidates.push(JSON.parse(ln)); } catch { }
-    });
+/** Exact-output quote: collateral (tokenIn) needed for `amountOut` of debt, on a reversed V3 path. */
+export type ExactOutQuoteFn = (tokenIn: Address, tokenOut: Address, amountOut: bigint) => Promise<{ amountIn: bigint; path: `0x${string}` } | null>;
+
+export type JustEnough =
+  | { target: bigint; amountIn: bigint; kept: bigint; path: `0x${string}` }
+  | { note: string }; // sell all instead
+
+/**
+ * sell_just_enough sizing: buy exactly repay + flash premium (percentMul, as the Pool rounds it, or the
+ * executor's ProfitTooLow guard trips by a wei) + minProfit, if the collateral that takes leaves SLIPPAGE_BPS
+ * of the seized amount as headroom: the executor can never spend more than it seized.
+ */
+export async function sellJustEnough(
+  p: Pick<PairScore, "collateralAsset" | "debtAsset" | "repayAmount" | "seizeAmount">,
+  opts: { minProfit: bigint; flashFeeBps: number; slippageBps: number; quoteOut?: ExactOutQuoteFn }
+): Promise<JustEnough> {
+  if (!opts.quoteOut) return { note: "QUOTE_ENABLED off: no exact-output quote, selling all" };
+  const target = p.repayAmount + percentMul(p.repayAmount, BigInt(opts.flashFeeBps)) + opts.minProfit;
+  let q: Awaited<ReturnType<ExactOutQuoteFn>> = null;
+  try {
+    q = await opts.quoteOut(p.collateralAsset, p.debtAsset, target);
+  } catch {
+    q = null;
   }
+  if (!q) return { note: "no exact-output route, selling all" };
+  const maxIn = (p.seizeAmount * BigInt(10_000 - opts.slippageBps)) / 10_000n;
+  if (q.amountIn > maxIn) return { note: `needs ${q.amountIn} of ${p.seizeAmount} seized (slippage headroom), selling all` };
+  return { target, amountIn: q.amountIn, kept: p.seizeAmount - q.amountIn, path: q.path };
+}
+
+export type OrderGuards = { amountOutMin: bigint; minProfit: bigint; skip: string | null };
+
+/**
+ * amountOutMin / minProfit for the executor order, and the reason to skip it when the expected swap
+ * output cannot cover repay + flash premium + minProfit (the executor's ProfitTooLow guard).
+ */
+export function orderGuards(
+  p: PairScore,
+  opts: { minProfitUsd: number; flashFeeBps: number; slippageBps: number; requireQuote: boolean }
+): OrderGuards {
+  const amountOutMin = (p.expectedOut * BigInt(10_000 - opts.slippageBps)) / 10_000n;
+  const minProfit = parseUnits((opts.minProfitUsd / p.debtPriceUsd).toFixed(p.debtDecimals), p.debtDecimals);
+  const premium = percentMul(p.repayAmount, BigInt(opts.flashFeeBps)); // rounded like the Pool, as the executor's guard sees it
+  let skip: string | null = null;
+  if (opts.requireQuote && !p.quote) skip = `no swap quote for ${p.collateralSymbol}->${p.debtSymbol}`;
+  else if (p.expectedOut < p.repayAmount + premium + minProfit) {
+    skip = `expected out below repay + premium + minProfit ($${p.netUsd.toFixed(2)} < $${opts.minProfitUsd})`;
+  }
+  return { amountOutMin, minProfit, skip };
+}
+
+export type TxPlan = { items: TxPlanItem[]; generatedAt: string; execBuilt: number };
+
+/**
+ * WATCH / EXEC / SKIP item per candidate, with the executor order for the EXEC ones.
+ * `assetsOf`: the borrower's balances (planCmd caches them for its HUD; the run daemon shares its RPC client).
+ */
+export async function buildPlan(
+  candidates: AaveCandidate[],
+  assetsOf: (borrower: Address) => Promise<UserAssets> = getUserAssets
+): Promise<TxPlan> {
+  const cfg = loadConfig();
+  const now = new Date().toISOString();
 
   const items: TxPlanItem[] = [];
   let execBuilt = 0;
@@ -75,6 +172,51 @@ export async function planCmd() {
   const maxTxGasPriceWei = BigInt(process.env.MAX_TX_GAS_PRICE_WEI ?? "0");
   const slippageBps = cfg.SLIPPAGE_BPS;
 
+  const adapters = cfg.QUOTE_ENABLED ? dexAdapters(cfg) : [];
+  const local = cfg.QUOTE_ENABLED ? v3PoolCache(cfg) : null;
+  const quote: QuoteFn | undefined = cfg.QUOTE_ENABLED
+    ? async (tokenIn, tokenOut, amountIn) => {
+      const q = await quoteBestExactInput({
+        rpcUrl: cfg.ARB_RPC_URL,
+        quoter: cfg.UNISWAP_V3_QUOTER_V2 as `0x${string}`,
+        tokenIn,
+        tokenOut,
+        amountIn,
+        fees: cfg.QUOTE_FEES,
+        intermediates: cfg.SWAP_INTERMEDIATES as `0x${string}`[],
+        maxFeesPerLeg: 3,
+        adapters,
+        local,
+      });
+      return q && q.amountOut > 0n ? { amountOut: q.amountOut, path: q.path, mode: q.mode, dexRoute: q.dexRoute } : null;
+    }
+    : undefined;
+  // Exact-output quote for sell_just_enough: collateral needed for `amountOut` of debt
+  const quoteOut: ExactOutQuoteFn | undefined = cfg.QUOTE_ENABLED && cfg.SWAP_STRATEGY === "sell_just_enough"
+    ? async (tokenIn, tokenOut, amountOut) => {
+      const q = await quoteBestExactOutput({
+        rpcUrl: cfg.ARB_RPC_URL,
+        quoter: cfg.UNISWAP_V3_QUOTER_V2 as `0x${string}`,
+        tokenIn,
+        tokenOut,
+        amountOut,
+        fees: cfg.QUOTE_FEES,
+        intermediates: cfg.SWAP_INTERMEDIATES as `0x${string}`[],
+        maxFeesPerLeg: 3,
+        local,
+      });
+      return q && q.amountIn > 0n ? q : null;
+    }
+    : undefined;
+  const guardOpts = { minProfitUsd: cfg.MIN_PROFIT_NET_USD, flashFeeBps: cfg.FLASHLOAN_FEE_BPS, slippageBps, requireQuote: !!quote };
+  const pairOpts: PairSelectorOpts = {
+    poolVersion: cfg.AAVE_POOL_VERSION,
+    flashFeeBps: cfg.FLASHLOAN_FEE_BPS,
+    slippageBps,
+    quoteTop: cfg.PAIR_QUOTE_TOP,
+    quote,
+  };
+
   const blacklist = loadBlacklist();
 
   for (const c of candidates) {
@@ -90,91 +232,98 @@ export async function planCmd() {
     let note = `HF=${c.healthFactor.toFixed(4)}`;
     let pass = false;
     let order: ExecutorOrder | undefined;
+    let netProfitUsd = 0;
+    let selection: PairRank[] | undefined;
+    let skipReasons: string[] | undefined;
+    let swap: PlanSwap | undefined;
 
     // Filter Logic for Execution
     if (c.status === "exec_ready") {
-      // Lazy load assets ONLY when we need to execute
-      let bestDebt = c.bestDebt;
-      let bestCollateral = c.bestCollateral;
-      let bestDebtAmount = c.bestDebtAmount ? BigInt(c.bestDebtAmount) : 0n;
-
-      // If assets not already fetched (all zeros), fetch them now
-      if (!bestDebt || bestDebt === "0x0000000000000000000000000000000000000000") {
-        const { getUserAssets } = await import("../lib/getUserAssets");
-        const assets = await getUserAssets(c.borrower as Address, cfg.AAVE_POOL_ADDRESS_PROVIDER as Address, cfg.AAVE_POOL_ADDRESS_PROVIDER as Address);
-        bestDebt = assets.bestDebt;
-        bestCollateral = assets.bestCollateral;
-        bestDebtAmount = assets.bestDebtAmount;
+      // One borrower's failed read or quote must not cost the other candidates their orders
+      let sel: PairSelection;
+      try {
+        sel = await selectPair(await assetsOf(c.borrower), pairOpts);
+      } catch (e: any) {
+        const reason = `pair selection failed: ${String(e?.message ?? e).slice(0, 200)}`;
+        logger.warn({ candidateId: c.candidateId, borrower: c.borrower, err: e?.message }, "plan: pair selection failed");
+        items.push({
+          ts: now,
+          candidateId: c.candidateId,
+          borrower: c.borrower,
+          netProfitUsd: 0,
+          proximity: c.proximity,
+          action: "SKIP",
+          pass: false,
+          note: `${note} | ORDER_BUILD_SKIPPED (${reason})`,
+          skipReasons: [reason],
+        });
+        continue;
       }
-
-      const TOP_RESERVES: Address[] = [
-        "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", // USDC
-        "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", // USDT
-        "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", // WETH
-        "0x912CE59144191C1204E64559FE8253a0e49E6548", // ARB
-        "0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f", // WBTC
-        "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", // DAI
-      ];
-
-      // Check if we have valid assets
-      if (bestDebt && bestCollateral &&
-        bestDebt !== "0x0000000000000000000000000000000000000000" &&
-        bestCollateral !== "0x0000000000000000000000000000000000000000") {
-
-        if (bestDebtAmount && bestDebtAmount > 0n) {
-          const fullDebt = bestDebtAmount;
-          // Aave Close Factor: 50% usually.
-          // We'll try 50% to be safe.
-          const repayAmount = fullDebt / 2n;
-
-          // AmountOutMin (for swap collateral -> debt)
-          // We don't have exact prices here to calculate expected output perfectly without RPC?
-          // Actually exec.ts does re-simulation.
-          // We need to provide a path.
-          // "The Reaper" assumes multihop quoting via Uniswap.
-          // We need to encode path: [Collateral, Fee, Debt].
-          // Default Fee: 3000 (0.3%)? Or try keys from config.
-          // Simple assumption: 3000 fee for now.
-          // Protocol usually has 500, 3000, 10000.
-          // We put a placeholder path. exec.ts might fail if path implies 0 liquidity.
-          // Ideally we find the path.
-
-          // Construct UniV3 Path (Mock)
-          // Collateral -> 3000 -> Debt
-          const fee = 3000;
-          const pathStr = encodeV3Path([bestCollateral as Address, bestDebt as Address], [fee]);
-
-          // amountOutMin: 0 for now (unsafe but enables simulation to run).
-          // In production, MUST quote.
-          const amountOutMin = 0n;
-
-          const deadline = BigInt(Math.floor(Date.now() / 1000) + 300);
-          const nonce = BigInt(Date.now());
-
-          order = {
-            debtAsset: bestDebt as Address,
-            collateralAsset: bestCollateral as Address,
-            borrower: c.borrower,
-            repayAmount,
-            uniPath: pathStr,
-            amountOutMin,
-            minProfit: 0n, // Miner tip usually covers it, strictly 0 here
-            deadline,
-            maxTxGasPrice: maxTxGasPriceWei,
-            referralCode,
-            nonce
-          };
-
-          action = "EXEC";
-          note = "EXEC_READY_ORDER_BUILT";
-          pass = true;
-          execBuilt++;
-
-        } else {
-          note += " | ORDER_BUILD_SKIPPED (Missing debt amount)";
+      selection = sel.ranked.slice(0, 5).map(rankRow);
+      const best = sel.best;
+
+      // On-chain guards: swap floor from the quote, and the flash loan must come back with minProfit on top
+      const guard = best && best.repayAmount > 0n ? orderGuards(best, guardOpts) : null;
+      netProfitUsd = best?.netUsd ?? 0; // swap proceeds - repay - flash premium (gas: simulate)
+
+      if (best && guard && !guard.skip) {
+        // Quoted route; unquoted (QUOTE_ENABLED=false) falls back to the direct 0.3% pool
+        let uniPath = best.quote?.path ?? encodeV3Path([best.collateralAsset, best.debtAsset], [3000]);
+        let { amountOutMin } = guard;
+        const { minProfit } = guard;
+
+        // sell_just_enough: buy exactly repay + premium + minProfit, keep the remaining collateral
+        let swapAmountOut = 0n;
+        let dexRoute = best.quote?.dexRoute ?? undefined;
+        swap = { strategy: "sell_all", dex: dexRoute?.dex ?? "uniswap_v3", dexRoute, collateralIn: best.seizeAmount.toString(), keptCollateral: "0", keptUsd: 0, sellAllNetUsd: best.netUsd };
+        if (cfg.SWAP_STRATEGY === "sell_just_enough") {
+          const je = await sellJustEnough(best, { minProfit, flashFeeBps: cfg.FLASHLOAN_FEE_BPS, slippageBps, quoteOut });
+          if ("target" in je) {
+            const keptUsd = best.seizeAmount > 0n ? (best.seizeUsd * Number(je.kept)) / Number(best.seizeAmount) : 0;
+            swapAmountOut = je.target;
+            uniPath = je.path;
+            amountOutMin = je.target;
+            dexRoute = undefined; // exact output: Uniswap V3 only
+            netProfitUsd = (Number(minProfit) / 10 ** best.debtDecimals) * best.debtPriceUsd + keptUsd;
+            swap = { ...swap, strategy: "sell_just_enough", dex: "uniswap_v3", dexRoute: undefined, collateralIn: je.amountIn.toString(), keptCollateral: je.kept.toString(), keptUsd };
+          } else {
+            swap.note = je.note;
+          }
         }
+
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + 300);
+        const nonce = BigInt(Date.now());
+
+        order = {
+          debtAsset: best.debtAsset,
+          collateralAsset: best.collateralAsset,
+          borrower: c.borrower,
+          repayAmount: best.repayAmount,
+          uniPath,
+          amountOutMin,
+          swapAmountOut,
+          // Recipient for the informational encoding; exec re-encodes for its own executor
+          swapTarget: dexRoute?.target ?? zeroAddress,
+          swapData: dexRoute
+            ? encodeDexSwap(dexRoute, { amountIn: best.seizeAmount, amountOutMin, recipient: planRecipient() })
+            : "0x",
+          swapAmountInOffset: dexRoute ? BigInt(dexAmountInOffset(dexRoute)) : 0n,
+          minProfit,
+          deadline,
+          maxTxGasPrice: maxTxGasPriceWei,
+          referralCode,
+          nonce
+        };
+
+        action = "EXEC";
+        note = `EXEC_READY_ORDER_BUILT | ${sel.reason}`;
+        skipReasons = sel.skipped.length ? sel.skipped : undefined;
+        pass = true;
+        execBuilt++;
       } else {
-        note += " | Missing Best Assets";
+        action = "SKIP";
+        note += ` | ORDER_BUILD_SKIPPED (${guard?.skip ?? sel.reason})`;
+        skipReasons = guard?.skip ? [guard.skip, ...sel.skipped] : sel.skipped;
       }
     }
 
@@ -182,28 +331,57 @@ export async function planCmd() {
       ts: now,
       candidateId: c.candidateId,
       borrower: c.borrower,
-      netProfitUsd: 0, // todo
+      netProfitUsd,
       proximity: c.proximity,
       action,
       pass,
       note,
+      selection,
+      skipReasons,
+      swap,
       order
     });
   }
 
-  const outFile = dataPath("tx_plan.json");
-  fs.writeFileSync(outFile, JSON.stringify({ items, generatedAt: now, execBuilt }, bigintReplacer, 2));
+  return { items, generatedAt: now, execBuilt };
+}
 
-  logger.info({ candidates: candidates.length, items: items.length, execBuilt }, "Plan generated");
+export async function planCmd() {
+  const cfg = loadConfig();
+
+  // All rows of a complete, recent scan or nothing (throws ArtifactError: missing / partial / schema / stale)
+  const { meta: candMeta, rows: candidates } = await readJsonlArtifact<AaveCandidate>(dataPath("candidates.jsonl"), {
+    maxAgeMs: cfg.ARTIFACT_MAX_AGE_MS,
+  });
+
+  // Full reserve scan per borrower (one call each), reused by the HUD below
+  const assetCache = new Map<string, UserAssets>();
+  const assetsOf = async (borrower: Address) => {
+    let a = assetCache.get(borrower);
+    if (!a) assetCache.set(borrower, (a = await getUserAssets(borrower)));
+    return a;
+  };
+  const { items, generatedAt, execBuilt } = await buildPlan(candidates, assetsOf);
+  // HUD scores: oracle prices only, no swap quotes
+  const hudPairOpts: PairSelectorOpts = {
+    poolVersion: cfg.AAVE_POOL_VERSION,
+    flashFeeBps: cfg.FLASHLOAN_FEE_BPS,
+    slippageBps: cfg.SLIPPAGE_BPS,
+    quoteTop: 0,
+  };
+
+  const planMeta = await writeArtifact(dataPath("tx_plan.json"), { items, generatedAt, execBuilt, candidatesSeq: candMeta.seq });
+
+  logger.info({ candidates: candidates.length, candidatesSeq: candMeta.seq, planSeq: planMeta.seq, items: items.length, execBuilt }, "Plan generated");
 
   // --- RICH HUD (Plan Phase) ---
   // Show detailed token info for top 5 risky candidates.
   // This runs only in 'plan', keeping 'scan' fast.
 
-  // Sort by proximity/HF
+  // Sort by distance to liquidation (% price move), then HF
   const topRisk = candidates
     .filter(c => c.status === "watch" || c.status === "exec_ready")
-    .sort((a, b) => a.healthFactor - b.healthFactor)
+    .sort((a, b) => (a.liqDistancePct ?? Infinity) - (b.liqDistancePct ?? Infinity) || a.healthFactor - b.healthFactor)
     .slice(0, 5);
 
   if (topRisk.length > 0) {
@@ -219,54 +397,45 @@ export async function planCmd() {
     console.log(`│ ${pad("📝 STRATEGY PLANNER - TOP RISK TARGETS")} │`);
     console.log(borderMid);
 
-    const TOKEN_MAP: Record<string, string> = {
-      "0xaf88d065e77c8cC2239327C5EDb3A432268e5831": "USDC",
-      "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9": "USDT",
-      "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1": "WETH",
-      "0x912CE59144191C1204E64559FE8253a0e49E6548": "ARB",
-      "0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f": "WBTC",
-      "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1": "DAI"
-    };
-
-    // Lazy load as needed
-    const { getUserAssets } = await import("../lib/getUserAssets");
-    const poolAddr = cfg.AAVE_POOL_ADDRESS_PROVIDER;
-
     for (let i = 0; i < topRisk.length; i++) {
       const c = topRisk[i];
       // Allow fetching even if not exec_ready, just for display
-      let debtSym = "???";
-      let colSym = "???";
-      let bestDebt = c.bestDebt;
-      let bestCollateral = c.bestCollateral;
-
-      // If missing (because scan is fast), fetch now
-      if (!bestDebt || bestDebt === "0x0000000000000000000000000000000000000000") {
-        try {
-          const assets = await getUserAssets(c.borrower as Address, cfg.AAVE_POOL_ADDRESS_PROVIDER as Address, poolAddr as Address);
-          bestDebt = assets.bestDebt;
-          bestCollateral = assets.bestCollateral;
-        } catch (e) { /* ignore */ }
-      }
-
-      debtSym = TOKEN_MAP[bestDebt || ""] || "UNK";
-      colSym = TOKEN_MAP[bestCollateral || ""] || "UNK";
+      let debtSym = "UNK";
+      let colSym = "UNK";
+      let tags = "";
+      let estProfit: number | null = null;
+      try {
+        const assets = await assetsOf(c.borrower);
+        const sym = (addr?: string) => assets.assets.find(a => a.asset === addr?.toLowerCase())?.symbol ?? "UNK";
+        debtSym = sym(c.bestDebt && c.bestDebt !== "0x0000000000000000000000000000000000000000" ? c.bestDebt : assets.bestDebt);
+        colSym = sym(c.bestCollateral && c.bestCollateral !== "0x0000000000000000000000000000000000000000" ? c.bestCollateral : assets.bestCollateral);
+        if (assets.eModeLabel) tags += `  eMode ${assets.eModeLabel}`;
+        if (assets.isolated) tags += "  isolated";
+        // Oracle-only: exact Pool amounts for the best pair, no swap quotes for display
+        const sel = await selectPair(assets, hudPairOpts);
+        estProfit = sel.best ? Math.round(sel.best.netUsd) : null;
+      } catch (e) { /* ignore */ }
 
       const addr = c.borrower as string;
       const shortAddr = `${addr.slice(0, 10)}...${addr.slice(-8)}`;
       // Columns: 14 width roughly accounting for $ and millions
       const collateral = `$${Math.round(c.totalCollateralUSD)}`.padEnd(12);
       const debt = `$${Math.round(c.totalDebtUSD)}`.padEnd(12);
-      const estProfit = Math.round(c.totalDebtUSD * 0.5 * 0.05);
 
-      console.log(`│ ${pad(`${i + 1}. ${shortAddr}  HF: ${c.healthFactor.toFixed(4)}`)} │`);
-      console.log(`│ ${pad(`   Col: ${collateral} (${colSym.padEnd(4)}) | Debt: ${debt} (${debtSym.padEnd(4)}) | Prof: ~$${estProfit}`)} │`);
+      const dist = c.liqDistancePct != null ? `  Δ ${c.liqDistancePct.toFixed(2)}%` : "";
+      console.log(`│ ${pad(`${i + 1}. ${shortAddr}  HF: ${c.healthFactor.toFixed(4)}${dist}${tags}`)} │`);
+      console.log(`│ ${pad(`   Col: ${collateral} (${colSym.padEnd(4)}) | Debt: ${debt} (${debtSym.padEnd(4)}) | Prof: ${estProfit === null ? "n/a" : `~$${estProfit}`}`)} │`);
     }
     console.log(borderBot);
     console.log("");
   }
 }
 
+function planRecipient(): Address {
+  const v = String(process.env.EXECUTOR_ADDR ?? "").trim();
+  return isAddress(v) ? v : zeroAddress;
+}
+
 function hexNo0x(h: string): string {
   return h.startsWith("0x") ? h.slice(2) : h;
 }
@@ -1,8 +1,8 @@
-import fs from "node:fs/promises";
 import { logger } from "../logger.js";
 import { loadConfig } from "../config.js";
 import { getCode } from "../services/uniswapQuoterV2.js";
 import { dataPath } from "../lib/data_dir";
+import { readArtifact, ArtifactError } from "../utils/io";
 
 const DEFAULT_QUOTER_V2_ARBITRUM = "0x61fFE014bA17989E743c5F6cB21bF9697530B21e" as const;
 
@@ -48,8 +48,7 @@ export async function preflightCmd() {
   const chainOk = rpcChainId !== null && rpcChainId === cfg.CHAIN_ID;
 
   // 2) Read plan
-  const planRaw = await fs.readFile(dataPath("tx_plan.json"), "utf8");
-  const plan = JSON.parse(planRaw) as any;
+  const { meta: planMeta, data: plan } = await readArtifact<any>(dataPath("tx_plan.json"));
   const planAge = ageSec(plan?.generatedAt ?? "");
 
   const execItems = Array.isArray(plan?.items) ? plan.items.filter((x: any) => x.action === "EXEC") : [];
@@ -60,11 +59,16 @@ export async function preflightCmd() {
   let simHasQuotedPass: number | null = null;
   let simPassesQuoted: number | null = null;
   let simPassesExec: number | null = null;
+  let simMatchesPlan = false;
+  let simSeq: number | null = null;
+  let simError: string | null = null;
 
   try {
-    const simRaw = await fs.readFile(dataPath("tx_sim.json"), "utf8");
-    const sim = JSON.parse(simRaw) as any;
+    const { meta: simMeta, data: sim } = await readArtifact<any>(dataPath("tx_sim.json"));
+    simSeq = simMeta.seq;
     simAge = ageSec(sim?.generatedAt ?? "");
+    // exec sends only orders simulated from this exact plan
+    simMatchesPlan = Boolean(plan?.generatedAt) && sim?.planGeneratedAt === plan.generatedAt;
 
     simPassesQuoted = Number(sim?.diagnostics?.passesQuoted ?? null);
     simPassesExec = Number(sim?.diagnostics?.passesExec ?? null);
@@ -75,11 +79,14 @@ export async function preflightCmd() {
     // IMPORTANT: this is NOT "exec-ready by threshold"
     // It's "we have at least one quoted+profit-pass candidate in simulate outputs"
     simHasQuotedPass = (simPassesExec !== null ? (simPassesExec > 0 ? 1 : 0) : null);
-  } catch {
+  } catch (e: any) {
+    if (!(e instanceof ArtifactError)) throw e;
+    simError = e.message;
     simAge = null;
     simHasQuotedPass = null;
     simPassesQuoted = null;
     simPassesExec = null;
+    simMatchesPlan = false;
   }
 
   // 4) Quoter presence (only if quoting enabled)
@@ -108,8 +115,8 @@ export async function preflightCmd() {
   // Ready-to-exec semantics:
   // - MUST have exec candidates in plan (this already encodes proximity threshold + quote requirement from plan logic)
   // - MUST have key + EXEC_ENABLED
-  // - MUST have fresh artifacts (plan + sim)
-  const readyToExec = execCount > 0 && keyOk && execEnabled && planFresh && simFresh;
+  // - MUST have fresh artifacts (plan + sim), the sim built from this plan
+  const readyToExec = execCount > 0 && keyOk && execEnabled && planFresh && simFresh && simMatchesPlan;
 
   // Final OK:
   // - If EXEC_ENABLED is off, we still allow "ok" for monitoring.
@@ -125,9 +132,13 @@ export async function preflightCmd() {
 
       planGeneratedAt: plan?.generatedAt ?? null,
       planAgeSec: planAge,
+      planSeq: planMeta.seq,
       execCount,
 
       simAgeSec: simAge,
+      simMatchesPlan,
+      simSeq,
+      simError,
       simHasQuotedPass,
       simPassesQuoted,
       simPassesExec,
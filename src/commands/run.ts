@@ -0,0 +1,87 @@
+import { createPublicClient, http, PublicClient } from "viem";
+import { arbitrum, base } from "viem/chains";
+import { logger } from "../logger";
+import { loadConfig } from "../config";
+import { AaveScanner } from "../services/aaveScanner";
+import { BorrowerMiner, minerOpts } from "../services/borrowerMiner";
+import { UniverseStore } from "../lib/universeStore";
+import { KeyedQueue } from "../lib/keyedQueue";
+import { pause, supervise, shutdownSignal } from "../lib/supervise";
+import { userAssetsLoader } from "../lib/getUserAssets";
+import { scanCmd, ScanCandidate } from "./scan";
+import { execContext } from "./exec";
+import { sniperLoop } from "./sniper";
+
+function truthyEnv(name: string, def = "0"): boolean {
+  return ["1", "true", "yes", "y", "on"].includes(String(process.env[name] ?? def).toLowerCase());
+}
+
+/**
+ * Miner, sentry and sniper in one process: one RPC client, one universe store, and exec-ready
+ * candidates handed from the sentry to the sniper in memory (no candidates.jsonl / tx_plan.json round trip).
+ * tx_plan.json and tx_sim.json are still written after each sniper pass, for inspection.
+ */
+export async function runCmd() {
+  const cfg = loadConfig();
+  const chain = cfg.CHAIN_ID === 8453 ? base : arbitrum;
+  const client = createPublicClient({ chain, transport: http(cfg.ARB_RPC_URL) }) as PublicClient;
+  const scanner = new AaveScanner(client);
+  const poolAddr = await scanner.getPoolAddress();
+  const store = UniverseStore.open();
+  const miner = new BorrowerMiner(client, poolAddr, minerOpts(cfg), store);
+  const assetsOf = userAssetsLoader(scanner);
+
+  // Fail fast on a bad key / executor instead of on the first liquidation
+  const exec = truthyEnv("EXEC_ENABLED", "0") ? execContext(client, scanner) : null;
+
+  const execReady = new KeyedQueue<ScanCandidate>();
+  const signal = shutdownSignal();
+
+  logger.info(
+    {
+      chainId: chain.id,
+      exec: exec !== null,
+      minerIntervalMs: cfg.MINER_INTERVAL_MS,
+      minerRpcBudget: cfg.MINER_RPC_BUDGET,
+      sentryIntervalMs: cfg.SENTRY_INTERVAL_MS,
+      sentryBatchSize: cfg.SENTRY_BATCH_SIZE,
+      sniperIntervalMs: cfg.SNIPER_INTERVAL_MS,
+      sniperConcurrency: cfg.SNIPER_CONCURRENCY,
+    },
+    "run: starting miner + sentry + sniper"
+  );
+
+  // ⛏️ MINER: head + backfill cursors; the sentry feeds it live logs
+  const minerRole = async (signal: AbortSignal) => {
+    while (!signal.aborted) {
+      const t = await miner.tick();
+      logger.info({ head: t.head, backfill: t.backfill, newUsers: t.newUsers, budgetLeft: t.budgetLeft }, "⛏️ Miner tick");
+      await pause(cfg.MINER_INTERVAL_MS, signal);
+    }
+  };
+
+  // 😈 SENTRY: health rotation + priority lane; exec-ready borrowers go straight to the sniper
+  const sentryRole = (signal: AbortSignal) =>
+    scanCmd({
+      mode: "sentry",
+      client,
+      scanner,
+      store,
+      miner,
+      signal,
+      quiet: true,
+      onCandidates: (candidates) => {
+        for (const c of candidates) if (c.status === "exec_ready") execReady.push(c.candidateId, c);
+      },
+    });
+
+  await Promise.all([
+    supervise("miner", signal, cfg.RUN_RESTART_MS, minerRole),
+    supervise("sentry", signal, cfg.RUN_RESTART_MS, sentryRole),
+    // 🔫 SNIPER: plan -> simulate -> exec as soon as the sentry hands over candidates
+    supervise("sniper", signal, cfg.RUN_RESTART_MS, (s) => sniperLoop(execReady, { scanner, assetsOf, exec }, s)),
+  ]);
+
+  logger.info("run: stopped");
+  process.exit(0);
+}
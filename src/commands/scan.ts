@@ -1,282 +1,465 @@
 import { logger } from "../logger";
 import { loadConfig } from "../config";
-import { writeJson, writeJsonl } from "../utils/io";
+import { writeJsonlArtifact, readJsonlArtifact, ArtifactError } from "../utils/io";
 import { AaveScanner } from "../services/aaveScanner";
-import { createPublicClient, http, parseAbiItem, Address } from "viem";
+import { createPublicClient, http, Address, PublicClient } from "viem";
 import { arbitrum, base } from "viem/chains";
 import { dataPath } from "../lib/data_dir";
 import { loadBlacklist, isBlacklisted } from "../lib/blacklist";
-
-// Comprehensive Aave V3 Events
-const EVENTS = [
-  parseAbiItem("event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint256 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)"),
-  parseAbiItem("event Borrow(address indexed reserve, address indexed user, address indexed onBehalfOf, uint256 amount, uint256 interestRateMode, uint256 borrowRate, uint16 referralCode)"),
-  parseAbiItem("event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)"),
-  parseAbiItem("event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)"),
-  parseAbiItem("event Supply(address indexed reserve, address indexed user, address indexed onBehalfOf, uint256 amount, uint16 referralCode)"),
-];
-
-export async function scanCmd(options: { mode?: string } = {}) {
+import { BorrowerMiner, minerOpts } from "../services/borrowerMiner";
+import { drainRecheck } from "../lib/recheckQueue";
+import { BlockStream } from "../services/blockStream";
+import { activityFromLogs } from "../services/aaveEvents";
+import { UniverseStore } from "../lib/universeStore";
+import { PriceFeedWatcher } from "../services/priceFeedWatcher";
+import { HealthEngine } from "../services/healthEngine";
+import { liquidationPrices, nearestLiquidation, toQuote, AssetLiquidation } from "../lib/liquidationPrice";
+import { assetsFromEngine } from "../lib/getUserAssets";
+import { selectPair, PairSelectorOpts } from "../services/pairSelector";
+import { WAD } from "../lib/aaveMath";
+import { CandidatePublisher, CandidateEvent, ipcPath } from "../services/candidateBus";
+import { CandidateBook, BookEntry } from "../lib/candidateBook";
+
+export type ScanOptions = {
+  mode?: string;    // mixed | sentry | mining
+  cycles?: number;  // bounded: stop after N sentry cycles
+  pass?: boolean;   // bounded: stop once the whole active universe has been checked
+
+  // Hosted by the run daemon: shared clients/store, the miner ticked by its own role
+  client?: PublicClient;
+  scanner?: AaveScanner;
+  store?: UniverseStore;
+  miner?: BorrowerMiner;                        // live logs are fed to it; never ticked here
+  onCandidates?: (candidates: ScanCandidate[]) => void; // this cycle's observations, after candidates.jsonl
+  signal?: AbortSignal;                         // stops the loop after the current cycle
+  quiet?: boolean;                              // no HUD
+  ipc?: boolean;                                // publish candidate events (default IPC_ENABLED; off when hosted)
+};
+
+/** One sentry observation; candidates.jsonl rows add the book's firstSeen / lastSeen / hfHistory. */
+export type ScanCandidate = {
+  candidateId: string;
+  borrower: Address;
+  healthFactor: number;
+  proximity: number;
+  totalCollateralUSD: number;
+  totalDebtUSD: number;
+  bestDebt?: Address;
+  bestCollateral?: Address;
+  liqDistancePct: number | null;
+  liquidation: ReturnType<typeof toQuote>[];
+  status: "watch" | "exec_ready";
+  ts: string;
+};
+
+export type ScanSummary = {
+  cycles: number;
+  checked: number;     // health reads, re-checks included
+  candidates: number;  // in the last candidates.jsonl written
+  execReady: number;
+};
+
+export async function scanCmd(options: ScanOptions = {}): Promise<ScanSummary> {
   const cfg = loadConfig();
   const now = new Date().toISOString();
   const mode = options.mode || "mixed"; // mixed, sentry, mining
+  if (options.cycles !== undefined && !(Number.isInteger(options.cycles) && options.cycles > 0)) {
+    throw new Error(`scan: cycles must be a positive integer, got ${options.cycles}`);
+  }
+  const maxCycles = options.cycles ?? Infinity;
+  const bounded = maxCycles !== Infinity || options.pass === true;
 
   // Chain setup
   const chain = cfg.CHAIN_ID === 8453 ? base : arbitrum;
-  const client = createPublicClient({
+  const client = options.client ?? createPublicClient({
     chain,
     transport: http(cfg.ARB_RPC_URL)
   });
 
-  const scanner = new AaveScanner();
+  const scanner = options.scanner ?? new AaveScanner(client as PublicClient);
   const poolAddr = await scanner.getPoolAddress();
 
-  // 1. Find Users (Persistent + Smart Sync)
-  const dbPath = dataPath("borrowers.json");
-  const syncPath = dataPath("sync_head.json");
-
-  let dbUsers: Address[] = [];
-  try {
-    const raw = await import("fs").then(m => m.readFileSync(dbPath, "utf-8"));
-    dbUsers = JSON.parse(raw) as Address[];
-  } catch { /* ignore */ }
+  // 1. Find Users (Persistent + Smart Sync) - indexed store, migrates borrowers.json on first open
+  const store = options.store ?? UniverseStore.open();
+  // Sentry rotates the active tier only; users with no debt are dormant until they borrow again
+  let dbUsers: Address[] = store.activeUsers();
+  let dbVersion = store.membershipVersion;
 
   // =================================================================
-  // ⛏️ MINER LOGIC (Discovery) - Only runs once at start if not 'sentry'
+  // ⛏️ MINER LOGIC (Discovery) - head + backfill cursors, one tick at start if not 'sentry'
   // =================================================================
-  if (mode !== "sentry") {
-    let lastScanned = 0n;
-    try {
-      const raw = await import("fs").then(m => m.readFileSync(syncPath, "utf-8"));
-      lastScanned = BigInt(JSON.parse(raw).lastBlock);
-    } catch { /* ignore */ }
-
-    const currentBlock = await client.getBlockNumber();
-    const MAX_WINDOW = 10000n;
-    const deepPath = dataPath("sync_deep.json");
-    let deepHead = 0n;
-    try {
-      const raw = await import("fs").then(m => m.readFileSync(deepPath, "utf-8"));
-      deepHead = BigInt(JSON.parse(raw).deepBlock);
-    } catch { deepHead = currentBlock; }
-
-    let fromBlock = lastScanned === 0n ? currentBlock - MAX_WINDOW : lastScanned + 1n;
-    let toBlock = fromBlock + MAX_WINDOW;
-    if (toBlock > currentBlock) toBlock = currentBlock;
-
-    let isBackfill = false;
-    // Auto-expansion logic
-    if (dbUsers.length < 50000) {
-      if (deepHead === 0n) deepHead = currentBlock;
-      toBlock = deepHead - 1n;
-      fromBlock = toBlock - MAX_WINDOW;
-      if (fromBlock < 10000000n) fromBlock = toBlock - 1000n;
-      isBackfill = true;
-      logger.info({ currentUsers: dbUsers.length, backfillTo: toBlock.toString() }, "🚀 Low user count. Mining history (BACKFILL)...");
-    } else {
-      if (fromBlock < currentBlock - MAX_WINDOW * 5n) { // Catch up fast
-        fromBlock = currentBlock - MAX_WINDOW;
-        toBlock = fromBlock + MAX_WINDOW;
-      }
-    }
-
-    if (!isBackfill && fromBlock > toBlock) {
-      logger.info({ currentBlock }, "Scan up to date, sleeping...");
-    } else {
-      // Mining...
-      logger.info({ from: fromBlock.toString(), to: toBlock.toString(), totalKnown: dbUsers.length }, "🔍 Syncing events...");
-      try {
-        const logs = await client.getLogs({ address: poolAddr, fromBlock, toBlock });
-        if (logs.length > 0) {
-          const uniqueUsers = new Set<Address>(dbUsers);
-          const addIfAddr = (hex: string | undefined) => {
-            if (!hex) return;
-            if (hex.length === 66 && hex !== "0x0000000000000000000000000000000000000000") {
-              uniqueUsers.add(`0x${hex.substring(26)}` as Address);
-            }
-          }
-          for (const l of logs) {
-            if (!l.topics) continue;
-            addIfAddr(l.topics[1]); addIfAddr(l.topics[2]); addIfAddr(l.topics[3]);
-          }
-          const updatedUsers = Array.from(uniqueUsers);
-          if (updatedUsers.length > dbUsers.length) {
-            dbUsers = updatedUsers;
-            await writeJson(dbPath, dbUsers); // Save immediately
-            logger.info({ newFound: updatedUsers.length - dbUsers.length }, "✨ Universe Expanded");
-          }
-        }
-        const ptrPath = isBackfill ? deepPath : syncPath;
-        const ptrData = isBackfill ? { deepBlock: fromBlock.toString() } : { lastBlock: toBlock.toString() };
-        await writeJson(ptrPath, { ...ptrData, ts: new Date().toISOString() });
-      } catch (e: any) { logger.error(e.message); }
-    }
+  const ownMiner = !options.miner && mode !== "sentry";
+  const miner = options.miner ?? (ownMiner ? new BorrowerMiner(client as PublicClient, poolAddr, minerOpts(cfg), store) : null);
+  const logTick = (t: Awaited<ReturnType<BorrowerMiner["tick"]>>) =>
+    logger.info({ head: t.head, backfill: t.backfill, newUsers: t.newUsers, budgetLeft: t.budgetLeft }, "⛏️ Miner tick");
+
+  if (miner && ownMiner) {
+    logger.info({ totalKnown: store.size, active: dbUsers.length }, "🔍 Syncing events (head + backfill)...");
+    logTick(await miner.tick());
   }
 
-  if (mode === "mining") return; // Exit if just mining
+  const summary: ScanSummary = { cycles: 0, checked: 0, candidates: 0, execReady: 0 };
+  if (mode === "mining") return summary; // Exit if just mining
+
+  // 📢 IPC: exec_ready every cycle, watch on change, recovered when a published user drops out
+  const publisher = (options.ipc ?? (cfg.IPC_ENABLED && !options.onCandidates)) ? new CandidatePublisher(ipcPath(cfg.IPC_PATH)) : null;
+  await publisher?.start(); // false (logged): another live sentry owns the socket, file handoff only
+  const published = new Map<string, ScanCandidate["status"]>(); // lowercased borrower -> last published status
+
+  // 📒 Candidate book: merged across cycles, re-seeded from the last candidates.jsonl still within the TTL
+  const book = new CandidateBook<ScanCandidate>({ ttlMs: cfg.CANDIDATE_TTL_MS, hotSize: cfg.HOT_QUEUE_SIZE });
+  try {
+    const { rows } = await readJsonlArtifact<BookEntry<ScanCandidate>>(dataPath("candidates.jsonl"));
+    const restored = book.restore(rows.filter((r) => r.candidateId.startsWith(`${chain.id}|`)));
+    if (restored > 0) logger.info({ restored }, "📒 Candidate book restored");
+  } catch (e) {
+    if (!(e instanceof ArtifactError)) throw e;
+  }
 
   // =================================================================
   // 😈 SENTRY DAEMON (Persistent Service)
   // =================================================================
-  logger.info("😈 Sentry Daemon STARTING...");
+  logger.info({ bounded, cycles: maxCycles === Infinity ? null : maxCycles, pass: options.pass === true }, "😈 Sentry Daemon STARTING...");
 
   // State
   let cursor = 0;
   let cycleCount = 0;
-  const CHUNK_SIZE = 50;
+  const CHUNK_SIZE = cfg.SENTRY_BATCH_SIZE;
   const prioritySet = new Set<string>(); // HF < 1.5
   const stateHF = new Map<string, number>(); // Track last known HF for stats
 
   // Load initial candidates to priority and warm up
   // (Optional: Load logic skipped for simplicity, will fill up naturally)
 
-  while (true) {
-    // Hot reload blacklist every cycle (cheap file read)
-    const blacklist = loadBlacklist();
-
-    const candidates: any[] = [];
-
-    // Stats counters for HUD
-    let statSafe = 0;
-    let statWatch = 0;
-    let statRisk = 0;
-    let statLiquidatable = 0;
-    let statDust = 0;
-
-    // 1. PRIORITY LANE (High Risk Users)
-    const priorityUsers = Array.from(prioritySet) as Address[];
-    // Filter out blacklisted from priority to save calls
-    const displayPriority = priorityUsers.filter(u => !isBlacklisted(blacklist, u));
-
-    // 2. BACKGROUND LANE (Slow Rotation)
-    // Take specific chunk from universe
-    if (dbUsers.length > 0) {
-      if (cursor >= dbUsers.length) cursor = 0;
-      const bgChunk = dbUsers.slice(cursor, cursor + CHUNK_SIZE);
-      cursor += CHUNK_SIZE;
-
-      // Merge unique users to check this cycle
-      const usersCheck = Array.from(new Set([...displayPriority, ...bgChunk]));
-
-      // Perform Multicall
-      const results = await scanner.getUsersHealthBatch(usersCheck);
-
-      for (const health of results) {
-        if (!health) continue;
-        const hf = health.healthFactor;
-        const user = health.user;
-
-        // Priority Management
-        if (hf < 1.5 && hf > 0) {
-          prioritySet.add(user); // Keep/Add to priority
-          stateHF.set(user, hf); // Update stat
-          statRisk++;
-        } else {
-          prioritySet.delete(user); // Remove if safe
-          stateHF.delete(user);
-          statSafe++;
-        }
+  // Block clock: WS newHeads when WS_RPC_URL is set, timer polling otherwise / when the socket drops
+  const liveTouched = new Set<Address>(); // borrowers active at the tip since the last cycle
+  const stream = new BlockStream({
+    wsUrl: cfg.WS_RPC_URL,
+    chain,
+    poolAddr,
+    stallMs: cfg.WS_STALL_MS,
+    reconnectMs: cfg.WS_RECONNECT_MS,
+    onLogs: (logs) => {
+      for (const a of activityFromLogs(logs)) liveTouched.add(a.user);
+      miner?.ingestLive(logs).catch((e) => logger.error({ err: e?.message }, "⛏️ Live ingest failed"));
+    },
+  });
+  stream.start();
+
+  // Oracle clock: Chainlink AnswerUpdated => re-check exposed users on this block, not after a full rotation
+  const feeds = cfg.PRICE_FEEDS_ENABLED
+    ? new PriceFeedWatcher(client as PublicClient, {
+      poolAddr,
+      addressesProvider: cfg.AAVE_POOL_ADDRESS_PROVIDER as Address,
+      resolveEveryMs: cfg.PRICE_FEED_RESOLVE_MS,
+      maxLookback: cfg.LOGS_MAX_WINDOW,
+    })
+    : null;
+  let priceTriggered = 0;
+
+  // Local HF engine: per-asset liquidation prices for at-risk users (positions loaded on demand)
+  const MARKET_REFRESH_CYCLES = 300;
+  const engine = new HealthEngine(cfg.AAVE_POOL_VERSION);
+  let marketLoadedAt = -Infinity;
+  let marketStale = true;
+  const stateLiq = new Map<string, AssetLiquidation[]>(); // user -> per-asset liquidation prices
+  const liqDistance = (u: string) => nearestLiquidation(stateLiq.get(u.toLowerCase()) ?? [])?.distancePct ?? Infinity;
+  // HUD profit: exact Pool amounts for the best pair at oracle prices, as if HF were just under 1
+  const hudPairOpts: PairSelectorOpts = {
+    poolVersion: cfg.AAVE_POOL_VERSION,
+    flashFeeBps: cfg.FLASHLOAN_FEE_BPS,
+    slippageBps: cfg.SLIPPAGE_BPS,
+    quoteTop: 0,
+  };
+  const estProfitUsd = async (u: Address): Promise<number | null> => {
+    const a = assetsFromEngine(engine, u);
+    if (!a) return null;
+    const sel = await selectPair({ ...a, healthFactor: a.healthFactor < WAD ? a.healthFactor : WAD - 1n }, hudPairOpts);
+    return sel.best?.netUsd ?? null;
+  };
+
+  // Mixed mode: keep both miner cursors moving next to the sentry (never overlapping ticks)
+  // Bounded runs only do the startup tick, so nothing is left in flight on return
+  let mining = false;
+  let lastMineAt = Date.now();
+  let passDone = false;
+
+  // Thrown errors (RPC, artifact writes) must not leave the block stream or the IPC socket open
+  try {
+    while (true) {
+      if (miner && ownMiner && !bounded && !mining && Date.now() - lastMineAt >= cfg.MINER_INTERVAL_MS) {
+        mining = true;
+        miner.tick()
+          .then(logTick)
+          .catch((e) => logger.error({ err: e?.message }, "⛏️ Miner tick failed"))
+          .finally(() => { mining = false; lastMineAt = Date.now(); });
+      }
 
-        // Candidates Logic for Planner
-        let candidateStatus = "below_watch";
-        if (hf < 1.0) candidateStatus = "exec_ready";
-        else if (hf < 1.1) candidateStatus = "watch";
+      // Universe: tail the journal (other processes' miners) + pick up in-process expansion / tier moves
+      store.refresh();
+      if (store.membershipVersion !== dbVersion) {
+        dbUsers = store.activeUsers();
+        dbVersion = store.membershipVersion;
+      }
+
+      // Hot reload blacklist every cycle (cheap file read)
+      const blacklist = loadBlacklist();
+
+      const candidates: ScanCandidate[] = [];
+      const recovered: { borrower: Address; healthFactor: number }[] = [];
+      const dropOut = (user: Address, hf: number) => {
+        book.remove(user);
+        if (published.delete(user.toLowerCase())) recovered.push({ borrower: user, healthFactor: hf });
+      };
+
+      // 0. PRICE TRIGGERS: collateral and debt side, active users not known to be far from liquidation
+      if (feeds) {
+        try {
+          const head = stream.latest() ?? await client.getBlockNumber();
+          const updates = await feeds.poll(head);
+          const before = prioritySet.size;
+          for (const asset of new Set(updates.flatMap((u) => u.assets))) {
+            for (const u of store.usersExposedTo(asset)) {
+              const r = store.get(u)!;
+              if (r.dormantSince === null && (r.hf === null || r.hf < cfg.PRICE_TRIGGER_MAX_HF)) prioritySet.add(u);
+            }
+          }
+          if (updates.length > 0) {
+            marketStale = true; // oracle prices moved: reload reserve prices before ranking
+            priceTriggered = prioritySet.size - before;
+            logger.info({ updates: updates.length, assets: Array.from(new Set(updates.flatMap((u) => u.assets))), triggered: priceTriggered }, "📡 Oracle update");
+          }
+        } catch (e: any) {
+          logger.warn({ err: e?.message }, "📡 Price trigger skipped");
+        }
+      }
 
-        if (candidateStatus === "below_watch") continue; // Not interesting for Planner
+      if (marketStale || cycleCount - marketLoadedAt >= MARKET_REFRESH_CYCLES) {
+        try {
+          await scanner.loadHealthEngine(engine);
+          marketLoadedAt = cycleCount;
+          marketStale = false;
+        } catch (e: any) {
+          logger.warn({ err: e?.shortMessage ?? e?.message }, "Market reload failed, liquidation prices may lag");
+        }
+      }
 
-        // Ghost Filter
-        if (health.totalCollateralUSD < 1 && health.totalDebtUSD < 1) {
-          statDust++;
-          prioritySet.delete(user); // cleanup
-          continue;
+      // Stats counters for HUD
+      let statSafe = 0;
+      let statWatch = 0;
+      let statRisk = 0;
+      let statLiquidatable = 0;
+      let statDust = 0;
+
+      // 1. PRIORITY LANE (High Risk Users), closest to liquidation (% price move) first
+      const priorityUsers = Array.from(prioritySet) as Address[];
+      // Filter out blacklisted from priority to save calls
+      const displayPriority = priorityUsers
+        .filter(u => !isBlacklisted(blacklist, u))
+        .sort((a, b) => liqDistance(a) - liqDistance(b) || (stateHF.get(a) ?? 9) - (stateHF.get(b) ?? 9));
+
+      // 2. BACKGROUND LANE (Slow Rotation)
+      // Take specific chunk from universe
+      if (dbUsers.length > 0) {
+        if (cursor >= dbUsers.length) cursor = 0;
+        const bgChunk = dbUsers.slice(cursor, cursor + CHUNK_SIZE);
+        cursor += CHUNK_SIZE;
+        if (cursor >= dbUsers.length) passDone = true;
+
+        // Users touched by rewound (reorged) blocks jump the rotation once
+        const recheck = drainRecheck() as Address[];
+
+        // Borrowers that just emitted pool events (socket mode) are checked on this block
+        const live = Array.from(liveTouched);
+        liveTouched.clear();
+
+        // Merge unique users to check this cycle
+        const usersCheck = Array.from(new Set([...displayPriority, ...recheck, ...live, ...bgChunk]));
+
+        // Perform Multicall
+        const results = await scanner.getUsersHealthBatch(usersCheck);
+        summary.checked += usersCheck.length;
+
+        // Liquidation prices for the at-risk users; balances only re-read when new or just active
+        const touched = new Set<string>([...recheck, ...live].map((u) => u.toLowerCase()));
+        const risky = results.filter((h) => h && h.healthFactor > 0 && h.healthFactor < 1.5).map((h) => h!.user);
+        const needPos = risky.filter((u) => !engine.position(u) || touched.has(u.toLowerCase()));
+        try {
+          for (const pos of await scanner.getUserPositionsBatch(needPos)) engine.setPosition(pos);
+        } catch (e: any) {
+          logger.warn({ err: e?.shortMessage ?? e?.message }, "Position fetch failed");
+        }
+        for (const u of risky) {
+          const values = engine.reserveValues(u);
+          if (values) stateLiq.set(u.toLowerCase(), liquidationPrices(values));
         }
 
-        // Blacklist Check
-        if (isBlacklisted(blacklist, user)) {
-          prioritySet.delete(user); // cleanup
-          continue;
+        for (const health of results) {
+          if (!health) continue;
+          const hf = health.healthFactor;
+          const user = health.user;
+          const liq = stateLiq.get(user.toLowerCase());
+          const nearest = liq ? nearestLiquidation(liq) : null;
+          store.recordHealth(user, {
+            hf,
+            debtUsd: health.totalDebtUSD,
+            collateralUsd: health.totalCollateralUSD,
+            nearestLiq: nearest ? toQuote(nearest) : null,
+          });
+
+          // Priority Management
+          if (hf < 1.5 && hf > 0) {
+            prioritySet.add(user); // Keep/Add to priority
+            stateHF.set(user, hf); // Update stat
+            statRisk++;
+          } else {
+            prioritySet.delete(user); // Remove if safe
+            stateHF.delete(user);
+            stateLiq.delete(user.toLowerCase());
+            engine.removePosition(user);
+            statSafe++;
+          }
+
+          // Candidates Logic for Planner
+          let candidateStatus: ScanCandidate["status"] | "below_watch" = "below_watch";
+          if (hf < 1.0) candidateStatus = "exec_ready";
+          else if (hf < 1.1) candidateStatus = "watch";
+
+          if (candidateStatus === "below_watch") {
+            dropOut(user, hf);
+            continue; // Not interesting for Planner
+          }
+
+          // Ghost Filter
+          if (health.totalCollateralUSD < 1 && health.totalDebtUSD < 1) {
+            statDust++;
+            prioritySet.delete(user); // cleanup
+            dropOut(user, hf);
+            continue;
+          }
+
+          // Blacklist Check
+          if (isBlacklisted(blacklist, user)) {
+            prioritySet.delete(user); // cleanup
+            dropOut(user, hf);
+            continue;
+          }
+
+          // Add to candidates list
+          if (hf < 1.0) statLiquidatable++;
+          else statWatch++;
+
+          candidates.push({
+            candidateId: `${chain.id}|${user}|aave`,
+            borrower: user,
+            healthFactor: hf,
+            proximity: hf === 0 ? 100 : 1 / hf,
+            totalCollateralUSD: health.totalCollateralUSD,
+            totalDebtUSD: health.totalDebtUSD,
+            bestDebt: health.bestDebt,
+            bestCollateral: health.bestCollateral,
+            liqDistancePct: nearest?.distancePct ?? null,
+            liquidation: liq?.map(toQuote) ?? [],
+            status: candidateStatus,
+            ts: new Date().toISOString()
+          });
         }
+      }
 
-        // Add to candidates list
-        if (hf < 1.0) statLiquidatable++;
-        else statWatch++;
-
-        candidates.push({
-          candidateId: `${chain.id}|${user}|aave`,
-          borrower: user,
-          healthFactor: hf,
-          proximity: hf === 0 ? 100 : 1 / hf,
-          totalCollateralUSD: health.totalCollateralUSD,
-          totalDebtUSD: health.totalDebtUSD,
-          bestDebt: health.bestDebt,
-          bestCollateral: health.bestCollateral,
-          status: candidateStatus,
-          ts: new Date().toISOString()
-        });
+      // Merge into the book, expire the unseen, flush the hot queue to disk for the Planner
+      for (const c of candidates) book.upsert(c);
+      for (const e of book.expire()) published.delete(e.borrower.toLowerCase());
+      const hot = book.hot();
+      await writeJsonlArtifact(dataPath("candidates.jsonl"), hot);
+      summary.candidates = hot.length;
+      summary.execReady = hot.filter((c) => c.status === "exec_ready").length;
+      options.onCandidates?.(candidates);
+      if (publisher) {
+        const events: Omit<CandidateEvent<ScanCandidate>, "seq" | "ts">[] = [];
+        for (const c of candidates) {
+          const key = c.borrower.toLowerCase();
+          if (c.status === "exec_ready" || published.get(key) !== c.status) {
+            events.push({ type: c.status, candidateId: c.candidateId, borrower: c.borrower, healthFactor: c.healthFactor, candidate: c });
+          }
+          published.set(key, c.status);
+        }
+        for (const r of recovered) {
+          events.push({ type: "recovered", candidateId: `${chain.id}|${r.borrower}|aave`, borrower: r.borrower, healthFactor: r.healthFactor, candidate: null });
+        }
+        publisher.publish(events);
       }
-    }
 
-    // Write Candidates (Flush to disk for Planner)
-    await writeJsonl(dataPath("candidates.jsonl"), candidates);
+      // Refresh Rate Logic
+      // If no priority targets, we can sleep longer to save RPC (TURBO: half the interval)
+      const sleepTime = displayPriority.length > 0 ? Math.ceil(cfg.SENTRY_INTERVAL_MS / 2) : cfg.SENTRY_INTERVAL_MS;
 
-    // HOT RELOAD: Refresh Universe every 250 cycles (approx 2-4 mins)
-    if (cycleCount % 250 === 0) {
-      try {
-        const raw = await import("fs").then(m => m.readFileSync(dbPath, "utf-8"));
-        const freshUsers = JSON.parse(raw) as Address[];
-        if (freshUsers.length > dbUsers.length) {
-          dbUsers = freshUsers;
+      if (!options.quiet) {
+        // HUD DISPLAY
+        const estProfit = new Map<string, number | null>();
+        for (const c of hot) {
+          if (c.status === "watch" || c.status === "exec_ready") estProfit.set(c.borrower, await estProfitUsd(c.borrower));
         }
-      } catch { }
-    }
+        const topCandidates = hot
+          .filter(c => {
+            // Only show >$10 profit (unknown: position not loaded yet, keep)
+            const p = estProfit.get(c.borrower);
+            return p !== undefined && (p === null || p >= 10);
+          })
+          .sort((a, b) => (a.liqDistancePct ?? Infinity) - (b.liqDistancePct ?? Infinity) || a.healthFactor - b.healthFactor)
+          .slice(0, 15); // Expanded to Top 15
+
+        const W = 75;
+        const pad = (s: string) => s.padEnd(W - 4);
+
+        // Calc live stats from map
+        const hfValues = Array.from(stateHF.values());
+        const countRisk = hfValues.length; // < 1.5
+        const countWarn = hfValues.filter(h => h < 1.1).length; // < 1.1
+        const countDoom = hfValues.filter(h => h < 1.0).length; // < 1.0
+
+        if (!bounded) console.clear(); // bounded runs keep every frame in the log
+        console.log(`│ ${pad(`💀 DAEMON SENTRY | Cycle: ${cycleCount} | Universe: ${dbUsers.length} active / ${store.size - dbUsers.length} dormant`)} │`);
+        console.log(`│ ${pad(`   🔥 Priority Queue : ${countRisk} users (HF < 1.5)`)} │`);
+        console.log(`│ ${pad(`   🟠 Warning Queue  : ${countWarn} users (HF < 1.1)`)} │`);
+        console.log(`│ ${pad(`   💀 Kill Zone      : ${countDoom} users (HF < 1.0)`)} │`);
+        if (feeds) console.log(`│ ${pad(`   📡 Oracle Feeds   : ${feeds.aggregators().length} aggregators | last trigger +${priceTriggered} users`)} │`);
+        const speed = stream.mode() === "ws"
+          ? `every block (WS) @ ${stream.latest() ?? "?"}`
+          : `${sleepTime}ms refresh (${displayPriority.length > 0 ? 'TURBO' : 'ECO'})`;
+        console.log(`│ ${pad(`   ⚡ Speed          : ${speed}`)} │`);
+
+        if (topCandidates.length > 0) {
+          console.log("├───────────────────────────────────────────────────────────────────────┤");
+          console.log(`│ ${pad("🔍 TOP 15 CLOSEST TO LIQUIDATION:")} │`);
+          topCandidates.forEach((c, i) => {
+            const hfStr = c.healthFactor.toFixed(4);
+            const p = estProfit.get(c.borrower);
+            const col = `$${Math.round(c.totalCollateralUSD)}`.padEnd(12);
+            const deb = `$${Math.round(c.totalDebtUSD)}`.padEnd(12);
+            const prof = (p == null ? "n/a" : `~$${Math.round(p)}`).padEnd(10);
+            const near = nearestLiquidation((stateLiq.get(c.borrower.toLowerCase()) ?? []));
+            const dist = near
+              ? ` | ${near.side === "collateral" ? "-" : "+"}${near.distancePct!.toFixed(2)}% ${engine.reserve(near.asset)?.symbol ?? near.asset.slice(0, 8)}`
+              : "";
+            console.log(`│ ${i + 1}. ${c.borrower.slice(0, 10)}... HF: ${hfStr}${dist}`.padEnd(W - 4) + " │");
+            console.log(`│    Col: ${col} | Debt: ${deb} | Prof: ${prof}`.padEnd(W - 4) + " │");
+          });
+        }
+        console.log("└───────────────────────────────────────────────────────────────────────┘");
+      }
 
-    // HUD DISPLAY
-    const topCandidates = candidates
-      .filter(c => {
-        const isInteresting = c.status === "watch" || c.status === "exec_ready";
-        const estProfit = c.totalDebtUSD * 0.5 * 0.05;
-        return isInteresting && estProfit >= 10; // Only show >$10 profit
-      })
-      .sort((a, b) => a.healthFactor - b.healthFactor)
-      .slice(0, 15); // Expanded to Top 15
-
-    const W = 75;
-    const pad = (s: string) => s.padEnd(W - 4);
-
-    // Calc live stats from map
-    const hfValues = Array.from(stateHF.values());
-    const countRisk = hfValues.length; // < 1.5
-    const countWarn = hfValues.filter(h => h < 1.1).length; // < 1.1
-    const countDoom = hfValues.filter(h => h < 1.0).length; // < 1.0
-
-    // Refresh Rate Logic
-    // If no priority targets, we can sleep longer to save RPC
-    const sleepTime = displayPriority.length > 0 ? 500 : 1000;
-
-    console.clear();
-    console.log(`│ ${pad(`💀 DAEMON SENTRY | Cycle: ${cycleCount} | Universe: ${dbUsers.length} Users`)} │`);
-    console.log(`│ ${pad(`   🔥 Priority Queue : ${countRisk} users (HF < 1.5)`)} │`);
-    console.log(`│ ${pad(`   🟠 Warning Queue  : ${countWarn} users (HF < 1.1)`)} │`);
-    console.log(`│ ${pad(`   💀 Kill Zone      : ${countDoom} users (HF < 1.0)`)} │`);
-    console.log(`│ ${pad(`   ⚡ Speed          : ${sleepTime}ms refresh (${displayPriority.length > 0 ? 'TURBO' : 'ECO'})`)} │`);
-
-    if (topCandidates.length > 0) {
-      console.log("├───────────────────────────────────────────────────────────────────────┤");
-      console.log(`│ ${pad("🔍 TOP 15 CLOSEST TO LIQUIDATION:")} │`);
-      topCandidates.forEach((c, i) => {
-        const hfStr = c.healthFactor.toFixed(4);
-        const estProfit = Math.round(c.totalDebtUSD * 0.5 * 0.05);
-        const col = `$${Math.round(c.totalCollateralUSD)}`.padEnd(12);
-        const deb = `$${Math.round(c.totalDebtUSD)}`.padEnd(12);
-        const prof = `~$${estProfit}`.padEnd(10);
-        console.log(`│ ${i + 1}. ${c.borrower.slice(0, 10)}... HF: ${hfStr}`.padEnd(W - 4) + " │");
-        console.log(`│    Col: ${col} | Debt: ${deb} | Prof: ${prof}`.padEnd(W - 4) + " │");
-      });
-    }
-    console.log("└───────────────────────────────────────────────────────────────────────┘");
+      cycleCount++;
+      summary.cycles = cycleCount;
+      if (cycleCount >= maxCycles || (options.pass && (passDone || dbUsers.length === 0))) break;
+      if (options.signal?.aborted) break;
 
-    // Sleep to avoid RPC spam
-    await new Promise(r => setTimeout(r, sleepTime));
-    cycleCount++;
+      // Next block (WS) or sleep to avoid RPC spam (HTTP)
+      await stream.next(sleepTime);
+    }
+  } finally {
+    stream.stop();
+    publisher?.close();
   }
+  logger.info(summary, bounded ? "😈 Sentry finished (bounded run)" : "😈 Sentry stopped");
+  return summary;
 }
@@ -1,47 +1,100 @@
-import { loadConfig } from "../config.js";
-import { arbitrum } from "viem/chains";
+import { loadConfig, AppConfig } from "../config.js";
+import { arbitrum, base } from "viem/chains";
 import { logger } from "../logger.js";
-import { writeCsv } from "../utils/io.js";
-import fs from "node:fs/promises";
-import { formatUnits, parseUnits, createPublicClient, http } from "viem";
+import { readArtifact, writeArtifact } from "../utils/io.js";
+import { formatUnits, createPublicClient, http, encodeFunctionData, zeroAddress, Address } from "viem";
 import { getCode } from "../services/uniswapQuoterV2.js";
-import { quoteBestExactInput } from "../services/quoteBest.js";
+import { quoteBestExactInput, quoteBestExactOutput } from "../services/quoteBest.js";
+import { dexAdapters, DexId, DexRoute } from "../services/dex/index.js";
+import { v3PoolCache } from "../services/v3PoolCache.js";
 import { estimateL1CalldataFeeUsd } from "../services/arbGasInfo.js";
+import { estimateOpL1FeeUsd } from "../services/opGasPriceOracle.js";
 import { dataPath } from "../lib/data_dir";
-
-type HotQueueItem = {
-  rank: number;
-
+import { AaveScanner } from "../services/aaveScanner";
+import { HealthEngine } from "../services/healthEngine";
+import { assetsFromEngine } from "../lib/getUserAssets";
+import { sizeLiquidation } from "../lib/liquidationRules";
+import { percentMul, WAD } from "../lib/aaveMath";
+import { EXECUTOR_ABI, ExecutorOrder } from "./exec.js";
+
+// tx_plan item: from tx_plan.json (bigints serialized as strings) or buildPlan in memory
+type PlanItem = {
   candidateId: string;
-  marketId: string;
   borrower: string;
+  action: "WATCH" | "EXEC" | "SKIP";
+  pass: boolean;
+  order?: Record<keyof ExecutorOrder, string | number | bigint>;
+};
 
-  collateralToken: `0x${string}`;
-  loanToken: `0x${string}`;
-
-  // NEW: needed for real liquidation Order
-  oracle: `0x${string}` | null;
-  irm: `0x${string}` | null;
-  lltvWad: string | null;
-
-  collateralSymbol?: string;
-  loanSymbol?: string;
-
-  collateralDecimals: number;
-  loanDecimals: number;
-
-  collateralPriceUsd: number | null;
-  loanPriceUsd: number | null;
+export type PlanInput = { generatedAt: string; items: PlanItem[] };
 
-  borrowUsd: number | null;
-  lltv: number | null;
-  proximity: number | null;
+/** Per-order economics in tx_sim.json; execCmd only sends orders with pass=true from a sim of the same plan. */
+export type OrderSim = {
+  candidateId: string;
+  borrower: Address;
+  debtAsset: Address;
+  collateralAsset: Address;
+  debtSymbol: string;
+  collateralSymbol: string;
+
+  repayAmount: string;       // what the Pool will take (close factor / collateral cap applied)
+  seizedCollateral: string;  // to the liquidator, protocol fee excluded
+  protocolFee: string;
+  flashPremium: string;      // debt units
+
+  quoteMode: string;         // quoter mode, "no_quote" or "no_route"
+  dex: DexId;
+  dexRoute: DexRoute | null; // another DEX won the fresh quote: exec encodes this instead of uniPath
+  uniPath: string;           // fresh best route (exec uses it over the plan's)
+  pathChanged: boolean;
+  amountOut: string;         // debt units
+  amountOutMin: string;      // amountOut - SLIPPAGE_BPS (exact output: swapAmountOut)
+  swapAmountOut: string;     // the order's; "0" = sell all
+  collateralIn: string;      // collateral sold
+  keptCollateral: string;    // seized - collateralIn (exact output only)
+
+  repayUsd: number;
+  seizedUsd: number;
+  amountOutUsd: number;
+  keptUsd: number;
+  flashPremiumUsd: number;
+  gasUsd: number;
+  l1FeeUsd: number;
+  calldataBytes: number;
+  netProfitUsd: number;      // amountOut + kept collateral - repay - premium - gas - L1 fee
+  requiredNetUsd: number;
+
+  minProfitOk: boolean;      // executor's ProfitTooLow guard: amountOut >= repayAmount + premium + minProfit
+  isQuoted: boolean;
+  pass: boolean;
+  note: string;
+};
 
-  status: "below_watch" | "watch" | "exec_ready";
-  reason: string;
-  ts: string;
+export type OrderEconomicsInput = {
+  amountOut: bigint;         // swap proceeds, debt units
+  repayAmount: bigint;       // the order's (flash loan size)
+  repaid: bigint;            // what the Pool pulls
+  premium: bigint;           // flash premium on repayAmount
+  minProfit: bigint;
+  debtUsd: (amount: bigint) => number;
+  keptUsd: number;
+  gasUsd: number;
+  l1FeeUsd: number;
+  requiredNetUsd: number;
+  execOk: boolean;           // quoted, pricing usable, L1 fee known
 };
 
+/**
+ * netProfitUsd / minProfitOk / pass of one order. The flash loan is for repayAmount; whatever the
+ * Pool doesn't pull stays in the executor, so it counts on the proceeds side.
+ */
+export function orderEconomics(x: OrderEconomicsInput): { netProfitUsd: number; minProfitOk: boolean; pass: boolean } {
+  const netProfitUsd =
+    x.debtUsd(x.amountOut + x.repayAmount - x.repaid) - x.debtUsd(x.repayAmount + x.premium) + x.keptUsd - x.gasUsd - x.l1FeeUsd;
+  const minProfitOk = x.amountOut >= x.repayAmount + x.premium + x.minProfit;
+  return { netProfitUsd, minProfitOk, pass: x.execOk && minProfitOk && netProfitUsd >= x.requiredNetUsd };
+}
+
 type EthPriceInfo = {
   usd: number;
   source: "chainlink" | "env";
@@ -51,6 +104,30 @@ type EthPriceInfo = {
   maxAgeSec: number;
 };
 
+export type TxSim = {
+  generatedAt: string;
+  planGeneratedAt: string;
+  requiredNetUsd: number;
+  quoteEnabled: boolean;
+  quoterOk: boolean;
+  estimatedGasUsd: number;
+  ethPrice: EthPriceInfo;
+  pricingDegraded: boolean;
+  allowExecWithDegradedPricing: boolean;
+  orders: OrderSim[];
+  diagnostics: {
+    passesQuoted: number;
+    passesExec: number;
+    diagExecPass: number;
+    bestQuotedNet: number | null;
+    bestQuotedMode: string;
+    bestExecNet: number | null;
+    bestExecMode: string;
+    considered: number;
+    produced: number;
+  };
+};
+
 function parseMaxAgeSec(): number {
   const raw =
     (process.env.ETH_USD_MAX_AGE_SEC ?? "").trim() ||
@@ -74,11 +151,12 @@ function envEthPriceInfo(usd: number, opts?: Partial<EthPriceInfo>): EthPriceInf
   };
 }
 
-async function fetchEthPriceUsd(): Promise<EthPriceInfo> {
+async function fetchEthPriceUsd(cfg: AppConfig): Promise<EthPriceInfo> {
   const rpcUrl = process.env.ARB_RPC_URL;
   if (!rpcUrl) throw new Error("ARB_RPC_URL missing (needed for on-chain ETH/USD oracle)");
 
-  const FEED = "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612" as const;
+  // Chainlink ETH/USD on CHAIN_ID
+  const FEED = cfg.ETH_USD_FEED as Address;
 
   const abi = [
     {
@@ -105,7 +183,7 @@ async function fetchEthPriceUsd(): Promise<EthPriceInfo> {
 
   const maxAgeSec = parseMaxAgeSec();
 
-  const client = createPublicClient({ chain: arbitrum, transport: http(rpcUrl) });
+  const client = createPublicClient({ chain: cfg.CHAIN_ID === base.id ? base : arbitrum, transport: http(rpcUrl) });
 
   const decimals = await client.readContract({ address: FEED, abi, functionName: "decimals" });
   const [roundId, answer, , updatedAt] = await client.readContract({
@@ -139,14 +217,6 @@ async function fetchEthPriceUsd(): Promise<EthPriceInfo> {
   return { usd: px, source: "chainlink", stale, ageSec, updatedAt: updated, maxAgeSec };
 }
 
-function lifFromLltv(lltv: number): number {
-  const beta = 0.3;
-  const M = 1.15;
-  if (!Number.isFinite(lltv) || lltv <= 0 || lltv >= 1.5) return 1.0;
-  const lif = beta * (1 / lltv) + (1 - beta) * 1;
-  return Math.min(M, Math.max(1.0, lif));
-}
-
 function parseHexWei(x: unknown): bigint {
   if (typeof x !== "string" || !x.startsWith("0x")) {
     throw new Error(`RPC gasPrice missing/invalid result: ${JSON.stringify(x)}`);
@@ -170,14 +240,22 @@ function assertFiniteNumber(name: string, value: unknown): number {
   return n;
 }
 
-function toUnitsApprox(amount: number, decimals: number): bigint {
-  const dp = Math.min(Math.max(decimals, 0), 18);
-  const keep = Math.min(dp, 8);
-  const s = amount.toFixed(keep);
-  return parseUnits(s, dp);
+export async function simulateCmd() {
+  const cfg = loadConfig();
+  const { meta: planMeta, data: plan } = await readArtifact<PlanInput>(dataPath("tx_plan.json"), { maxAgeMs: cfg.ARTIFACT_MAX_AGE_MS });
+  const txSim = await simulatePlan(plan);
+  const simMeta = await writeArtifact(dataPath("tx_sim.json"), { ...txSim, planSeq: planMeta.seq });
+  logger.info(
+    { orders: txSim.orders.length, passesExec: txSim.diagnostics.passesExec, planSeq: planMeta.seq, simSeq: simMeta.seq },
+    "simulate: wrote data/tx_sim.json"
+  );
 }
 
-export async function simulateCmd() {
+/**
+ * Re-checks the plan's EXEC orders against fresh state: Pool sizing, swap quote, gas and L1 fee.
+ * `scanner`: the run daemon passes its shared one (same RPC client as the other roles).
+ */
+export async function simulatePlan(plan: PlanInput, scanner: AaveScanner = new AaveScanner()): Promise<TxSim> {
   const cfg = loadConfig();
   const requiredNetUsd = cfg.MIN_PROFIT_NET_USD + cfg.SAFETY_BUFFER_USD;
 
@@ -192,15 +270,13 @@ export async function simulateCmd() {
   if (hasEnvEth) {
     ethPriceInfo = envEthPriceInfo(cfg.ETH_PRICE_USD as number, { stale: false, ageSec: 0, updatedAt: 0 });
   } else {
-    ethPriceInfo = await fetchEthPriceUsd();
+    ethPriceInfo = await fetchEthPriceUsd(cfg);
   }
 
   const pricingDegraded = ethPriceInfo.stale === true;
+  const allowExecWithDegradedPricing = process.env.ALLOW_EXEC_WITH_DEGRADED_PRICING === "1";
 
-  const hotQueueRaw = await fs.readFile(dataPath("hot_queue.json"), "utf8");
-  const hotQueueJson = JSON.parse(hotQueueRaw) as { generatedAt: string; hotQueue: HotQueueItem[] };
-
-  const items = hotQueueJson.hotQueue.filter((x) => x.reason === "ok" && x.status !== "below_watch");
+  const items = (plan.items ?? []).filter((x) => x.action === "EXEC" && x.order);
 
   // --- RPC gas price ---
   const rpcRes = await fetch(cfg.ARB_RPC_URL, {
@@ -236,8 +312,14 @@ export async function simulateCmd() {
     quoterOk = typeof code === "string" && code !== "0x";
   }
 
+  // Fresh reserves + positions: the Pool sizes the liquidation at execution time, not at plan time
+  const engine = await scanner.loadHealthEngine(new HealthEngine(cfg.AAVE_POOL_VERSION));
+  const borrowers = Array.from(new Set(items.map((x) => x.borrower as Address)));
+  for (const pos of await scanner.getUserPositionsBatch(borrowers)) engine.setPosition(pos);
+
   logger.info(
     {
+      planGeneratedAt: plan.generatedAt,
       gasPriceWei: gasPriceWei.toString(),
       gasPriceWeiAdj: gasPriceWeiAdj.toString(),
       gasLimit: cfg.GAS_LIMIT,
@@ -254,38 +336,12 @@ export async function simulateCmd() {
     "simulate: inputs"
   );
 
-  const rows: Record<string, unknown>[] = [];
-  let skippedUnsupported = 0;
-
   const flashFeeBps = assertFiniteNumber("FLASHLOAN_FEE_BPS", cfg.FLASHLOAN_FEE_BPS);
   const slippageBps = assertFiniteNumber("SLIPPAGE_BPS", cfg.SLIPPAGE_BPS);
-
-  // FIX: Use the global watch threshold. If we are watching it, we should quote it.
-  const quoteProxCutoff = cfg.LIQ_PROX_THRESHOLD;
-
-  const WETH_ARB = "0x82af49447d8a07e3bd95bd0d56f35241523fbab1" as const;
-  const USDC_ARB = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831" as const;
-  const USDT_ARB = "0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9" as const;
-  const DAI_ARB = "0xda10009cbd5d07dd0cecc66161fc93d7c9000da1" as const;
-
-  const UNSUPPORTED_TOKENS = new Set<string>([
-    "0xddb46999f8891663a8f2828d25298f70416d7610", // sUSDS
-  ]);
-
-  function uniqFees(fees: number[]): number[] {
-    const out: number[] = [];
-    const seen = new Set<number>();
-    for (const f of fees ?? []) {
-      const n = Number(f);
-      if (!Number.isFinite(n) || n <= 0) continue;
-      if (seen.has(n)) continue;
-      seen.add(n);
-      out.push(n);
-    }
-    return out;
-  }
-
-  const allowExecWithDegradedPricing = process.env.ALLOW_EXEC_WITH_DEGRADED_PRICING === "1";
+  const isArbitrum = cfg.CHAIN_ID === arbitrum.id;
+  const isBase = cfg.CHAIN_ID === base.id;
+  // getL1Fee prices the unsigned tx: any executor address gives the same size
+  const executorAddr = /^0x[0-9a-fA-F]{40}$/.test(process.env.EXECUTOR_ADDR ?? "") ? (process.env.EXECUTOR_ADDR as Address) : zeroAddress;
 
   // Helper for concurrency
   async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
@@ -305,238 +361,235 @@ export async function simulateCmd() {
     return Promise.all(results);
   }
 
-  const concurrency = 5; // Moderate concurrency to avoid RPC rate limits
-
-  const results = await mapLimit(items, concurrency, async (c) => {
-    const borrowUsd = Number(c.borrowUsd);
-    const lltv = Number(c.lltv);
-    const proximity = Number(c.proximity);
-
-    const collatAddr = c.collateralToken.toLowerCase();
-    const loanAddr = c.loanToken.toLowerCase();
+  const concurrency = cfg.SNIPER_CONCURRENCY; // moderate: quotes + L1 fee calls per order, RPC rate limits
+  const adapters = cfg.QUOTE_ENABLED ? dexAdapters(cfg) : [];
+  const local = cfg.QUOTE_ENABLED ? v3PoolCache(cfg) : null; // one pool state load per block for every order
+
+  const sims = await mapLimit(items, concurrency, async (it): Promise<OrderSim> => {
+    const o = it.order!;
+    const order: ExecutorOrder = {
+      debtAsset: o.debtAsset as Address,
+      collateralAsset: o.collateralAsset as Address,
+      borrower: o.borrower as Address,
+      repayAmount: BigInt(o.repayAmount),
+      uniPath: o.uniPath as `0x${string}`,
+      amountOutMin: BigInt(o.amountOutMin),
+      swapAmountOut: BigInt(o.swapAmountOut ?? 0), // plans from before exact-output / DEX-route orders
+      swapTarget: (o.swapTarget ?? zeroAddress) as Address,
+      swapData: (o.swapData ?? "0x") as `0x${string}`,
+      swapAmountInOffset: BigInt(o.swapAmountInOffset ?? 0),
+      minProfit: BigInt(o.minProfit),
+      deadline: BigInt(o.deadline),
+      maxTxGasPrice: BigInt(o.maxTxGasPrice),
+      referralCode: Number(o.referralCode),
+      nonce: BigInt(o.nonce),
+    };
 
-    const collatSym = (c.collateralSymbol ?? "").toLowerCase();
-    const loanSym = (c.loanSymbol ?? "").toLowerCase();
+    const sim: OrderSim = {
+      candidateId: it.candidateId,
+      borrower: it.borrower as Address,
+      debtAsset: order.debtAsset,
+      collateralAsset: order.collateralAsset,
+      debtSymbol: "",
+      collateralSymbol: "",
+      repayAmount: "0",
+      seizedCollateral: "0",
+      protocolFee: "0",
+      flashPremium: "0",
+      quoteMode: "no_quote",
+      dex: "uniswap_v3",
+      dexRoute: null,
+      uniPath: order.uniPath,
+      pathChanged: false,
+      amountOut: "0",
+      amountOutMin: "0",
+      swapAmountOut: order.swapAmountOut.toString(),
+      collateralIn: "0",
+      keptCollateral: "0",
+      repayUsd: 0,
+      seizedUsd: 0,
+      amountOutUsd: 0,
+      keptUsd: 0,
+      flashPremiumUsd: 0,
+      gasUsd: estimatedGasUsd,
+      l1FeeUsd: 0,
+      calldataBytes: 0,
+      netProfitUsd: -estimatedGasUsd,
+      requiredNetUsd,
+      minProfitOk: false,
+      isQuoted: false,
+      pass: false,
+      note: "",
+    };
 
-    if (
-      UNSUPPORTED_TOKENS.has(collatAddr) ||
-      UNSUPPORTED_TOKENS.has(loanAddr) ||
-      collatSym === "susds" ||
-      loanSym === "susds"
-    ) {
-      skippedUnsupported++;
-      return null;
+    const assets = assetsFromEngine(engine, it.borrower as Address);
+    const d = assets?.assets.find((a) => a.asset.toLowerCase() === order.debtAsset.toLowerCase());
+    const c = assets?.assets.find((a) => a.asset.toLowerCase() === order.collateralAsset.toLowerCase());
+    if (!assets || !d || !c) {
+      sim.note = !assets ? "position unavailable" : "debt/collateral no longer held";
+      return sim;
+    }
+    sim.debtSymbol = d.symbol;
+    sim.collateralSymbol = c.symbol;
+    if (assets.healthFactor >= WAD) {
+      sim.note = `healthy now (HF ${(Number(assets.healthFactor) / 1e18).toFixed(4)})`;
+      return sim;
     }
 
-    // If oracle/irm missing => cannot build Order safely (keep observability anyway)
-    const oracle = c.oracle ?? "";
-    const irm = c.irm ?? "";
-
-    const repayUsd = Number.isFinite(borrowUsd) ? Math.min(borrowUsd, 10_000) : 10_000;
-
-    const lif = lifFromLltv(lltv);
-    const bonusPct = lif - 1.0;
-
-    const flashFeeUsd = repayUsd * (flashFeeBps / 10_000);
-
-    let quoteMode = "model_bps";
-    let amountInCollat = "";
-    let amountOutLoan = "";
-    let amountOutUsdAdj: number | null = null;
-
-    // NEW: route bytes persisted here
-    let uniPath = "";
-
-    const canQuote =
-      cfg.QUOTE_ENABLED &&
-      !UNSUPPORTED_TOKENS.has(collatAddr) &&
-      !UNSUPPORTED_TOKENS.has(loanAddr) &&
-      quoterOk &&
-      c.collateralPriceUsd !== null &&
-      c.loanPriceUsd !== null &&
-      Number.isFinite(c.collateralPriceUsd) &&
-      Number.isFinite(c.loanPriceUsd) &&
-      c.collateralPriceUsd > 0 &&
-      c.loanPriceUsd > 0 &&
-      proximity >= quoteProxCutoff;
-
-    let grossProfitUsd: number;
-    let slippageUsd: number;
-
-    if (canQuote) {
-      const seizedUsd = repayUsd * lif;
-      const collatTokens = seizedUsd / c.collateralPriceUsd!;
-      const amountIn = toUnitsApprox(collatTokens, c.collateralDecimals);
-
-      const feesToTry = uniqFees([100, 500, 3000, 10000, ...(cfg.QUOTE_FEES ?? [])]);
-
-      // Optimization: Try quoteBest
-      let qb: any = null;
+    // What the Pool takes and hands over for this repayAmount
+    const size = sizeLiquidation({
+      version: cfg.AAVE_POOL_VERSION,
+      healthFactor: assets.healthFactor,
+      totalDebtBase: assets.totalDebtBase,
+      debt: { amount: d.debt, price: d.price, decimals: d.decimals },
+      collateral: {
+        amount: c.collateral,
+        price: c.price,
+        decimals: c.decimals,
+        liquidationBonus: c.liquidationBonus,
+        liquidationProtocolFee: c.liquidationProtocolFee,
+      },
+      debtToCover: order.repayAmount,
+    });
+    if (size.dust === "violation") {
+      sim.note = `dust rule: ${size.note}`;
+      return sim;
+    }
+    const repaid = size.debtToCover;
+    const seized = size.collateralToSeize;
+    const premium = percentMul(order.repayAmount, BigInt(flashFeeBps));
+    const debtUsd = (x: bigint) => Number(formatUnits(x, d.decimals)) * d.priceUsd;
+
+    sim.repayAmount = repaid.toString();
+    sim.seizedCollateral = seized.toString();
+    sim.protocolFee = size.protocolFee.toString();
+    sim.flashPremium = premium.toString();
+    sim.repayUsd = debtUsd(repaid);
+    sim.seizedUsd = Number(formatUnits(seized, c.decimals)) * c.priceUsd;
+    sim.flashPremiumUsd = debtUsd(premium);
+
+    // L1 data fee of this order's exact execute() calldata: ArbGasInfo (Arbitrum), GasPriceOracle (Base)
+    const calldata = encodeFunctionData({ abi: EXECUTOR_ABI, functionName: "execute", args: [order] });
+    sim.calldataBytes = (calldata.length - 2) / 2;
+    let l1FeeKnown = true;
+    if (isArbitrum) {
       try {
-        qb = await quoteBestExactInput({
+        const l1 = await estimateL1CalldataFeeUsd({
           rpcUrl: cfg.ARB_RPC_URL,
-          quoter: cfg.UNISWAP_V3_QUOTER_V2 as `0x${string}`,
-          tokenIn: c.collateralToken,
-          tokenOut: c.loanToken,
-          amountIn,
-          fees: feesToTry,
-          intermediates: [WETH_ARB, USDC_ARB, USDT_ARB, DAI_ARB],
-          maxFeesPerLeg: 3,
+          calldataBytes: sim.calldataBytes,
+          ethPriceUsd: ethPriceInfo.usd,
+          gasInfoAddr: cfg.ARB_GASINFO_ADDR as `0x${string}`,
         });
+        sim.l1FeeUsd = l1.l1CalldataFeeUsd;
       } catch (err: any) {
-        // Log individual failure but don't crash
-        // logger.debug({ candidateId: c.candidateId, err: err.message }, "quoteBest failed");
+        // Worst case unknown: keep going, the note flags it
+        sim.note = `l1 fee unavailable (${String(err?.message ?? err).slice(0, 80)}); `;
       }
-
-      // IMPORTANT: we persist route bytes if service provides them
-      uniPath = String(qb?.path ?? qb?.uniPath ?? qb?.route ?? "");
-
-      if (qb && qb.amountOut > 0n) {
-        quoteMode = qb.mode ?? "quoted";
-
-        const outLoan = Number(formatUnits(qb.amountOut, c.loanDecimals));
-        const outUsd = outLoan * c.loanPriceUsd!;
-        const outUsdAfterSlip = outUsd * (1 - slippageBps / 10_000);
-
-        amountInCollat = amountIn.toString();
-        amountOutLoan = qb.amountOut.toString();
-        amountOutUsdAdj = outUsdAfterSlip;
-
-        grossProfitUsd = outUsdAfterSlip - repayUsd;
-        slippageUsd = outUsd - outUsdAfterSlip;
-      } else {
-        quoteMode = "no_route";
-        amountInCollat = amountIn.toString();
-        amountOutLoan = "";
-        amountOutUsdAdj = null;
-
-        grossProfitUsd = -1e9;
-        slippageUsd = 0;
+    } else if (isBase) {
+      try {
+        const l1 = await estimateOpL1FeeUsd({
+          rpcUrl: cfg.ARB_RPC_URL,
+          to: executorAddr,
+          data: calldata,
+          ethPriceUsd: ethPriceInfo.usd,
+          oracleAddr: cfg.OP_GAS_PRICE_ORACLE_ADDR as Address,
+        });
+        sim.l1FeeUsd = l1.l1FeeUsd;
+      } catch (err: any) {
+        sim.note = `l1 fee unavailable (${String(err?.message ?? err).slice(0, 80)}); `;
       }
     } else {
-      grossProfitUsd = repayUsd * bonusPct;
-      slippageUsd = repayUsd * (slippageBps / 10_000);
+      // No estimator: the L1 fee could exceed the profit, so the order never passes
+      l1FeeKnown = false;
     }
 
-    const netProfitUsd = grossProfitUsd - estimatedGasUsd - flashFeeUsd - slippageUsd;
-
-    const isQuoted = quoteMode !== "model_bps" && quoteMode !== "no_route" && amountOutLoan !== "";
-
-    const execOk = (!pricingDegraded || allowExecWithDegradedPricing) && isQuoted;
+    const exactOut = order.swapAmountOut > 0n;
+    const quoteArgs = {
+      rpcUrl: cfg.ARB_RPC_URL,
+      quoter: cfg.UNISWAP_V3_QUOTER_V2 as `0x${string}`,
+      tokenIn: order.collateralAsset,
+      tokenOut: order.debtAsset,
+      fees: cfg.QUOTE_FEES,
+      intermediates: cfg.SWAP_INTERMEDIATES as `0x${string}`[],
+      maxFeesPerLeg: 3,
+      local,
+    };
 
-    const passQuoted = execOk && netProfitUsd >= requiredNetUsd;
-    const pass = passQuoted;
+    // amountOut: what the swap delivers; collateralIn: what it takes from the seized collateral
+    let quoted: { amountOut: bigint; collateralIn: bigint; mode: string; path: `0x${string}`; dexRoute: DexRoute | null } | null = null;
+    if (cfg.QUOTE_ENABLED && quoterOk) {
+      try {
+        if (exactOut) {
+          const q = await quoteBestExactOutput({ ...quoteArgs, amountOut: order.swapAmountOut });
+          // The executor caps the input at the seized collateral; keep SLIPPAGE_BPS of headroom
+          const maxIn = (seized * BigInt(10_000 - slippageBps)) / 10_000n;
+          if (q && q.amountIn > 0n && q.amountIn <= maxIn) {
+            quoted = { amountOut: q.amountOut, collateralIn: q.amountIn, mode: q.mode, path: q.path, dexRoute: null };
+          } else if (q && q.amountIn > maxIn) {
+            sim.note = `exact output needs ${q.amountIn} of ${seized} seized; `;
+          }
+        } else {
+          const q = await quoteBestExactInput({ ...quoteArgs, amountIn: seized, adapters });
+          if (q && q.amountOut > 0n) quoted = { amountOut: q.amountOut, collateralIn: seized, mode: q.mode, path: q.path, dexRoute: q.dexRoute };
+        }
+      } catch (err: any) {
+        logger.debug({ candidateId: it.candidateId, err: err?.message }, "simulate: quoteBest failed");
+      }
+      if (!quoted) sim.quoteMode = "no_route";
+    }
 
-    const note =
+    const amountOut = quoted?.amountOut ?? 0n;
+    sim.isQuoted = quoted !== null;
+    if (quoted) {
+      sim.quoteMode = quoted.mode;
+      sim.dex = quoted.dexRoute?.dex ?? "uniswap_v3";
+      sim.dexRoute = quoted.dexRoute;
+      sim.uniPath = quoted.path;
+      sim.pathChanged = quoted.path.toLowerCase() !== order.uniPath.toLowerCase();
+      sim.collateralIn = quoted.collateralIn.toString();
+      if (exactOut) {
+        const kept = seized - quoted.collateralIn;
+        sim.keptCollateral = kept.toString();
+        sim.keptUsd = Number(formatUnits(kept, c.decimals)) * c.priceUsd;
+      }
+    }
+    sim.amountOut = amountOut.toString();
+    sim.amountOutMin = (exactOut ? amountOut : (amountOut * BigInt(10_000 - slippageBps)) / 10_000n).toString();
+    sim.amountOutUsd = debtUsd(amountOut);
+
+    const execOk = (!pricingDegraded || allowExecWithDegradedPricing) && sim.isQuoted && l1FeeKnown;
+    const econ = orderEconomics({
+      amountOut,
+      repayAmount: order.repayAmount,
+      repaid,
+      premium,
+      minProfit: order.minProfit,
+      debtUsd,
+      keptUsd: sim.keptUsd,
+      gasUsd: sim.gasUsd,
+      l1FeeUsd: sim.l1FeeUsd,
+      requiredNetUsd,
+      execOk,
+    });
+    sim.netProfitUsd = econ.netProfitUsd;
+    sim.minProfitOk = econ.minProfitOk;
+    sim.pass = econ.pass;
+    sim.note +=
       pricingDegraded && !allowExecWithDegradedPricing
         ? "pricing_degraded: blocked for exec"
-        : !isQuoted
-          ? "v0: NO_QUOTE (not executable)"
-          : passQuoted
-            ? "v0: QUOTED_PASS"
-            : "v0: QUOTED_FAIL";
-
-    return {
-      ts: new Date().toISOString(),
-      candidateId: c.candidateId,
-      marketId: c.marketId,
-      borrower: c.borrower,
-
-      // NEW: persist addrs for building LiquidationExecutor.Order
-      collateralToken: c.collateralToken,
-      loanToken: c.loanToken,
-      oracle,
-      irm,
-      lltvWad: c.lltvWad ?? "",
-
-      collateral: c.collateralSymbol ?? "",
-      loan: c.loanSymbol ?? "",
-      status: c.status,
-      reason: c.reason,
-
-      lltv: c.lltv,
-      proximity: c.proximity,
-
-      repayUsd,
-      lif,
-      grossProfitUsd,
-
-      estimatedGasUsd,
-      flashFeeUsd,
-      slippageUsd,
-      netProfitUsd,
-      requiredNetUsd,
-
-      quoteMode,
-      uniPath, // NEW: route bytes
-      amountInCollat,
-      amountOutLoan,
-      amountOutUsdAdj: amountOutUsdAdj ?? "",
-
-      pass: pass ? 1 : 0,
-      isQuoted: isQuoted ? 1 : 0,
-      passQuoted: passQuoted ? 1 : 0,
-      passExec: passQuoted ? 1 : 0,
-      passModel: quoteMode === "model_bps" && netProfitUsd >= requiredNetUsd ? 1 : 0,
-      note,
-    };
+        : !l1FeeKnown
+          ? `no L1 fee estimator for chain ${cfg.CHAIN_ID}: blocked for exec`
+          : !sim.isQuoted
+            ? "NO_QUOTE (not executable)"
+            : !sim.minProfitOk
+              ? "QUOTED_FAIL: swap below repay + premium + minProfit"
+              : sim.pass
+                ? "QUOTED_PASS"
+                : "QUOTED_FAIL";
+    return sim;
   });
 
-  for (const r of results) {
-    if (r) rows.push(r);
-  }
-
-  rows.sort((a, b) => Number((b as any).netProfitUsd) - Number((a as any).netProfitUsd));
-
-  await writeCsv(
-    dataPath("opportunities.csv"),
-    [
-      "ts",
-      "candidateId",
-      "marketId",
-      "borrower",
-
-      // NEW
-      "collateralToken",
-      "loanToken",
-      "oracle",
-      "irm",
-      "lltvWad",
-
-      "collateral",
-      "loan",
-      "status",
-      "reason",
-      "lltv",
-      "proximity",
-      "repayUsd",
-      "lif",
-      "grossProfitUsd",
-      "estimatedGasUsd",
-      "flashFeeUsd",
-      "slippageUsd",
-      "netProfitUsd",
-      "requiredNetUsd",
-      "quoteMode",
-
-      // NEW
-      "uniPath",
-
-      "isQuoted",
-      "passQuoted",
-      "passExec",
-      "passModel",
-      "amountInCollat",
-      "amountOutLoan",
-      "amountOutUsdAdj",
-      "pass",
-      "note",
-    ],
-    rows
-  );
-
-  const considered = items.length;
-  const produced = rows.length;
+  sims.sort((a, b) => b.netProfitUsd - a.netProfitUsd);
 
   let bestQuotedNet = -Infinity;
   let bestQuotedMode = "none";
@@ -545,31 +598,25 @@ export async function simulateCmd() {
   let passesQuoted = 0;
   let passesExec = 0;
 
-  for (const r of rows) {
-    const net = Number((r as any).netProfitUsd);
-    const isQuoted = Number((r as any).isQuoted) === 1 || (r as any).isQuoted === true;
-    const passQuoted = Number((r as any).passQuoted) === 1 || (r as any).passQuoted === true;
-    const passExec = Number((r as any).passExec) === 1 || (r as any).passExec === true;
-    const mode = String((r as any).quoteMode ?? "unknown");
-
+  for (const s of sims) {
+    const passQuoted = s.isQuoted && s.netProfitUsd >= requiredNetUsd;
     if (passQuoted) passesQuoted++;
-    if (passExec) passesExec++;
+    if (s.pass) passesExec++;
 
-    if (isQuoted && Number.isFinite(net) && net > bestQuotedNet) {
-      bestQuotedNet = net;
-      bestQuotedMode = mode;
+    if (s.isQuoted && s.netProfitUsd > bestQuotedNet) {
+      bestQuotedNet = s.netProfitUsd;
+      bestQuotedMode = s.quoteMode;
     }
-    if (passExec && Number.isFinite(net) && net > bestExecNet) {
-      bestExecNet = net;
-      bestExecMode = mode;
+    if (s.pass && s.netProfitUsd > bestExecNet) {
+      bestExecNet = s.netProfitUsd;
+      bestExecMode = s.quoteMode;
     }
   }
 
   logger.info(
     {
-      considered,
-      produced,
-      skippedUnsupported,
+      considered: items.length,
+      produced: sims.length,
       pricingDegraded,
       allowExecWithDegradedPricing,
       passesQuoted,
@@ -579,11 +626,12 @@ export async function simulateCmd() {
       bestExecNet,
       bestExecMode,
     },
-    "simulate: wrote data/opportunities.csv"
+    "simulate: results"
   );
 
-  const txSim = {
+  return {
     generatedAt: new Date().toISOString(),
+    planGeneratedAt: plan.generatedAt,
     requiredNetUsd,
     quoteEnabled: cfg.QUOTE_ENABLED,
     quoterOk,
@@ -591,6 +639,7 @@ export async function simulateCmd() {
     ethPrice: ethPriceInfo,
     pricingDegraded,
     allowExecWithDegradedPricing,
+    orders: sims,
     diagnostics: {
       passesQuoted,
       passesExec,
@@ -599,11 +648,8 @@ export async function simulateCmd() {
       bestQuotedMode,
       bestExecNet: Number.isFinite(bestExecNet) ? bestExecNet : null,
       bestExecMode,
-      skippedUnsupported,
-      considered,
-      produced,
+      considered: items.length,
+      produced: sims.length,
     },
   };
-
-  await fs.writeFile(dataPath("tx_sim.json"), JSON.stringify(txSim, null, 2), "utf8");
 }
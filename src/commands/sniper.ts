@@ -0,0 +1,121 @@
+import { createPublicClient, http, PublicClient, Address } from "viem";
+import { arbitrum, base } from "viem/chains";
+import { logger } from "../logger";
+import { loadConfig } from "../config";
+import { writeArtifact, readJsonlArtifact, ArtifactError } from "../utils/io";
+import { dataPath } from "../lib/data_dir";
+import { AaveScanner } from "../services/aaveScanner";
+import { CandidateSubscriber, ipcPath } from "../services/candidateBus";
+import { KeyedQueue } from "../lib/keyedQueue";
+import { pause, supervise, shutdownSignal } from "../lib/supervise";
+import { userAssetsLoader, UserAssets } from "../lib/getUserAssets";
+import type { ScanCandidate } from "./scan";
+import { buildPlan } from "./plan";
+import { simulatePlan } from "./simulate";
+import { execContext, executePlan, ExecContext } from "./exec";
+
+function truthyEnv(name: string, def = "0"): boolean {
+  return ["1", "true", "yes", "y", "on"].includes(String(process.env[name] ?? def).toLowerCase());
+}
+
+export type SniperDeps = {
+  scanner: AaveScanner;
+  assetsOf: (borrower: Address) => Promise<UserAssets>;
+  exec: ExecContext | null; // null: EXEC_ENABLED off, plan + simulate only
+};
+
+/**
+ * plan -> simulate -> exec as soon as exec-ready candidates are queued (run daemon: by the in-process
+ * sentry; sniper command: by IPC events or the candidates.jsonl fallback). Artifacts are written after the
+ * decision, for inspection.
+ */
+export async function sniperLoop(queue: KeyedQueue<ScanCandidate>, deps: SniperDeps, signal: AbortSignal) {
+  const cfg = loadConfig();
+  while (!signal.aborted) {
+    await queue.wait(cfg.SNIPER_INTERVAL_MS, signal);
+    const ready = queue.drain();
+    if (ready.length === 0 || signal.aborted) continue;
+
+    const t0 = Date.now();
+    const plan = await buildPlan(ready, deps.assetsOf);
+    if (plan.execBuilt === 0) {
+      logger.info({ candidates: ready.length, ms: Date.now() - t0 }, "🔫 Sniper: no order built");
+      await writeArtifact(dataPath("tx_plan.json"), plan);
+      continue;
+    }
+    const sim = await simulatePlan(plan, deps.scanner);
+    const res = deps.exec ? await executePlan(deps.exec, plan, sim) : null;
+    logger.info(
+      {
+        candidates: ready.length,
+        execBuilt: plan.execBuilt,
+        passesExec: sim.diagnostics.passesExec,
+        bestExecNet: sim.diagnostics.bestExecNet,
+        txHash: res?.txHash ?? null,
+        ms: Date.now() - t0,
+      },
+      deps.exec ? "🔫 Sniper pass" : "🔫 Sniper pass (EXEC_ENABLED off)"
+    );
+    await writeArtifact(dataPath("tx_plan.json"), plan);
+    await writeArtifact(dataPath("tx_sim.json"), sim);
+  }
+}
+
+/**
+ * Standalone sniper next to a `scan` process: reacts to the sentry's IPC events; while the channel
+ * is down it polls candidates.jsonl (each complete, recent scan once).
+ */
+export async function sniperCmd() {
+  const cfg = loadConfig();
+  const chain = cfg.CHAIN_ID === 8453 ? base : arbitrum;
+  const client = createPublicClient({ chain, transport: http(cfg.ARB_RPC_URL) }) as PublicClient;
+  const scanner = new AaveScanner(client);
+  const deps: SniperDeps = {
+    scanner,
+    assetsOf: userAssetsLoader(scanner),
+    exec: truthyEnv("EXEC_ENABLED", "0") ? execContext(client, scanner) : null,
+  };
+
+  const queue = new KeyedQueue<ScanCandidate>();
+  const sub = cfg.IPC_ENABLED
+    ? new CandidateSubscriber<ScanCandidate>(
+      ipcPath(cfg.IPC_PATH),
+      (e) => {
+        if (e.type === "exec_ready" && e.candidate) queue.push(e.candidateId, e.candidate);
+        else if (e.type === "recovered") queue.delete(e.candidateId);
+      },
+      cfg.IPC_RECONNECT_MS
+    )
+    : null;
+  sub?.start();
+
+  const signal = shutdownSignal();
+  logger.info({ ipc: sub?.socketPath ?? null, exec: deps.exec !== null }, "🔫 Sniper starting");
+
+  // File handoff: only while IPC is down
+  let lastSeq = 0;
+  const fileFallback = async (signal: AbortSignal) => {
+    while (!signal.aborted) {
+      await pause(cfg.SNIPER_INTERVAL_MS, signal);
+      if (sub?.connected() || signal.aborted) continue;
+      try {
+        const { meta, rows } = await readJsonlArtifact<ScanCandidate>(dataPath("candidates.jsonl"), {
+          maxAgeMs: cfg.ARTIFACT_MAX_AGE_MS,
+          minSeq: lastSeq + 1,
+        });
+        lastSeq = meta.seq;
+        for (const c of rows) if (c.status === "exec_ready") queue.push(c.candidateId, c);
+      } catch (e: any) {
+        if (!(e instanceof ArtifactError)) throw e;
+        if (e.reason !== "stale") logger.debug({ err: e.message }, "🔫 Sniper: candidates.jsonl skipped");
+      }
+    }
+  };
+
+  await Promise.all([
+    supervise("sniper", signal, cfg.RUN_RESTART_MS, (s) => sniperLoop(queue, deps, s)),
+    supervise("file-fallback", signal, cfg.RUN_RESTART_MS, fileFallback),
+  ]);
+  sub?.stop();
+  process.exit(0);
+}
@@ -0,0 +1,60 @@
+import { UniverseStore, UniverseQuery } from "../lib/universeStore";
+
+export type UniverseOpts = {
+  maxHf?: string;
+  minDebt?: string;
+  debtIn?: string;
+  collateralIn?: string;
+  tier?: string;
+  limit?: string;
+  json?: boolean;
+};
+
+/** Read-only report over the borrower universe store (no RPC). */
+export async function universeCmd(opts: UniverseOpts = {}) {
+  const store = UniverseStore.open();
+
+  const q: UniverseQuery = {
+    maxHf: opts.maxHf !== undefined ? Number(opts.maxHf) : undefined,
+    minDebtUsd: opts.minDebt !== undefined ? Number(opts.minDebt) : undefined,
+    debtIn: opts.debtIn,
+    collateralIn: opts.collateralIn,
+    tier: opts.tier === "active" || opts.tier === "dormant" ? opts.tier : undefined,
+    limit: Number(opts.limit ?? "20"),
+  };
+  const rows = store.query(q);
+
+  if (opts.json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+
+  let checked = 0;
+  let risky = 0;
+  let debtUsd = 0;
+  for (const r of store.records()) {
+    if (r.hf === null) continue;
+    checked++;
+    if (r.hf > 0 && r.hf < 1.1) risky++;
+    debtUsd += r.debtUsd ?? 0;
+  }
+
+  const W = 75;
+  const line = "─".repeat(W - 2);
+  const pad = (s: string) => s.padEnd(W - 4);
+
+  console.log(`┌${line}┐`);
+  console.log(`│ ${pad(`🗃️  UNIVERSE | ${store.size} users | ${store.dormantCount()} dormant | ${checked} with HF | ${risky} HF < 1.1`)} │`);
+  console.log(`│ ${pad(`   Tracked debt: $${Math.round(debtUsd).toLocaleString("en-US")}`)} │`);
+  console.log(`├${line}┤`);
+  rows.forEach((r, i) => {
+    const hf = r.hf === null ? "?" : r.hf > 100 ? "∞" : r.hf.toFixed(4);
+    const debt = `$${Math.round(r.debtUsd ?? 0)}`.padEnd(12);
+    const col = `$${Math.round(r.collateralUsd ?? 0)}`.padEnd(12);
+    const near = r.nearestLiq?.distancePct != null ? `  Δ ${r.nearestLiq.distancePct.toFixed(2)}%` : "";
+    console.log(`│ ${pad(`${i + 1}. ${r.user}  HF: ${hf}${near}`)} │`);
+    console.log(`│ ${pad(`   Col: ${col} | Debt: ${debt} | Reserves: ${Object.keys(r.reserves).length} | Last: #${r.lastActivityBlock}${r.dormantSince !== null ? " | dormant" : ""}`)} │`);
+  });
+  if (rows.length === 0) console.log(`│ ${pad("   (no users match)")} │`);
+  console.log(`└${line}┘`);
+}
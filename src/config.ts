@@ -1,20 +1,29 @@
 import "dotenv/config";
 import { getAddress } from "viem";
+import { POOL_VERSIONS, type PoolVersion } from "./lib/liquidationRules";
+
+/** sell_all: swap every seized unit (exactInput); sell_just_enough: buy repay + premium + minProfit (exactOutput), keep the rest. */
+export const SWAP_STRATEGIES = ["sell_all", "sell_just_enough"] as const;
+export type SwapStrategy = (typeof SWAP_STRATEGIES)[number];
 
 export type AppConfig = {
   // Arbitrum L1 fee model (rough)
   CALLDATA_BYTES: number;
   ARB_GASINFO_ADDR: string;
+  // OP-stack (Base) L1 data fee: GasPriceOracle predeploy
+  OP_GAS_PRICE_ORACLE_ADDR: string;
   // Chain / RPC
   CHAIN_ID: number;
   ARB_RPC_URL: string;
+  WS_RPC_URL: string;       // optional; enables newHeads/log subscriptions
+  WS_STALL_MS: number;      // no head for this long => socket considered dead
+  WS_RECONNECT_MS: number;
   PRIVATE_KEY?: string;
 
   // Morpho GraphQL
   MORPHO_API_URL: string;
   MAX_MARKETS: number;
   MAX_POSITIONS_PER_MARKET: number;
-  HOT_QUEUE_SIZE: number;
 
   // Thresholds (watch/exec)
   LIQ_PROX_THRESHOLD: number;   // watch threshold (e.g. 0.98)
@@ -30,6 +39,35 @@ export type AppConfig = {
   // Aave V3
   AAVE_UI_POOL_DATA_PROVIDER: string;
   AAVE_POOL_ADDRESS_PROVIDER: string;
+  AAVE_POOL_VERSION: PoolVersion; // liquidation sizing rules (close factor, dust), HF rounding, UI provider layout
+
+  // Miner (eth_getLogs)
+  LOGS_MAX_WINDOW: number;      // largest getLogs span tried (blocks)
+  LOGS_MIN_WINDOW: number;      // bisect floor; a limit error at this span aborts the run
+  MINER_SPAN_BLOCKS: number;    // head lookback when no sync_head.json exists yet
+  MINER_BACKFILL_FLOOR: number; // backfill stops here (pool deployment)
+  MINER_RPC_BUDGET: number;     // getLogs calls per miner tick, shared by head + backfill
+  MINER_HEAD_RESERVE: number;   // part of the budget the backfill lane can never use
+  MINER_INTERVAL_MS: number;    // miner tick spacing when running next to the sentry
+  MINER_REORG_DEPTH: number;    // hash checkpoints kept / rewind depth on parent-hash mismatch
+
+  // Sentry / sniper roles (scan, run daemon)
+  SENTRY_INTERVAL_MS: number;   // HTTP poll spacing with no priority users (halved when there are)
+  SENTRY_BATCH_SIZE: number;    // rotation users per health multicall cycle
+  SNIPER_INTERVAL_MS: number;   // run: longest wait for exec-ready candidates before re-planning
+  SNIPER_CONCURRENCY: number;   // orders simulated in parallel
+  RUN_RESTART_MS: number;       // run: delay before a crashed role is restarted
+  ARTIFACT_MAX_AGE_MS: number;  // plan / simulate reject candidates.jsonl / tx_plan.json older than this
+  CANDIDATE_TTL_MS: number;     // sentry: a candidate unseen for this long leaves the book
+  HOT_QUEUE_SIZE: number;       // sentry: ranked candidates written to candidates.jsonl
+  IPC_ENABLED: boolean;         // scan publishes candidate events, sniper subscribes
+  IPC_PATH: string;             // socket / named pipe; default derived from DATA_DIR
+  IPC_RECONNECT_MS: number;     // sniper retry spacing while the sentry is down
+
+  // Oracle triggers (Chainlink AnswerUpdated)
+  PRICE_FEEDS_ENABLED: boolean;
+  PRICE_TRIGGER_MAX_HF: number;  // exposed users above this last known HF are left to the rotation
+  PRICE_FEED_RESOLVE_MS: number; // re-map reserve -> aggregator this often
 
   // Simulator
   GAS_LIMIT: number;
@@ -37,6 +75,7 @@ export type AppConfig = {
   SLIPPAGE_BPS: number;
   FLASHLOAN_FEE_BPS: number;
   ETH_PRICE_USD?: number;
+  ETH_USD_FEED: string;         // Chainlink ETH/USD aggregator on CHAIN_ID (gas and L1 fee pricing)
 
   MAX_TX_GAS_PRICE_WEI: bigint; // strict cap
   TX_PRIORITY_FEE_WEI: bigint;  // miner tip
@@ -49,11 +88,25 @@ export type AppConfig = {
   // Uniswap
   UNISWAP_V3_SWAPROUTER02: string;
   UNISWAP_V3_QUOTER_V2: string;
+  UNISWAP_V3_FACTORY: string;
   WETH_ADDRESS: string;
 
   // Quote behavior
+  SWAP_INTERMEDIATES: string[]; // 2-hop middle tokens tried by the quoters (CHAIN_ID's WETH and stables by default)
   QUOTE_ENABLED: boolean;
   QUOTE_FEES: number[]; // try in order, e.g. [500,3000,10000]
+  PAIR_QUOTE_TOP: number; // planner: max swap quotes per borrower when ranking debt/collateral pairs
+  SWAP_STRATEGY: SwapStrategy; // planner: collateral sold per order
+  QUOTE_V3_LOCAL: boolean; // Uniswap V3 quotes from cached pool state (slot0, liquidity, ticks) instead of QuoterV2 calls
+
+  // Other DEXes, quoted next to Uniswap V3 (an empty address / list leaves the adapter off)
+  DEX_ALGEBRA_QUOTER: string;     // Camelot V3 / Algebra Quoter
+  DEX_ALGEBRA_ROUTER: string;     // Camelot V3 / Algebra SwapRouter
+  DEX_SOLIDLY_ROUTER: string;     // Aerodrome / Velodrome Router
+  DEX_SOLIDLY_FACTORY: string;    // its default pool factory
+  DEX_CURVE_POOLS: string[];      // plain / NG stableswap pools (int128 coin indices)
+  DEX_BALANCER_VAULT: string;     // Balancer V2 Vault
+  DEX_BALANCER_POOL_IDS: string[];
 };
 
 function str(name: string, def?: string): string {
@@ -87,6 +140,20 @@ function bool(name: string, def: boolean): boolean {
   throw new Error(`Invalid env ${name}=${process.env[name]}`);
 }
 
+function poolVersion(name: string, def: PoolVersion): PoolVersion {
+  const raw = process.env[name]?.trim();
+  if (!raw) return def;
+  if ((POOL_VERSIONS as readonly string[]).includes(raw)) return raw as PoolVersion;
+  throw new Error(`Invalid env ${name}=${raw} (expected ${POOL_VERSIONS.join("|")})`);
+}
+
+function swapStrategy(name: string, def: SwapStrategy): SwapStrategy {
+  const raw = process.env[name]?.trim();
+  if (!raw) return def;
+  if ((SWAP_STRATEGIES as readonly string[]).includes(raw)) return raw as SwapStrategy;
+  throw new Error(`Invalid env ${name}=${raw} (expected ${SWAP_STRATEGIES.join("|")})`);
+}
+
 function listNums(name: string, def: number[]): number[] {
   const raw = process.env[name]?.trim();
   if (!raw) return def;
@@ -100,6 +167,12 @@ function listNums(name: string, def: number[]): number[] {
   return arr;
 }
 
+function listStrs(name: string, def: string[] = []): string[] {
+  const raw = process.env[name]?.trim();
+  if (!raw) return def;
+  return raw.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
 function privateKey(): string | undefined {
   const v = process.env.PRIVATE_KEY?.trim();
   if (!v) return undefined;
@@ -112,22 +185,27 @@ export function loadConfig(): AppConfig {
   // Compat: si alguien usa WATCH_PROX_THRESHOLD en vez de LIQ_PROX_THRESHOLD
   const watchTh = num("LIQ_PROX_THRESHOLD", num("WATCH_PROX_THRESHOLD", 0.94));
   const execTh = num("EXEC_PROX_THRESHOLD", 1.0);
+  // Per-chain defaults: Base (8453), else Arbitrum One
+  const isBase = process.env.CHAIN_ID === "8453";
 
   return {
     CHAIN_ID: Math.trunc(num("CHAIN_ID", 42161)),
     ARB_RPC_URL: str("ARB_RPC_URL", "https://arbitrum.llamarpc.com"),
+    WS_RPC_URL: str("WS_RPC_URL", ""),
+    WS_STALL_MS: Math.trunc(num("WS_STALL_MS", 10_000)),
+    WS_RECONNECT_MS: Math.trunc(num("WS_RECONNECT_MS", 5_000)),
     PRIVATE_KEY: privateKey(),
 
     MORPHO_API_URL: str("MORPHO_API_URL", "https://api.morpho.org/graphql"),
     MAX_MARKETS: Math.trunc(num("MAX_MARKETS", 50)),
     MAX_POSITIONS_PER_MARKET: Math.trunc(num("MAX_POSITIONS_PER_MARKET", 1000)),
-    HOT_QUEUE_SIZE: Math.trunc(num("HOT_QUEUE_SIZE", 100)),
 
     LIQ_PROX_THRESHOLD: watchTh,
     EXEC_PROX_THRESHOLD: execTh,
 
     CALLDATA_BYTES: Math.trunc(num("CALLDATA_BYTES", 64)),
     ARB_GASINFO_ADDR: str("ARB_GASINFO_ADDR", "0x000000000000000000000000000000000000006C"),
+    OP_GAS_PRICE_ORACLE_ADDR: str("OP_GAS_PRICE_ORACLE_ADDR", "0x420000000000000000000000000000000000000F"),
 
     BUDGET_WEEKLY_USD: num("BUDGET_WEEKLY_USD", 10),
     BUDGET_DAILY_USD: num("BUDGET_DAILY_USD", 2),
@@ -139,6 +217,12 @@ export function loadConfig(): AppConfig {
     GAS_PRICE_MULTIPLIER: num("GAS_PRICE_MULTIPLIER", 1.5), // Aggressive bidding (was 1.15)
     SLIPPAGE_BPS: Math.trunc(num("SLIPPAGE_BPS", 50)),       // 0.5% max slippage
     FLASHLOAN_FEE_BPS: Math.trunc(num("FLASHLOAN_FEE_BPS", 5)),
+    ETH_USD_FEED: str(
+      "ETH_USD_FEED",
+      isBase
+        ? "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70" // Base
+        : "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612" // Arbitrum
+    ),
     ETH_PRICE_USD: optNum("ETH_PRICE_USD"),
 
     // Safety / Risk Management (Strict Defaults)
@@ -163,6 +247,32 @@ export function loadConfig(): AppConfig {
         ? getAddress("0xe20fCBdBfFC4Dd138cE8b2E6FBb6CB49777ad64D") // Base (Canonical)
         : getAddress("0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb") // Arbitrum (Canonical)
     ),
+    AAVE_POOL_VERSION: poolVersion("AAVE_POOL_VERSION", "3.3"),
+
+    LOGS_MAX_WINDOW: Math.trunc(num("LOGS_MAX_WINDOW", 10_000)),
+    LOGS_MIN_WINDOW: Math.trunc(num("LOGS_MIN_WINDOW", 10)),
+    MINER_SPAN_BLOCKS: Math.trunc(num("MINER_SPAN_BLOCKS", 10_000)),
+    MINER_BACKFILL_FLOOR: Math.trunc(num("MINER_BACKFILL_FLOOR", 10_000_000)),
+    MINER_RPC_BUDGET: Math.trunc(num("MINER_RPC_BUDGET", 20)),
+    MINER_HEAD_RESERVE: Math.trunc(num("MINER_HEAD_RESERVE", 5)),
+    MINER_INTERVAL_MS: Math.trunc(num("MINER_INTERVAL_MS", 2000)),
+    MINER_REORG_DEPTH: Math.trunc(num("MINER_REORG_DEPTH", 64)),
+
+    SENTRY_INTERVAL_MS: Math.trunc(num("SENTRY_INTERVAL_MS", 1000)),
+    SENTRY_BATCH_SIZE: Math.max(1, Math.trunc(num("SENTRY_BATCH_SIZE", 50))),
+    SNIPER_INTERVAL_MS: Math.trunc(num("SNIPER_INTERVAL_MS", 2000)),
+    SNIPER_CONCURRENCY: Math.max(1, Math.trunc(num("SNIPER_CONCURRENCY", 5))),
+    RUN_RESTART_MS: Math.trunc(num("RUN_RESTART_MS", 2000)),
+    ARTIFACT_MAX_AGE_MS: Math.trunc(num("ARTIFACT_MAX_AGE_MS", 90_000)),
+    CANDIDATE_TTL_MS: Math.max(0, Math.trunc(num("CANDIDATE_TTL_MS", 600_000))),
+    HOT_QUEUE_SIZE: Math.max(1, Math.trunc(num("HOT_QUEUE_SIZE", 100))),
+    IPC_ENABLED: bool("IPC_ENABLED", true),
+    IPC_PATH: str("IPC_PATH", ""),
+    IPC_RECONNECT_MS: Math.max(100, Math.trunc(num("IPC_RECONNECT_MS", 1000))),
+
+    PRICE_FEEDS_ENABLED: bool("PRICE_FEEDS_ENABLED", true),
+    PRICE_TRIGGER_MAX_HF: num("PRICE_TRIGGER_MAX_HF", 1.25),
+    PRICE_FEED_RESOLVE_MS: Math.trunc(num("PRICE_FEED_RESOLVE_MS", 3_600_000)),
 
     // Aggressive Gas Strategy: Priority Fee (Miner Tip)
     TX_PRIORITY_FEE_WEI: BigInt(process.env.TX_PRIORITY_FEE_WEI ?? "3000000000"), // Default 3 gwei
@@ -173,19 +283,50 @@ export function loadConfig(): AppConfig {
 
     UNISWAP_V3_SWAPROUTER02: str(
       "UNISWAP_V3_SWAPROUTER02",
-      "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45"
+      isBase ? "0x2626664c2603336E57B271c5C0b26F421741e481" : "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45"
     ),
     UNISWAP_V3_QUOTER_V2: str(
       "UNISWAP_V3_QUOTER_V2",
-      "0x61fFE014bA17989E743c5F6cB21bF9697530B21e"
+      isBase ? "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a" : "0x61fFE014bA17989E743c5F6cB21bF9697530B21e"
+    ),
+    UNISWAP_V3_FACTORY: str(
+      "UNISWAP_V3_FACTORY",
+      isBase ? "0x33128a8fC17869897dcE68Ed026d694621f6FDfD" : "0x1F98431c8aD98523631AE4a59f267346ea31F984"
     ),
     WETH_ADDRESS: str(
       "WETH_ADDRESS",
-      "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1"
+      isBase ? "0x4200000000000000000000000000000000000006" : "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1"
     ),
 
     QUOTE_ENABLED: bool("QUOTE_ENABLED", true),
     QUOTE_FEES: listNums("QUOTE_FEES", [500, 3000, 10000]),
+    SWAP_INTERMEDIATES: listStrs(
+      "SWAP_INTERMEDIATES",
+      isBase
+        ? [
+            "0x4200000000000000000000000000000000000006", // WETH
+            "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // USDC
+            "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA", // USDbC
+            "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb", // DAI
+          ]
+        : [
+            "0x82af49447d8a07e3bd95bd0d56f35241523fbab1", // WETH
+            "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", // USDC
+            "0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9", // USDT
+            "0xda10009cbd5d07dd0cecc66161fc93d7c9000da1", // DAI
+          ]
+    ),
+    PAIR_QUOTE_TOP: Math.max(1, Math.trunc(num("PAIR_QUOTE_TOP", 3))),
+    SWAP_STRATEGY: swapStrategy("SWAP_STRATEGY", "sell_all"),
+    QUOTE_V3_LOCAL: bool("QUOTE_V3_LOCAL", true),
+
+    DEX_ALGEBRA_QUOTER: str("DEX_ALGEBRA_QUOTER", ""),
+    DEX_ALGEBRA_ROUTER: str("DEX_ALGEBRA_ROUTER", ""),
+    DEX_SOLIDLY_ROUTER: str("DEX_SOLIDLY_ROUTER", ""),
+    DEX_SOLIDLY_FACTORY: str("DEX_SOLIDLY_FACTORY", ""),
+    DEX_CURVE_POOLS: listStrs("DEX_CURVE_POOLS"),
+    DEX_BALANCER_VAULT: str("DEX_BALANCER_VAULT", ""),
+    DEX_BALANCER_POOL_IDS: listStrs("DEX_BALANCER_POOL_IDS"),
   };
 }
 
@@ -0,0 +1,107 @@
+import type { PoolVersion } from "./liquidationRules";
+
+/**
+ * Aave V3 fixed-point math (WadRayMath, PercentageMath, MathUtils, TokenMath), bigint ports.
+ * Rounding follows the Solidity libraries exactly so local results match the Pool bit for bit.
+ */
+
+export const WAD = 10n ** 18n;
+export const HALF_WAD = WAD / 2n;
+export const RAY = 10n ** 27n;
+export const HALF_RAY = RAY / 2n;
+export const PERCENTAGE_FACTOR = 10_000n;
+export const HALF_PERCENTAGE_FACTOR = PERCENTAGE_FACTOR / 2n;
+export const SECONDS_PER_YEAR = 365n * 24n * 3600n;
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+export function rayMul(a: bigint, b: bigint): bigint {
+    return (a * b + HALF_RAY) / RAY;
+}
+
+export function rayMulFloor(a: bigint, b: bigint): bigint {
+    return (a * b) / RAY;
+}
+
+export function rayMulCeil(a: bigint, b: bigint): bigint {
+    return ceilDiv(a * b, RAY);
+}
+
+export function rayDiv(a: bigint, b: bigint): bigint {
+    return (a * RAY + b / 2n) / b;
+}
+
+export function wadMul(a: bigint, b: bigint): bigint {
+    return (a * b + HALF_WAD) / WAD;
+}
+
+export function wadDiv(a: bigint, b: bigint): bigint {
+    return (a * WAD + b / 2n) / b;
+}
+
+export function percentMul(value: bigint, pct: bigint): bigint {
+    return (value * pct + HALF_PERCENTAGE_FACTOR) / PERCENTAGE_FACTOR;
+}
+
+export function percentDiv(value: bigint, pct: bigint): bigint {
+    return (value * PERCENTAGE_FACTOR + pct / 2n) / pct;
+}
+
+export function percentDivCeil(value: bigint, pct: bigint): bigint {
+    return ceilDiv(value * PERCENTAGE_FACTOR, pct);
+}
+
+/** MathUtils.mulDivCeil */
+export function mulDivCeil(a: bigint, b: bigint, c: bigint): bigint {
+    return ceilDiv(a * b, c);
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b;
+}
+
+/** MathUtils.calculateLinearInterest: supply side accrual. */
+export function calculateLinearInterest(rate: bigint, lastUpdate: bigint, now: bigint): bigint {
+    return RAY + (rate * (now - lastUpdate)) / SECONDS_PER_YEAR;
+}
+
+/** MathUtils.calculateCompoundedInterest: borrow side, 3-term binomial approximation (3.6: Taylor terms of rate * dt). */
+export function calculateCompoundedInterest(rate: bigint, lastUpdate: bigint, now: bigint, version: PoolVersion = "3.3"): bigint {
+    const exp = now - lastUpdate;
+    if (exp <= 0n) return RAY;
+
+    if (version === "3.6") {
+        const x = (rate * exp) / SECONDS_PER_YEAR;
+        return RAY + x + rayMul(x, x / 2n + rayMul(x, x / 6n));
+    }
+
+    const expMinusOne = exp - 1n;
+    const expMinusTwo = exp > 2n ? exp - 2n : 0n;
+    const basePowerTwo = rayMul(rate, rate) / (SECONDS_PER_YEAR * SECONDS_PER_YEAR);
+    const basePowerThree = rayMul(basePowerTwo, rate) / SECONDS_PER_YEAR;
+
+    const secondTerm = (exp * expMinusOne * basePowerTwo) / 2n;
+    const thirdTerm = (exp * expMinusOne * expMinusTwo * basePowerThree) / 6n;
+    return RAY + (rate * exp) / SECONDS_PER_YEAR + secondTerm + thirdTerm;
+}
+
+/** ReserveLogic.getNormalizedIncome */
+export function normalizedIncome(liquidityIndex: bigint, liquidityRate: bigint, lastUpdate: bigint, now: bigint): bigint {
+    if (now <= lastUpdate) return liquidityIndex;
+    return rayMul(calculateLinearInterest(liquidityRate, lastUpdate, now), liquidityIndex);
+}
+
+/** ReserveLogic.getNormalizedDebt */
+export function normalizedDebt(variableBorrowIndex: bigint, variableBorrowRate: bigint, lastUpdate: bigint, now: bigint, version: PoolVersion = "3.3"): bigint {
+    if (now <= lastUpdate) return variableBorrowIndex;
+    return rayMul(calculateCompoundedInterest(variableBorrowRate, lastUpdate, now, version), variableBorrowIndex);
+}
+
+/** aToken balance of a scaled balance; 3.6 rounds it down (TokenMath.getATokenBalance). */
+export function aTokenBalance(scaled: bigint, income: bigint, version: PoolVersion = "3.3"): bigint {
+    return version === "3.6" ? rayMulFloor(scaled, income) : rayMul(scaled, income);
+}
+
+/** Variable debt of a scaled balance; 3.6 rounds it up (TokenMath.getVTokenBalance). */
+export function variableDebtBalance(scaled: bigint, index: bigint, version: PoolVersion = "3.3"): bigint {
+    return version === "3.6" ? rayMulCeil(scaled, index) : rayMul(scaled, index);
+}
@@ -0,0 +1,100 @@
+/**
+ * Sentry candidate state across cycles: one entry per borrower, merged on every observation and
+ * expired `ttlMs` after it was last seen. A watch user checked in an earlier rotation chunk stays
+ * visible to the planner until it recovers (removed) or goes unseen for the TTL.
+ */
+export type BookCandidate = {
+    borrower: string;
+    healthFactor: number;
+    status: string;                 // "exec_ready" ranks first
+    liqDistancePct?: number | null; // % price move to liquidation, nearest first
+};
+
+export type HfPoint = { ts: string; hf: number };
+
+export type BookEntry<C extends BookCandidate> = C & {
+    firstSeen: string;
+    lastSeen: string;
+    hfHistory: HfPoint[]; // oldest first, at most `historyLen` points
+};
+
+export type CandidateBookOpts = {
+    ttlMs: number;
+    hotSize: number;     // hot() length (HOT_QUEUE_SIZE)
+    historyLen?: number; // default 32
+};
+
+export class CandidateBook<C extends BookCandidate> {
+    private entries = new Map<string, BookEntry<C>>(); // lowercased borrower
+    private readonly historyLen: number;
+
+    constructor(private readonly opts: CandidateBookOpts) {
+        this.historyLen = Math.max(1, opts.historyLen ?? 32);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(borrower: string): BookEntry<C> | undefined {
+        return this.entries.get(borrower.toLowerCase());
+    }
+
+    /** Latest observation wins; first-seen time and HF history carry over. */
+    upsert(c: C, now: number = Date.now()): BookEntry<C> {
+        const key = c.borrower.toLowerCase();
+        const ts = new Date(now).toISOString();
+        const prev = this.entries.get(key);
+        const hfHistory = [...(prev?.hfHistory ?? []), { ts, hf: c.healthFactor }].slice(-this.historyLen);
+        const entry: BookEntry<C> = { ...c, firstSeen: prev?.firstSeen ?? ts, lastSeen: ts, hfHistory };
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    /** The borrower recovered (below watch, dust, blacklisted). */
+    remove(borrower: string): boolean {
+        return this.entries.delete(borrower.toLowerCase());
+    }
+
+    /** Drops entries not seen for `ttlMs`; returns them. */
+    expire(now: number = Date.now()): BookEntry<C>[] {
+        const out: BookEntry<C>[] = [];
+        for (const [key, e] of this.entries) {
+            if (now - Date.parse(e.lastSeen) >= this.opts.ttlMs) {
+                this.entries.delete(key);
+                out.push(e);
+            }
+        }
+        return out;
+    }
+
+    /** Re-seeds from a previous run's rows, skipping those already past the TTL. */
+    restore(rows: BookEntry<C>[], now: number = Date.now()): number {
+        let n = 0;
+        for (const r of rows) {
+            const seen = Date.parse(r.lastSeen);
+            if (!Number.isFinite(seen) || now - seen >= this.opts.ttlMs) continue;
+            const key = r.borrower.toLowerCase();
+            const cur = this.entries.get(key);
+            if (cur && Date.parse(cur.lastSeen) >= seen) continue;
+            this.entries.set(key, { ...r, hfHistory: (r.hfHistory ?? []).slice(-this.historyLen) });
+            n++;
+        }
+        return n;
+    }
+
+    /** Every entry, exec_ready first, then closest to liquidation (% move, then HF). */
+    ranked(): BookEntry<C>[] {
+        return Array.from(this.entries.values()).sort(
+            (a, b) =>
+                Number(b.status === "exec_ready") - Number(a.status === "exec_ready") ||
+                (a.liqDistancePct ?? Infinity) - (b.liqDistancePct ?? Infinity) ||
+                a.healthFactor - b.healthFactor
+        );
+    }
+
+    /** The planner's view: the top `hotSize` of ranked(). */
+    hot(): BookEntry<C>[] {
+        return this.ranked().slice(0, Math.max(0, this.opts.hotSize));
+    }
+}
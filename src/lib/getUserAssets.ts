@@ -1,97 +1,139 @@
-import { Address, parseAbi } from "viem";
-import { createPublicClient, http } from "viem";
-import { arbitrum } from "viem/chains";
+import { Address } from "viem";
+import { AaveScanner } from "../services/aaveScanner";
+import { HealthEngine } from "../services/healthEngine";
+import { aTokenBalance, normalizedDebt, normalizedIncome, variableDebtBalance } from "./aaveMath";
 
-const client = createPublicClient({
-    chain: arbitrum,
-    transport: http(process.env.ARB_RPC_URL)
-});
+const ZERO = "0x0000000000000000000000000000000000000000" as Address;
 
-// Top 6 reserves on Arbitrum Aave V3
-const TOP_RESERVES: Address[] = [
-    "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", // USDC
-    "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", // USDT
-    "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", // WETH
-    "0x912CE59144191C1204E64559FE8253a0e49E6548", // ARB
-    "0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f", // WBTC
-    "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", // DAI
-];
+export type UserAsset = {
+    asset: Address;
+    symbol: string;
+    decimals: number;
+    price: bigint;             // oracle, base currency (8 decimals)
+    priceUsd: number;
+    collateral: bigint;        // aToken balance, underlying units
+    collateralUsd: number;
+    usageAsCollateral: boolean; // enabled by the user and LT > 0 => seizable
+    collateralEnabledByUser: boolean;
+    debt: bigint;              // variable debt, underlying units
+    debtUsd: number;
+    liquidationThreshold: number; // bps; eMode LT when the collateral is in the user's category
+    liquidationBonus: number;     // bps, 10500 = 5%; eMode bonus likewise
+    liquidationProtocolFee: number; // bps of the bonus taken by the treasury
+    inEMode: boolean;
+    isActive: boolean;
+    isFrozen: boolean;         // frozen reserves can still be liquidated
+    isPaused: boolean;
+    debtCeiling: bigint;       // > 0: isolated collateral
+};
 
-export async function getUserAssets(user: Address, poolAddressProvider: Address, poolAddr: Address) {
-    // Get PoolDataProvider
-    const poolDataProviderAddr = await client.readContract({
-        address: poolAddressProvider,
-        abi: parseAbi(["function getPoolDataProvider() external view returns (address)"]),
-        functionName: "getPoolDataProvider"
-    }) as Address;
+export type UserAssets = {
+    user: Address;
+    eModeCategory: number;
+    eModeLabel: string | null;
+    isolated: boolean;         // the only enabled collateral is an isolated asset
+    healthFactor: bigint;      // wad, same math as the Pool
+    totalDebtBase: bigint;     // base currency (8 decimals)
+    assets: UserAsset[];       // every reserve with a balance, largest USD first
+    bestDebt: Address;
+    bestCollateral: Address;
+    bestDebtAmount: bigint;
+    bestCollateralAmount: bigint;
+};
 
-    // Get reserve prices
-    const oracle = await client.readContract({
-        address: poolAddressProvider,
-        abi: parseAbi(["function getPriceOracle() external view returns (address)"]),
-        functionName: "getPriceOracle"
-    }) as Address;
+const MARKET_TTL_MS = 30_000;
+let defaultLoader: ((user: Address) => Promise<UserAssets>) | null = null;
 
-    let bestDebt: Address | null = null;
-    let bestCollateral: Address | null = null;
-    let maxDebtValue = 0;
-    let maxCollateralValue = 0;
-    let bestDebtAmount: bigint = 0n;
-
-    for (const reserveAsset of TOP_RESERVES) {
-        // Get token addresses
-        const [aTokenAddr, , varDebtTokenAddr] = await client.readContract({
-            address: poolDataProviderAddr,
-            abi: parseAbi(["function getReserveTokensAddresses(address asset) external view returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)"]),
-            functionName: "getReserveTokensAddresses",
-            args: [reserveAsset]
-        }) as [Address, Address, Address];
-
-        // Get price
-        const price = await client.readContract({
-            address: oracle,
-            abi: parseAbi(["function getAssetPrice(address asset) external view returns (uint256)"]),
-            functionName: "getAssetPrice",
-            args: [reserveAsset]
-        }) as bigint;
-
-        // Check collateral
-        const aTokenBalance = await client.readContract({
-            address: aTokenAddr,
-            abi: parseAbi(["function balanceOf(address) external view returns (uint256)"]),
-            functionName: "balanceOf",
-            args: [user]
-        }) as bigint;
-
-        if (aTokenBalance > 0n) {
-            const value = Number(aTokenBalance * price) / 1e8;
-            if (value > maxCollateralValue) {
-                maxCollateralValue = value;
-                bestCollateral = reserveAsset;
-            }
+/**
+ * getUserAssets over a given scanner (shared RPC client in the run daemon). Reserves + prices are
+ * shared by every lookup for MARKET_TTL_MS (one getReservesData per planner run).
+ */
+export function userAssetsLoader(scanner: AaveScanner): (user: Address) => Promise<UserAssets> {
+    let market: { engine: HealthEngine; loadedAt: number } | null = null;
+    return async (user) => {
+        if (!market || Date.now() - market.loadedAt > MARKET_TTL_MS) {
+            market = { engine: await scanner.loadHealthEngine(), loadedAt: Date.now() };
         }
+        const engine = market.engine;
+        const [pos] = await scanner.getUserPositionsBatch([user]);
+        if (!pos) throw new Error(`getUserReservesData failed for ${user}`);
+        engine.setPosition(pos);
+        const assets = assetsFromEngine(engine, user);
+        if (!assets) throw new Error(`Unknown reserve in ${user}'s position`);
+        return assets;
+    };
+}
 
-        // Check debt
-        const debtBalance = await client.readContract({
-            address: varDebtTokenAddr,
-            abi: parseAbi(["function balanceOf(address) external view returns (uint256)"]),
-            functionName: "balanceOf",
-            args: [user]
-        }) as bigint;
+/**
+ * All of a user's Aave balances (every reserve, one getUserReservesData call) with prices and decimals.
+ * bestDebt / bestCollateral = largest USD debt / largest seizable collateral.
+ */
+export async function getUserAssets(user: Address): Promise<UserAssets> {
+    defaultLoader ??= userAssetsLoader(new AaveScanner());
+    return defaultLoader(user);
+}
 
-        if (debtBalance > 0n) {
-            const value = Number(debtBalance * price) / 1e8;
-            if (value > maxDebtValue) {
-                maxDebtValue = value;
-                bestDebt = reserveAsset;
-                bestDebtAmount = debtBalance;
-            }
-        }
+/** Same view from a HealthEngine that already holds the user's position (sentry); null when it doesn't. */
+export function assetsFromEngine(engine: HealthEngine, user: Address, now: bigint = BigInt(Math.floor(Date.now() / 1000))): UserAssets | null {
+    const pos = engine.position(user);
+    const account = engine.accountData(user, now);
+    if (!pos || !account) return null;
+    const emode = pos.eModeCategory !== 0 ? engine.eMode(pos.eModeCategory) : undefined;
+    const assets: UserAsset[] = [];
+    for (const ur of pos.reserves) {
+        const r = engine.reserve(ur.asset);
+        if (!r) continue;
+        const unit = 10 ** r.decimals;
+        const collateral = aTokenBalance(ur.scaledATokenBalance, normalizedIncome(r.liquidityIndex, r.liquidityRate, r.lastUpdateTimestamp, now), engine.version);
+        const debt = variableDebtBalance(ur.scaledVariableDebt, normalizedDebt(r.variableBorrowIndex, r.variableBorrowRate, r.lastUpdateTimestamp, now, engine.version), engine.version);
+        const priceUsd = Number(r.price) / 1e8;
+        const inEMode = emode !== undefined && ((emode.collateralBitmap >> BigInt(r.id)) & 1n) === 1n;
+        assets.push({
+            asset: r.asset as Address,
+            symbol: r.symbol,
+            decimals: r.decimals,
+            price: r.price,
+            priceUsd,
+            collateral,
+            collateralUsd: (Number(collateral) / unit) * priceUsd,
+            usageAsCollateral: ur.usageAsCollateral && r.liquidationThreshold > 0,
+            collateralEnabledByUser: ur.usageAsCollateral,
+            debt,
+            debtUsd: (Number(debt) / unit) * priceUsd,
+            liquidationThreshold: inEMode ? emode.liquidationThreshold : r.liquidationThreshold,
+            liquidationBonus: inEMode ? emode.liquidationBonus : r.liquidationBonus,
+            liquidationProtocolFee: r.liquidationProtocolFee,
+            inEMode,
+            isActive: r.isActive,
+            isFrozen: r.isFrozen,
+            isPaused: r.isPaused,
+            debtCeiling: r.debtCeiling,
+        });
     }
+    assets.sort((a, b) => (b.collateralUsd + b.debtUsd) - (a.collateralUsd + a.debtUsd));
+
+    let bestDebt: UserAsset | null = null;
+    let bestCollateral: UserAsset | null = null;
+    for (const a of assets) {
+        if (a.debt > 0n && (!bestDebt || a.debtUsd > bestDebt.debtUsd)) bestDebt = a;
+        if (a.usageAsCollateral && a.collateral > 0n && (!bestCollateral || a.collateralUsd > bestCollateral.collateralUsd)) bestCollateral = a;
+    }
+
+    // Isolation mode: a single enabled collateral with a debt ceiling
+    const enabled = assets.filter((a) => a.usageAsCollateral && a.collateral > 0n);
+    const isolated = enabled.length === 1 && enabled[0].debtCeiling > 0n;
 
     return {
-        bestDebt: bestDebt || "0x0000000000000000000000000000000000000000" as Address,
-        bestCollateral: bestCollateral || "0x0000000000000000000000000000000000000000" as Address,
-        bestDebtAmount
+        user,
+        eModeCategory: pos.eModeCategory,
+        eModeLabel: emode?.label ?? null,
+        isolated,
+        healthFactor: account.healthFactor,
+        totalDebtBase: account.totalDebtBase,
+        assets,
+        bestDebt: bestDebt?.asset ?? ZERO,
+        bestCollateral: bestCollateral?.asset ?? ZERO,
+        bestDebtAmount: bestDebt?.debt ?? 0n,
+        bestCollateralAmount: bestCollateral?.collateral ?? 0n,
     };
 }
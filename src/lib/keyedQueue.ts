@@ -0,0 +1,49 @@
+/**
+ * In-process hand-off between run daemon roles: the latest item per key, in arrival order.
+ * The consumer awaits the next push (or a timeout) instead of polling a file.
+ */
+export class KeyedQueue<T> {
+    private items = new Map<string, T>();
+    private waiters: (() => void)[] = [];
+
+    get size(): number {
+        return this.items.size;
+    }
+
+    /** Replaces any queued item with the same key (it moves to the back) and wakes the consumer. */
+    push(key: string, item: T) {
+        this.items.delete(key);
+        this.items.set(key, item);
+        const waiters = this.waiters;
+        this.waiters = [];
+        for (const wake of waiters) wake();
+    }
+
+    /** Drops a queued item (e.g. the borrower recovered before it was consumed). */
+    delete(key: string): boolean {
+        return this.items.delete(key);
+    }
+
+    /** Returns and clears everything queued, oldest first. */
+    drain(): T[] {
+        const out = Array.from(this.items.values());
+        this.items.clear();
+        return out;
+    }
+
+    /** Resolves at once when something is queued, else on the next push, after `timeoutMs` or on abort. */
+    wait(timeoutMs: number, signal?: AbortSignal): Promise<void> {
+        if (this.items.size > 0 || signal?.aborted) return Promise.resolve();
+        return new Promise((resolve) => {
+            const done = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", done);
+                this.waiters = this.waiters.filter((w) => w !== done);
+                resolve();
+            };
+            const timer = setTimeout(done, timeoutMs);
+            signal?.addEventListener("abort", done, { once: true });
+            this.waiters.push(done);
+        });
+    }
+}
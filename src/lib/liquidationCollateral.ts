@@ -0,0 +1,64 @@
+import { percentDiv, percentDivCeil, percentMul } from "./aaveMath";
+
+export type CollateralToLiquidateInput = {
+    debtToCover: bigint;            // debt units (already clipped to the close factor)
+    userCollateralBalance: bigint;  // aToken balance, collateral units
+    debtPrice: bigint;              // oracle, base currency
+    collateralPrice: bigint;
+    debtDecimals: number;
+    collateralDecimals: number;
+    liquidationBonus: number;       // bps, eMode-aware (10500 = 5%)
+    liquidationProtocolFee: number; // bps of the bonus, collateral reserve config
+    debtNeededRoundsUp?: boolean;   // 3.6: percentDivCeil on a balance-capped seize
+};
+
+export type CollateralToLiquidate = {
+    collateralToLiquidator: bigint; // what the liquidator receives
+    protocolFee: bigint;            // bonus share sent to the treasury
+    collateralTotal: bigint;        // leaves the user: liquidator + fee
+    debtAmountNeeded: bigint;       // debt actually repaid
+    capped: boolean;                // the user's balance was the limit
+};
+
+/**
+ * LiquidationLogic._calculateAvailableCollateralToLiquidate, operation for operation
+ * (integer division and PercentageMath rounding included), so amounts match the Pool to the wei.
+ */
+export function calculateAvailableCollateralToLiquidate(i: CollateralToLiquidateInput): CollateralToLiquidate {
+    const collateralAssetUnit = 10n ** BigInt(i.collateralDecimals);
+    const debtAssetUnit = 10n ** BigInt(i.debtDecimals);
+    const bonus = BigInt(i.liquidationBonus);
+
+    // Base collateral for the debt to cover, then the bonus on top
+    const baseCollateral = (i.debtPrice * i.debtToCover * collateralAssetUnit) / (i.collateralPrice * debtAssetUnit);
+    const maxCollateralToLiquidate = percentMul(baseCollateral, bonus);
+
+    let collateralAmount: bigint;
+    let debtAmountNeeded: bigint;
+    let capped = false;
+    if (maxCollateralToLiquidate > i.userCollateralBalance) {
+        collateralAmount = i.userCollateralBalance;
+        debtAmountNeeded = (i.debtNeededRoundsUp ? percentDivCeil : percentDiv)(
+            (i.collateralPrice * collateralAmount * debtAssetUnit) / (i.debtPrice * collateralAssetUnit),
+            bonus,
+        );
+        capped = true;
+    } else {
+        collateralAmount = maxCollateralToLiquidate;
+        debtAmountNeeded = i.debtToCover;
+    }
+
+    let protocolFee = 0n;
+    if (i.liquidationProtocolFee !== 0) {
+        const bonusCollateral = collateralAmount - percentDiv(collateralAmount, bonus);
+        protocolFee = percentMul(bonusCollateral, BigInt(i.liquidationProtocolFee));
+    }
+
+    return {
+        collateralToLiquidator: collateralAmount - protocolFee,
+        protocolFee,
+        collateralTotal: collateralAmount,
+        debtAmountNeeded,
+        capped,
+    };
+}
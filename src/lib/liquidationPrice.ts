@@ -0,0 +1,76 @@
+import type { ReserveValue } from "../services/healthEngine";
+
+export type AssetLiquidation = {
+    asset: string;
+    side: "collateral" | "debt"; // collateral: liquidated on a price drop; debt: on a price rise
+    price: bigint;               // current oracle price (base currency)
+    liquidationPrice: bigint | null; // null: this asset alone can't take HF below 1
+    distancePct: number | null;  // move needed, always >= 0 (0 = already liquidatable)
+};
+
+/**
+ * Price of each asset (all else fixed) at which HF crosses 1.
+ * With S = Σ collateral·LT, D = Σ debt, and a / d the asset's LT-weighted collateral / debt,
+ * scaling its price by m gives S - a + m·a = D - d + m·d  =>  m = ((D - d) - (S - a)) / (a - d).
+ */
+export function liquidationPrices(values: ReserveValue[]): AssetLiquidation[] {
+    const BPS = 10_000n;
+    let S = 0n;
+    let D = 0n;
+    for (const v of values) {
+        S += v.collateralBase * BigInt(v.liquidationThreshold);
+        D += v.debtBase * BPS;
+    }
+    if (D === 0n) return [];
+
+    const out: AssetLiquidation[] = [];
+    for (const v of values) {
+        const a = v.collateralBase * BigInt(v.liquidationThreshold);
+        const d = v.debtBase * BPS;
+        if (a === d) continue; // price-neutral (e.g. same asset supplied and borrowed)
+
+        const side = a > d ? "collateral" : "debt";
+        const num = (D - d) - (S - a);
+        const den = a - d;
+        // m <= 0: even a worthless collateral (or free debt) leaves HF >= 1
+        if (num === 0n || (num > 0n) !== (den > 0n)) {
+            out.push({ asset: v.asset, side, price: v.price, liquidationPrice: null, distancePct: null });
+            continue;
+        }
+
+        const m = Number(num) / Number(den);
+        const liquidationPrice = (v.price * num) / den;
+        const distance = side === "collateral" ? 1 - m : m - 1;
+        out.push({ asset: v.asset, side, price: v.price, liquidationPrice, distancePct: Math.max(0, distance * 100) });
+    }
+    return out;
+}
+
+/** The single-asset move closest to liquidation. */
+export function nearestLiquidation(list: AssetLiquidation[]): AssetLiquidation | null {
+    let best: AssetLiquidation | null = null;
+    for (const l of list) {
+        if (l.distancePct === null) continue;
+        if (!best || l.distancePct < best.distancePct!) best = l;
+    }
+    return best;
+}
+
+/** JSON-friendly form (USD, base currency has 8 decimals) for candidates / the universe store. */
+export type LiquidationQuote = {
+    asset: string;
+    side: "collateral" | "debt";
+    priceUsd: number;
+    liquidationPriceUsd: number | null;
+    distancePct: number | null;
+};
+
+export function toQuote(l: AssetLiquidation): LiquidationQuote {
+    return {
+        asset: l.asset,
+        side: l.side,
+        priceUsd: Number(l.price) / 1e8,
+        liquidationPriceUsd: l.liquidationPrice === null ? null : Number(l.liquidationPrice) / 1e8,
+        distancePct: l.distancePct,
+    };
+}
@@ -0,0 +1,176 @@
+import { percentDiv, percentMul } from "./aaveMath";
+import { calculateAvailableCollateralToLiquidate } from "./liquidationCollateral";
+
+/**
+ * LiquidationLogic sizing rules, per Pool version.
+ * 3.0-3.2: close factor 50% of the debt reserve, 100% once HF < 0.95.
+ * 3.3:     50% of the *total* debt (in base), 100% once HF < 0.95 or when the debt reserve or the
+ *          collateral reserve is worth less than $2000; a partial liquidation must leave at least
+ *          $1000 of both the debt and the collateral reserve (MUST_NOT_LEAVE_DUST).
+ * 3.6:     the 3.3 rules; balances round in the Pool's favour (TokenMath) and the debt repaid for a
+ *          balance-capped seize rounds up.
+ */
+export type PoolVersion = "3.0" | "3.1" | "3.2" | "3.3" | "3.6";
+
+export const POOL_VERSIONS: readonly PoolVersion[] = ["3.0", "3.1", "3.2", "3.3", "3.6"];
+export const DEFAULT_LIQUIDATION_CLOSE_FACTOR = 5000n;                  // bps
+export const CLOSE_FACTOR_HF_THRESHOLD = 95n * 10n ** 16n;              // 0.95 wad
+export const MIN_BASE_MAX_CLOSE_FACTOR_THRESHOLD = 2000n * 10n ** 8n;   // base currency (USD, 8 decimals)
+export const MIN_LEFTOVER_BASE = 1000n * 10n ** 8n;
+
+export type ReserveSide = {
+    amount: bigint;     // user balance, underlying units
+    price: bigint;      // base currency
+    decimals: number;
+};
+
+export type LiquidationInput = {
+    version: PoolVersion;
+    healthFactor: bigint;     // wad
+    totalDebtBase: bigint;    // all of the user's debt, base currency
+    debt: ReserveSide;
+    collateral: ReserveSide & { liquidationBonus: number; liquidationProtocolFee: number }; // bps; bonus eMode-aware
+    debtToCover?: bigint;     // requested; default: as much as the pool allows
+};
+
+export type LiquidationSize = {
+    debtToCover: bigint;
+    collateralToSeize: bigint;    // to the liquidator, bonus included, protocol fee excluded
+    protocolFee: bigint;          // collateral units, to the treasury
+    maxLiquidatableDebt: bigint;  // close-factor cap on this debt reserve
+    fullClose: boolean;           // close factor is 100% of the reserve
+    limitedBy: "closeFactor" | "collateral" | "requested" | "dust";
+    dust: "ok" | "adjusted" | "violation";
+    note: string | null;
+};
+
+/** 3.3 onwards: close factor on the total debt, dust rule. */
+function closesOnTotalDebt(version: PoolVersion): boolean {
+    return version === "3.3" || version === "3.6";
+}
+
+export function maxLiquidatableDebt(input: Omit<LiquidationInput, "debtToCover">): { max: bigint; fullClose: boolean } {
+    const { version, healthFactor, debt } = input;
+    const reserveDebt = debt.amount;
+    if (healthFactor <= CLOSE_FACTOR_HF_THRESHOLD) return { max: reserveDebt, fullClose: true };
+
+    if (!closesOnTotalDebt(version)) {
+        return { max: percentMul(reserveDebt, DEFAULT_LIQUIDATION_CLOSE_FACTOR), fullClose: false };
+    }
+
+    const debtBase = debtToBase(reserveDebt, input);
+    const collateralBase = toBase(input.collateral.amount, input.collateral);
+    if (debtBase < MIN_BASE_MAX_CLOSE_FACTOR_THRESHOLD || collateralBase < MIN_BASE_MAX_CLOSE_FACTOR_THRESHOLD) {
+        return { max: reserveDebt, fullClose: true };
+    }
+    const halfTotal = percentMul(input.totalDebtBase, DEFAULT_LIQUIDATION_CLOSE_FACTOR);
+    if (debtBase <= halfTotal) return { max: reserveDebt, fullClose: false };
+    return { max: (halfTotal * unit(debt)) / debt.price, fullClose: false };
+}
+
+type Fit = { debt: bigint; collateral: bigint; fee: bigint; capped: boolean };
+
+/** The Pool's seized-collateral math for `debtToCover`; the debt shrinks to match when the balance caps it. */
+function fitDebt(debtToCover: bigint, input: Pick<LiquidationInput, "version" | "debt" | "collateral">): Fit {
+    const { debt, collateral } = input;
+    const r = calculateAvailableCollateralToLiquidate({
+        debtToCover,
+        userCollateralBalance: collateral.amount,
+        debtPrice: debt.price,
+        collateralPrice: collateral.price,
+        debtDecimals: debt.decimals,
+        collateralDecimals: collateral.decimals,
+        liquidationBonus: collateral.liquidationBonus,
+        liquidationProtocolFee: collateral.liquidationProtocolFee,
+        debtNeededRoundsUp: input.version === "3.6",
+    });
+    return { debt: r.debtAmountNeeded, collateral: r.collateralToLiquidator, fee: r.protocolFee, capped: r.capped };
+}
+
+/**
+ * Largest debtToCover the Pool accepts for this pair (or the requested amount, clipped), sized so
+ * the call won't revert on the dust rule: a partial liquidation that would leave dust is shrunk,
+ * and flagged as a violation when nothing is left to repay.
+ */
+export function sizeLiquidation(input: LiquidationInput): LiquidationSize {
+    const { max, fullClose } = maxLiquidatableDebt(input);
+    const requested = input.debtToCover ?? max;
+    let limitedBy: LiquidationSize["limitedBy"] = requested < max ? "requested" : "closeFactor";
+    let fit = fitDebt(requested < max ? requested : max, input);
+    if (fit.capped) limitedBy = "collateral";
+
+    const out = (dust: LiquidationSize["dust"], note: string | null): LiquidationSize => ({
+        debtToCover: fit.debt,
+        collateralToSeize: fit.collateral,
+        protocolFee: fit.fee,
+        maxLiquidatableDebt: max,
+        fullClose,
+        limitedBy,
+        dust,
+        note,
+    });
+
+    const leftover = dustLeft(input, fit.debt, fit.collateral + fit.fee);
+    if (!closesOnTotalDebt(input.version) || leftover === null) return out("ok", null);
+
+    // Shrink until both leftovers are >= MIN_LEFTOVER_BASE
+    const minDebtLeft = ceilDiv(MIN_LEFTOVER_BASE * unit(input.debt), input.debt.price);
+    const minCollLeft = ceilDiv(MIN_LEFTOVER_BASE * unit(input.collateral), input.collateral.price);
+    let debtCap = input.debt.amount - minDebtLeft;
+    if (input.collateral.amount > minCollLeft) {
+        const collCap = input.collateral.amount - minCollLeft;
+        const viaColl = fitDebt(debtFor(collCap, input), input);
+        if (viaColl.debt < debtCap) debtCap = viaColl.debt;
+    } else {
+        debtCap = 0n;
+    }
+    // Rounding: step down a few units until the contract's own check passes
+    let passed = false;
+    for (let i = 0; i < 8 && debtCap > 0n && !passed; i++) {
+        fit = fitDebt(debtCap < fit.debt ? debtCap : fit.debt, input);
+        passed = dustLeft(input, fit.debt, fit.collateral + fit.fee) === null;
+        debtCap = fit.debt - 1n;
+    }
+    limitedBy = "dust";
+    if (!passed || fit.debt <= 0n) {
+        fit = { debt: 0n, collateral: 0n, fee: 0n, capped: false };
+        return out("violation", leftover);
+    }
+    return out("adjusted", `reduced to keep >= $1000 in both reserves (${leftover})`);
+}
+
+/** The Pool's MUST_NOT_LEAVE_DUST check (`collateralOut` includes the protocol fee); null when it passes. */
+function dustLeft(input: LiquidationInput, debtToCover: bigint, collateralOut: bigint): string | null {
+    const { debt, collateral } = input;
+    if (debtToCover >= debt.amount || collateralOut >= collateral.amount) return null;
+    const debtLeft = debtToBase(debt.amount - debtToCover, input);
+    const collLeft = toBase(collateral.amount - collateralOut, collateral);
+    if (debtLeft >= MIN_LEFTOVER_BASE && collLeft >= MIN_LEFTOVER_BASE) return null;
+    const usd = (b: bigint) => `$${(Number(b) / 1e8).toFixed(2)}`;
+    return `would leave ${usd(debtLeft)} debt / ${usd(collLeft)} collateral`;
+}
+
+/** Debt that buys `seize` collateral (bonus included), before capping. */
+function debtFor(seize: bigint, input: Pick<LiquidationInput, "debt" | "collateral">): bigint {
+    const { debt, collateral } = input;
+    const base = (collateral.price * seize * unit(debt)) / (debt.price * unit(collateral));
+    return percentDiv(base, BigInt(collateral.liquidationBonus));
+}
+
+function toBase(amount: bigint, side: ReserveSide): bigint {
+    return (amount * side.price) / unit(side);
+}
+
+/** Debt in base currency: 3.6 rounds it up (MathUtils.mulDivCeil). */
+function debtToBase(amount: bigint, input: Pick<LiquidationInput, "version" | "debt">): bigint {
+    const { debt } = input;
+    return input.version === "3.6" ? ceilDiv(amount * debt.price, unit(debt)) : toBase(amount, debt);
+}
+
+function unit(side: { decimals: number }): bigint {
+    return 10n ** BigInt(side.decimals);
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b;
+}
@@ -0,0 +1,41 @@
+import fs from "node:fs";
+import { dataPath } from "./data_dir";
+import { logger } from "../logger";
+
+const RECHECK_FILE = "recheck.jsonl";
+
+/**
+ * Users whose on-chain state must be re-read out of rotation (e.g. after a reorg rewind).
+ * File based so a sentry running in another process picks them up too: pushes append one
+ * user per line (never a rewrite), the drain renames the file away before reading it, so a
+ * push racing a drain lands either in the drained batch or in the next one.
+ */
+export function pushRecheck(users: string[]) {
+    if (users.length === 0) return;
+    try {
+        fs.appendFileSync(dataPath(RECHECK_FILE), users.map((u) => u.toLowerCase()).join("\n") + "\n");
+    } catch (e) {
+        logger.error({ err: e }, "Failed to queue recheck users");
+    }
+}
+
+/** Returns and clears the queued users. */
+export function drainRecheck(): string[] {
+    const file = dataPath(RECHECK_FILE);
+    const draining = `${file}.${process.pid}.draining`;
+    try {
+        fs.renameSync(file, draining);
+    } catch (e: any) {
+        if (e?.code !== "ENOENT") logger.error({ err: e }, "Failed to drain recheck users");
+        return [];
+    }
+    try {
+        const text = fs.readFileSync(draining, "utf-8");
+        return Array.from(new Set(text.split("\n").map((l) => l.trim()).filter((l) => l.length > 0)));
+    } catch (e) {
+        logger.error({ err: e }, "Failed to read recheck users");
+        return [];
+    } finally {
+        fs.rmSync(draining, { force: true });
+    }
+}
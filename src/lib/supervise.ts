@@ -0,0 +1,41 @@
+import { logger } from "../logger";
+
+/** Sleeps `ms`, cut short by abort. */
+export function pause(ms: number, signal: AbortSignal): Promise<void> {
+    if (signal.aborted) return Promise.resolve();
+    return new Promise((resolve) => {
+        const done = () => {
+            clearTimeout(timer);
+            signal.removeEventListener("abort", done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal.addEventListener("abort", done, { once: true });
+    });
+}
+
+/** Runs a long-lived role until shutdown; a crash is logged and the role restarted after `restartMs`. */
+export async function supervise(role: string, signal: AbortSignal, restartMs: number, fn: (signal: AbortSignal) => Promise<unknown>) {
+    while (!signal.aborted) {
+        try {
+            await fn(signal);
+        } catch (e: any) {
+            logger.error({ role, err: e?.shortMessage ?? e?.message }, "run: role crashed, restarting");
+        }
+        await pause(restartMs, signal);
+    }
+    logger.info({ role }, "run: role stopped");
+}
+
+/** AbortSignal tripped by the first SIGINT / SIGTERM. */
+export function shutdownSignal(): AbortSignal {
+    const controller = new AbortController();
+    const stop = () => {
+        if (controller.signal.aborted) return;
+        logger.info("run: shutting down (finishing current cycles)...");
+        controller.abort();
+    };
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+    return controller.signal;
+}
@@ -0,0 +1,30 @@
+import fs from "node:fs";
+import { dataPath } from "./data_dir";
+
+export const HEAD_CURSOR_FILE = "sync_head.json";
+export const DEEP_CURSOR_FILE = "sync_deep.json";
+
+/**
+ * Miner progress pointers.
+ * - head: lastBlock = highest block fully fetched (walks forward)
+ * - deep: deepBlock = lowest block fully fetched (walks backward)
+ * window = last getLogs span that worked, so a restart resumes at the learned size.
+ * The head also keeps block hashes (lastHash + recent checkpoints) to detect reorgs.
+ */
+export type BlockCheckpoint = { block: string; hash: string };
+export type HeadCursor = { lastBlock: string; lastHash?: string; checkpoints?: BlockCheckpoint[]; window?: string; ts: string };
+export type DeepCursor = { deepBlock: string; window?: string; ts: string };
+
+export function readCursor<T>(file: string): T | null {
+    try {
+        const p = dataPath(file);
+        if (!fs.existsSync(p)) return null;
+        return JSON.parse(fs.readFileSync(p, "utf-8")) as T;
+    } catch {
+        return null;
+    }
+}
+
+export function writeCursor(file: string, data: object) {
+    fs.writeFileSync(dataPath(file), JSON.stringify({ ...data, ts: new Date().toISOString() }, null, 2));
+}
@@ -0,0 +1,412 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Address } from "viem";
+import { dataPath } from "./data_dir";
+import { logger } from "../logger";
+import type { AaveEventName, BorrowerActivity } from "../services/aaveEvents";
+import type { LiquidationQuote } from "./liquidationPrice";
+
+const SNAPSHOT_FILE = "universe.json";
+const JOURNAL_FILE = "universe.journal.jsonl";
+const LOCK_FILE = "universe.lock";
+const LEGACY_USERS_FILE = "borrowers.json";
+const LEGACY_ACTIVITY_FILE = "borrower_activity.json";
+
+export type ReserveTouch = {
+    collateral: boolean; // seen on the collateral side (Supply/Withdraw/UseAsCollateral)
+    debt: boolean;       // seen on the debt side (Borrow/Repay)
+    lastEvent: AaveEventName;
+    lastBlock: number;
+};
+
+export type BorrowerRecord = {
+    user: string;             // lowercase
+    firstSeenBlock: number;   // 0 = unknown (migrated)
+    lastActivityBlock: number;
+    reserves: Record<string, ReserveTouch>; // reserve (lowercase) -> touch
+    hf: number | null;        // last known health factor
+    debtUsd: number | null;
+    collateralUsd: number | null;
+    checkedAt: string | null;
+    nearestLiq: LiquidationQuote | null; // single-asset move closest to HF < 1 (when positions were loaded)
+    dormantSince: number | null; // closed position (no debt): lastActivityBlock when demoted; null = active
+};
+
+export type HealthUpdate = { hf: number; debtUsd: number; collateralUsd: number; nearestLiq?: LiquidationQuote | null };
+
+export type UniverseQuery = {
+    maxHf?: number;
+    minDebtUsd?: number;
+    debtIn?: string;
+    collateralIn?: string;
+    tier?: "active" | "dormant";
+    limit?: number;
+};
+
+// Journal lines are field-level patches so concurrent writers (miner, sentry) don't clobber each other
+type Patch =
+    | { u: string; t: "act"; first: number; last: number; borrow?: number; reserves: Record<string, ReserveTouch> }
+    | { u: string; t: "hf"; hf: number; debt: number; col: number; at: string; liq?: LiquidationQuote | null }
+    | { u: string; t: "del" };
+
+type Snapshot = { version: 1; savedAt: string; records: BorrowerRecord[] };
+
+export type UniverseStoreOpts = {
+    dir?: string;
+    compactAfter?: number; // journal lines before a snapshot rewrite
+};
+
+/**
+ * Embedded borrower universe: snapshot + append-only journal, indexed in memory.
+ * Shared between processes through the data dir; call refresh() to pick up other writers.
+ */
+export class UniverseStore {
+    private readonly dir: string;
+    private readonly compactAfter: number;
+    private recs = new Map<string, BorrowerRecord>();
+    private debtIdx = new Map<string, Set<string>>();
+    private collIdx = new Map<string, Set<string>>();
+    private journalOffset = 0;
+    private journalLines = 0;
+    private snapshotMtime = 0;
+    private membership = 0;
+
+    private constructor(opts: UniverseStoreOpts) {
+        this.dir = opts.dir ?? path.dirname(dataPath(SNAPSHOT_FILE));
+        this.compactAfter = opts.compactAfter ?? 20_000;
+    }
+
+    static open(opts: UniverseStoreOpts = {}): UniverseStore {
+        const s = new UniverseStore(opts);
+        fs.mkdirSync(s.dir, { recursive: true });
+        if (!fs.existsSync(s.file(SNAPSHOT_FILE)) && !fs.existsSync(s.file(JOURNAL_FILE))) s.migrateLegacy();
+        s.reload();
+        return s;
+    }
+
+    get size(): number {
+        return this.recs.size;
+    }
+
+    get(user: string): BorrowerRecord | undefined {
+        return this.recs.get(user.toLowerCase());
+    }
+
+    users(): Address[] {
+        return Array.from(this.recs.keys()) as Address[];
+    }
+
+    /** Users with an open position (or not checked yet): what the sentry rotates through. */
+    activeUsers(): Address[] {
+        const out: Address[] = [];
+        for (const r of this.recs.values()) if (r.dormantSince === null) out.push(r.user as Address);
+        return out;
+    }
+
+    dormantCount(): number {
+        let n = 0;
+        for (const r of this.recs.values()) if (r.dormantSince !== null) n++;
+        return n;
+    }
+
+    /** Bumped whenever a user is added, removed or changes tier; cheap change check for callers caching activeUsers(). */
+    get membershipVersion(): number {
+        return this.membership;
+    }
+
+    records(): IterableIterator<BorrowerRecord> {
+        return this.recs.values();
+    }
+
+    usersWithDebtIn(reserve: string): string[] {
+        return Array.from(this.debtIdx.get(reserve.toLowerCase()) ?? []);
+    }
+
+    usersWithCollateralIn(reserve: string): string[] {
+        return Array.from(this.collIdx.get(reserve.toLowerCase()) ?? []);
+    }
+
+    /** Users with collateral or debt in the reserve: everyone a price move in it can liquidate. */
+    usersExposedTo(reserve: string): string[] {
+        const r = reserve.toLowerCase();
+        return Array.from(new Set([...(this.collIdx.get(r) ?? []), ...(this.debtIdx.get(r) ?? [])]));
+    }
+
+    /** e.g. { maxHf: 1.3 } => risky users sorted by debt (largest first). */
+    query(q: UniverseQuery): BorrowerRecord[] {
+        let pool: Iterable<BorrowerRecord> = this.recs.values();
+        if (q.debtIn) pool = this.usersWithDebtIn(q.debtIn).map((u) => this.recs.get(u)!);
+        if (q.collateralIn) {
+            const coll = new Set(this.usersWithCollateralIn(q.collateralIn));
+            pool = Array.from(pool).filter((r) => coll.has(r.user));
+        }
+
+        const out: BorrowerRecord[] = [];
+        for (const r of pool) {
+            if (q.tier && (r.dormantSince === null) !== (q.tier === "active")) continue;
+            if (q.maxHf !== undefined && (r.hf === null || r.hf <= 0 || r.hf >= q.maxHf)) continue;
+            if (q.minDebtUsd !== undefined && (r.debtUsd ?? 0) < q.minDebtUsd) continue;
+            out.push(r);
+        }
+        out.sort((a, b) => (b.debtUsd ?? 0) - (a.debtUsd ?? 0));
+        return q.limit !== undefined ? out.slice(0, q.limit) : out;
+    }
+
+    /** Upserts decoded pool activity. Returns users that were not known before. */
+    recordActivity(items: BorrowerActivity[]): string[] {
+        const patches = new Map<string, Extract<Patch, { t: "act" }>>();
+        for (const a of items) {
+            const block = Number(a.blockNumber);
+            let p = patches.get(a.user);
+            if (!p) patches.set(a.user, (p = { u: a.user, t: "act", first: block, last: block, reserves: {} }));
+            p.first = Math.min(p.first, block);
+            p.last = Math.max(p.last, block);
+            if (a.event === "Borrow") p.borrow = Math.max(p.borrow ?? 0, block);
+            p.reserves[a.reserve] = mergeTouch(p.reserves[a.reserve], {
+                collateral: a.side === "collateral",
+                debt: a.side === "debt",
+                lastEvent: a.event,
+                lastBlock: block,
+            });
+        }
+
+        const added = Array.from(patches.keys()).filter((u) => !this.recs.has(u));
+        this.write(Array.from(patches.values()));
+        return added;
+    }
+
+    /** Stores the latest account snapshot; only journaled when it actually moved. */
+    recordHealth(user: string, h: HealthUpdate) {
+        const u = user.toLowerCase();
+        const r = this.recs.get(u);
+        const at = new Date().toISOString();
+        const moved = !r || r.hf === null
+            || Math.abs(r.hf - h.hf) > 1e-4 * Math.max(1, r.hf)
+            || Math.abs((r.debtUsd ?? 0) - h.debtUsd) >= 1
+            || Math.abs((r.collateralUsd ?? 0) - h.collateralUsd) >= 1
+            || (r.debtUsd === 0) !== (h.debtUsd === 0);
+        if (moved) this.write([{ u, t: "hf", hf: h.hf, debt: h.debtUsd, col: h.collateralUsd, at, liq: h.nearestLiq }]);
+        else r.checkedAt = at;
+    }
+
+    remove(users: string[]) {
+        this.write(users.map((u) => ({ u: u.toLowerCase(), t: "del" as const })));
+    }
+
+    /** Applies journal lines appended by other processes since the last read. */
+    refresh(): number {
+        const snapMtime = mtime(this.file(SNAPSHOT_FILE));
+        let size = 0;
+        try { size = fs.statSync(this.file(JOURNAL_FILE)).size; } catch { /* no journal yet */ }
+
+        if (snapMtime !== this.snapshotMtime || size < this.journalOffset) {
+            this.reload(); // compacted elsewhere
+            return this.recs.size;
+        }
+        if (size === this.journalOffset) return 0;
+
+        const fd = fs.openSync(this.file(JOURNAL_FILE), "r");
+        try {
+            const buf = Buffer.alloc(size - this.journalOffset);
+            fs.readSync(fd, buf, 0, buf.length, this.journalOffset);
+            const text = buf.toString("utf-8");
+            const end = text.lastIndexOf("\n") + 1; // never consume a half-written line
+            const applied = this.applyText(text.slice(0, end));
+            this.journalOffset += Buffer.byteLength(text.slice(0, end));
+            return applied;
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    /** Folds the journal into a new snapshot. Lock-guarded; a no-op if another process is compacting. */
+    compact() {
+        const lock = this.file(LOCK_FILE);
+        try {
+            fs.writeFileSync(lock, String(process.pid), { flag: "wx" });
+        } catch {
+            if (Date.now() - mtime(lock) < 60_000) return;
+            fs.rmSync(lock, { force: true }); // stale lock from a dead process
+            return;
+        }
+
+        try {
+            this.refresh();
+            const journal = this.file(JOURNAL_FILE);
+            const rotating = journal + ".compacting";
+            if (fs.existsSync(journal)) {
+                fs.renameSync(journal, rotating);
+                // Lines appended between refresh() and the rename
+                const tail = fs.readFileSync(rotating).subarray(this.journalOffset).toString("utf-8");
+                this.applyText(tail);
+            }
+
+            const snap: Snapshot = { version: 1, savedAt: new Date().toISOString(), records: Array.from(this.recs.values()) };
+            const tmp = this.file(SNAPSHOT_FILE) + ".tmp";
+            fs.writeFileSync(tmp, JSON.stringify(snap));
+            fs.renameSync(tmp, this.file(SNAPSHOT_FILE));
+            fs.rmSync(rotating, { force: true });
+
+            this.snapshotMtime = mtime(this.file(SNAPSHOT_FILE));
+            this.journalOffset = 0;
+            this.journalLines = 0;
+            logger.info({ users: this.recs.size }, "🗃️ Universe compacted");
+        } finally {
+            fs.rmSync(lock, { force: true });
+        }
+    }
+
+    private write(patches: Patch[]) {
+        if (patches.length === 0) return;
+        for (const p of patches) this.apply(p);
+        const text = patches.map((p) => JSON.stringify(p)).join("\n") + "\n";
+        const buf = Buffer.from(text, "utf-8");
+        const fd = fs.openSync(this.file(JOURNAL_FILE), "a");
+        try {
+            fs.writeSync(fd, buf);
+            // O_APPEND put our lines at the end; they start at our offset only if the file now ends right after them.
+            // Otherwise another writer got in first (or right after): leave the offset and let refresh() re-apply ours.
+            if (fs.fstatSync(fd).size === this.journalOffset + buf.length) this.journalOffset += buf.length;
+        } finally {
+            fs.closeSync(fd);
+        }
+        this.journalLines += patches.length;
+        if (this.journalLines >= this.compactAfter) this.compact();
+    }
+
+    private reload() {
+        this.recs.clear();
+        this.debtIdx.clear();
+        this.collIdx.clear();
+        this.membership++;
+        this.journalOffset = 0;
+        this.journalLines = 0;
+
+        const snapPath = this.file(SNAPSHOT_FILE);
+        this.snapshotMtime = mtime(snapPath);
+        if (fs.existsSync(snapPath)) {
+            const snap = JSON.parse(fs.readFileSync(snapPath, "utf-8")) as Snapshot;
+            for (const r of snap.records) this.put(r);
+        }
+        this.refresh();
+    }
+
+    private applyText(text: string): number {
+        let n = 0;
+        for (const ln of text.split("\n")) {
+            if (!ln) continue;
+            try {
+                this.apply(JSON.parse(ln) as Patch);
+                n++;
+            } catch { /* torn line from a crashed writer */ }
+        }
+        this.journalLines += n;
+        return n;
+    }
+
+    private apply(p: Patch) {
+        if (p.t === "del") {
+            const r = this.recs.get(p.u);
+            if (r) this.unindex(r);
+            if (this.recs.delete(p.u)) this.membership++;
+            return;
+        }
+
+        const r = this.recs.get(p.u) ?? emptyRecord(p.u);
+        const wasDormant = r.dormantSince !== null;
+        if (p.t === "act") {
+            r.firstSeenBlock = r.firstSeenBlock === 0 ? p.first : Math.min(r.firstSeenBlock, p.first);
+            r.lastActivityBlock = Math.max(r.lastActivityBlock, p.last);
+            for (const [reserve, t] of Object.entries(p.reserves)) {
+                // Debt from before the position was closed (found by the backfill) is not debt any more
+                const stale = r.dormantSince !== null && t.lastBlock <= r.dormantSince;
+                r.reserves[reserve] = mergeTouch(r.reserves[reserve], stale ? { ...t, debt: false } : t);
+            }
+            // Borrowed again after the position was closed (older borrows found by the backfill don't count)
+            if (r.dormantSince !== null && p.borrow !== undefined && p.borrow > r.dormantSince) r.dormantSince = null;
+        } else {
+            r.hf = p.hf;
+            r.debtUsd = p.debt;
+            r.collateralUsd = p.col;
+            r.checkedAt = p.at;
+            if (p.liq !== undefined) r.nearestLiq = p.liq;
+            r.dormantSince = p.debt === 0 ? (r.dormantSince ?? r.lastActivityBlock) : null;
+            // Repaid / withdrawn in full: drop the reserve flags so the indexes stop listing the user
+            if (p.debt === 0 || p.col === 0) {
+                this.unindex(r);
+                for (const t of Object.values(r.reserves)) {
+                    if (p.debt === 0) t.debt = false;
+                    if (p.col === 0) t.collateral = false;
+                }
+            }
+        }
+        if (!this.recs.has(p.u) || wasDormant !== (r.dormantSince !== null)) this.membership++;
+        this.put(r);
+    }
+
+    private put(r: BorrowerRecord) {
+        r.dormantSince ??= null; // snapshots written before the dormant tier
+        r.nearestLiq ??= null;
+        this.recs.set(r.user, r);
+        for (const [reserve, t] of Object.entries(r.reserves)) {
+            if (t.debt) addIdx(this.debtIdx, reserve, r.user);
+            if (t.collateral) addIdx(this.collIdx, reserve, r.user);
+        }
+    }
+
+    private unindex(r: BorrowerRecord) {
+        for (const reserve of Object.keys(r.reserves)) {
+            this.debtIdx.get(reserve)?.delete(r.user);
+            this.collIdx.get(reserve)?.delete(r.user);
+        }
+    }
+
+    /** One-time import of borrowers.json + borrower_activity.json (files are left in place). */
+    private migrateLegacy() {
+        const users = readJson<string[]>(this.file(LEGACY_USERS_FILE)) ?? [];
+        const book = readJson<Record<string, { firstBlock: number; lastBlock: number; reserves: Record<string, ReserveTouch> }>>(
+            this.file(LEGACY_ACTIVITY_FILE)
+        ) ?? {};
+        if (users.length === 0 && Object.keys(book).length === 0) return;
+
+        for (const u of users) this.put(emptyRecord(u.toLowerCase()));
+        for (const [u, a] of Object.entries(book)) {
+            this.apply({ u: u.toLowerCase(), t: "act", first: a.firstBlock, last: a.lastBlock, reserves: a.reserves });
+        }
+        this.compact();
+        logger.info({ users: this.recs.size }, "🗃️ Universe migrated from borrowers.json");
+    }
+
+    private file(name: string) {
+        return path.join(this.dir, name);
+    }
+}
+
+function emptyRecord(user: string): BorrowerRecord {
+    return { user, firstSeenBlock: 0, lastActivityBlock: 0, reserves: {}, hf: null, debtUsd: null, collateralUsd: null, checkedAt: null, nearestLiq: null, dormantSince: null };
+}
+
+function mergeTouch(prev: ReserveTouch | undefined, next: ReserveTouch): ReserveTouch {
+    if (!prev) return { ...next };
+    const newer = next.lastBlock >= prev.lastBlock;
+    return {
+        collateral: prev.collateral || next.collateral,
+        debt: prev.debt || next.debt,
+        lastEvent: newer ? next.lastEvent : prev.lastEvent,
+        lastBlock: Math.max(prev.lastBlock, next.lastBlock),
+    };
+}
+
+function addIdx(idx: Map<string, Set<string>>, key: string, user: string) {
+    let s = idx.get(key);
+    if (!s) idx.set(key, (s = new Set()));
+    s.add(user);
+}
+
+function mtime(p: string): number {
+    try { return fs.statSync(p).mtimeMs; } catch { return 0; }
+}
+
+function readJson<T>(p: string): T | null {
+    try { return JSON.parse(fs.readFileSync(p, "utf-8")) as T; } catch { return null; }
+}
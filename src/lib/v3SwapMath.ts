@@ -0,0 +1,303 @@
+/**
+ * Uniswap V3 swap math (FullMath, TickMath, SqrtPriceMath, SwapMath and the UniswapV3Pool.swap loop), bigint ports.
+ * Rounding follows the 0.7.6 core contracts step by step, so a swap over the same pool state matches QuoterV2 to the wei.
+ */
+
+export const Q96 = 2n ** 96n;
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+const MAX_UINT160 = 2n ** 160n - 1n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+/** Pool state a swap needs: slot0, in-range liquidity and the initialized ticks of the loaded bitmap words. */
+export type V3PoolState = {
+    sqrtPriceX96: bigint;
+    tick: number;
+    liquidity: bigint;
+    fee: number;          // pips, e.g. 500 = 0.05%
+    tickSpacing: number;
+    minWord: number;      // tickBitmap words [minWord, maxWord] were read; a swap leaving them is not simulated
+    maxWord: number;
+    ticks: Map<number, bigint>; // initialized tick -> liquidityNet
+};
+
+export type V3SwapResult = {
+    amountIn: bigint;     // including the fee
+    amountOut: bigint;
+    sqrtPriceX96After: bigint;
+    tickAfter: number;
+    initializedTicksCrossed: number;
+    filled: boolean;      // the whole specified amount was swapped before the price limit
+};
+
+export function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+    return (a * b) / denominator;
+}
+
+export function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+    const product = a * b;
+    return product / denominator + (product % denominator > 0n ? 1n : 0n);
+}
+
+function divRoundingUp(x: bigint, y: bigint): bigint {
+    return x / y + (x % y > 0n ? 1n : 0n);
+}
+
+const TICK_FACTORS: [number, bigint][] = [
+    [0x2, 0xfff97272373d413259a46990580e213an],
+    [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+    [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+    [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+    [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+    [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+    [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+    [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+    [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+    [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+    [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+    [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+    [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+    [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+    [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+    [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+    [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+    [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+    [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/** TickMath.getSqrtRatioAtTick: sqrt(1.0001^tick) as a Q64.96, rounded up. */
+export function getSqrtRatioAtTick(tick: number): bigint {
+    const absTick = Math.abs(tick);
+    if (!Number.isInteger(tick) || absTick > MAX_TICK) throw new Error(`tick out of range: ${tick}`);
+
+    let ratio = (absTick & 0x1) !== 0 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 2n ** 128n;
+    for (const [bit, factor] of TICK_FACTORS) {
+        if ((absTick & bit) !== 0) ratio = (ratio * factor) >> 128n;
+    }
+    if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+    return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/** TickMath.getTickAtSqrtRatio: the greatest tick whose ratio is <= sqrtPriceX96. */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+    if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) throw new Error(`sqrtPriceX96 out of range: ${sqrtPriceX96}`);
+    let lo = MIN_TICK;
+    let hi = MAX_TICK;
+    while (lo < hi) {
+        const mid = Math.floor((lo + hi + 1) / 2);
+        if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo;
+}
+
+/** SqrtPriceMath.getAmount0Delta (unsigned). */
+export function getAmount0Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    if (sqrtRatioAX96 > sqrtRatioBX96) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+    const numerator1 = liquidity << 96n;
+    const numerator2 = sqrtRatioBX96 - sqrtRatioAX96;
+    return roundUp
+        ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+        : mulDiv(numerator1, numerator2, sqrtRatioBX96) / sqrtRatioAX96;
+}
+
+/** SqrtPriceMath.getAmount1Delta (unsigned). */
+export function getAmount1Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    if (sqrtRatioAX96 > sqrtRatioBX96) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+    return roundUp
+        ? mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+        : mulDiv(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96);
+}
+
+function nextSqrtPriceFromAmount0RoundingUp(sqrtPX96: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+    if (amount === 0n) return sqrtPX96;
+    const numerator1 = liquidity << 96n;
+    const product = amount * sqrtPX96;
+
+    if (add) {
+        // The contract takes the precise branch only while neither the product nor the sum overflows
+        if (product <= MAX_UINT256 && numerator1 + product <= MAX_UINT256) {
+            return mulDivRoundingUp(numerator1, sqrtPX96, numerator1 + product);
+        }
+        return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount);
+    }
+    if (product > MAX_UINT256 || numerator1 <= product) throw new Error("SqrtPriceMath: not enough liquidity for amount0");
+    return toUint160(mulDivRoundingUp(numerator1, sqrtPX96, numerator1 - product));
+}
+
+function nextSqrtPriceFromAmount1RoundingDown(sqrtPX96: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+    if (add) return toUint160(sqrtPX96 + mulDiv(amount, Q96, liquidity));
+    const quotient = mulDivRoundingUp(amount, Q96, liquidity);
+    if (sqrtPX96 <= quotient) throw new Error("SqrtPriceMath: not enough liquidity for amount1");
+    return sqrtPX96 - quotient;
+}
+
+function toUint160(x: bigint): bigint {
+    if (x > MAX_UINT160) throw new Error("SafeCast: uint160 overflow");
+    return x;
+}
+
+export function getNextSqrtPriceFromInput(sqrtPX96: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+    return zeroForOne
+        ? nextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+        : nextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true);
+}
+
+export function getNextSqrtPriceFromOutput(sqrtPX96: bigint, liquidity: bigint, amountOut: bigint, zeroForOne: boolean): bigint {
+    return zeroForOne
+        ? nextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountOut, false)
+        : nextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountOut, false);
+}
+
+/**
+ * SwapMath.computeSwapStep: one step towards sqrtRatioTargetX96 within a single liquidity range.
+ * amountRemaining > 0 is exact input, < 0 exact output (the pool's sign convention).
+ */
+export function computeSwapStep(
+    sqrtRatioCurrentX96: bigint,
+    sqrtRatioTargetX96: bigint,
+    liquidity: bigint,
+    amountRemaining: bigint,
+    feePips: number
+): { sqrtRatioNextX96: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+    const fee = BigInt(feePips);
+    const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+    const exactIn = amountRemaining >= 0n;
+
+    let sqrtRatioNextX96: bigint;
+    let amountIn = 0n;
+    let amountOut = 0n;
+    if (exactIn) {
+        const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - fee, FEE_DENOMINATOR);
+        amountIn = zeroForOne
+            ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+            : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+        sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+            ? sqrtRatioTargetX96
+            : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+    } else {
+        amountOut = zeroForOne
+            ? getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+            : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false);
+        sqrtRatioNextX96 = -amountRemaining >= amountOut
+            ? sqrtRatioTargetX96
+            : getNextSqrtPriceFromOutput(sqrtRatioCurrentX96, liquidity, -amountRemaining, zeroForOne);
+    }
+
+    const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+    if (zeroForOne) {
+        if (!(max && exactIn)) amountIn = getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+        if (!(max && !exactIn)) amountOut = getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+    } else {
+        if (!(max && exactIn)) amountIn = getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+        if (!(max && !exactIn)) amountOut = getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+    }
+
+    // Cap the output amount to not exceed the remaining output amount
+    if (!exactIn && amountOut > -amountRemaining) amountOut = -amountRemaining;
+
+    const feeAmount = exactIn && sqrtRatioNextX96 !== sqrtRatioTargetX96
+        ? amountRemaining - amountIn // the remainder of the input is the fee
+        : mulDivRoundingUp(amountIn, fee, FEE_DENOMINATOR - fee);
+
+    return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * TickBitmap.nextInitializedTickWithinOneWord over the loaded ticks. The pool steps at most one
+ * bitmap word at a time and every step rounds on its own, so the word edges matter for exactness.
+ * null when the word was not loaded.
+ */
+function nextInitializedTickWithinOneWord(pool: V3PoolState, sorted: number[], tick: number, lte: boolean): { tickNext: number; initialized: boolean } | null {
+    const spacing = pool.tickSpacing;
+    let compressed = Math.trunc(tick / spacing);
+    if (tick < 0 && tick % spacing !== 0) compressed--; // round towards negative infinity
+
+    if (lte) {
+        const word = compressed >> 8;
+        if (word < pool.minWord || word > pool.maxWord) return null;
+        const floor = word * 256 * spacing;
+        for (let i = sorted.length - 1; i >= 0; i--) {
+            const t = sorted[i];
+            if (t <= compressed * spacing && t >= floor) return { tickNext: t, initialized: true };
+            if (t < floor) break;
+        }
+        return { tickNext: floor, initialized: false };
+    }
+
+    const word = (compressed + 1) >> 8;
+    if (word < pool.minWord || word > pool.maxWord) return null;
+    const ceil = (word * 256 + 255) * spacing;
+    for (const t of sorted) {
+        if (t >= (compressed + 1) * spacing && t <= ceil) return { tickNext: t, initialized: true };
+        if (t > ceil) break;
+    }
+    return { tickNext: ceil, initialized: false };
+}
+
+/**
+ * UniswapV3Pool.swap without the transfers. amountSpecified > 0 is exact input, < 0 exact output;
+ * the default price limit is QuoterV2's (MIN/MAX_SQRT_RATIO -/+ 1).
+ * null when the swap runs past the loaded bitmap words (the caller has to ask the chain).
+ */
+export function simulateSwap(pool: V3PoolState, zeroForOne: boolean, amountSpecified: bigint, sqrtPriceLimitX96?: bigint): V3SwapResult | null {
+    if (amountSpecified === 0n) throw new Error("simulateSwap: amountSpecified is 0");
+    const limit = sqrtPriceLimitX96 ?? (zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n);
+    if (zeroForOne ? limit >= pool.sqrtPriceX96 || limit <= MIN_SQRT_RATIO : limit <= pool.sqrtPriceX96 || limit >= MAX_SQRT_RATIO) {
+        throw new Error("simulateSwap: SPL");
+    }
+
+    const exactInput = amountSpecified > 0n;
+    const sorted = [...pool.ticks.keys()].sort((a, b) => a - b);
+    let remaining = amountSpecified;
+    let calculated = 0n;
+    let sqrtPriceX96 = pool.sqrtPriceX96;
+    let tick = pool.tick;
+    let liquidity = pool.liquidity;
+    let crossed = 0;
+
+    while (remaining !== 0n && sqrtPriceX96 !== limit) {
+        const sqrtPriceStartX96 = sqrtPriceX96;
+        const next = nextInitializedTickWithinOneWord(pool, sorted, tick, zeroForOne);
+        if (!next) return null;
+        const tickNext = Math.min(MAX_TICK, Math.max(MIN_TICK, next.tickNext));
+        const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+
+        const target = (zeroForOne ? sqrtPriceNextX96 < limit : sqrtPriceNextX96 > limit) ? limit : sqrtPriceNextX96;
+        const step = computeSwapStep(sqrtPriceX96, target, liquidity, remaining, pool.fee);
+        sqrtPriceX96 = step.sqrtRatioNextX96;
+
+        if (exactInput) {
+            remaining -= step.amountIn + step.feeAmount;
+            calculated -= step.amountOut;
+        } else {
+            remaining += step.amountOut;
+            calculated += step.amountIn + step.feeAmount;
+        }
+
+        if (sqrtPriceX96 === sqrtPriceNextX96) {
+            if (next.initialized) {
+                const net = pool.ticks.get(tickNext) ?? 0n;
+                liquidity += zeroForOne ? -net : net;
+                crossed++;
+            }
+            tick = zeroForOne ? tickNext - 1 : tickNext;
+        } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+            tick = getTickAtSqrtRatio(sqrtPriceX96);
+        }
+    }
+
+    return {
+        amountIn: exactInput ? amountSpecified - remaining : calculated,
+        amountOut: exactInput ? -calculated : -amountSpecified + remaining,
+        sqrtPriceX96After: sqrtPriceX96,
+        tickAfter: tick,
+        initializedTicksCrossed: crossed,
+        filled: remaining === 0n,
+    };
+}
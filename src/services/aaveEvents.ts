@@ -0,0 +1,85 @@
+import { parseAbi, parseEventLogs, Address, Hex, Log, zeroAddress } from "viem";
+
+// Aave V3 Pool events that carry a borrower address (canonical V3 signatures)
+export const AAVE_POOL_EVENTS = parseAbi([
+    "event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)",
+    "event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)",
+    "event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)",
+    "event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)",
+    "event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)",
+    "event ReserveUsedAsCollateralEnabled(address indexed reserve, address indexed user)",
+    "event ReserveUsedAsCollateralDisabled(address indexed reserve, address indexed user)",
+]);
+
+export type AaveEventName =
+    | "Supply"
+    | "Withdraw"
+    | "Borrow"
+    | "Repay"
+    | "LiquidationCall"
+    | "ReserveUsedAsCollateralEnabled"
+    | "ReserveUsedAsCollateralDisabled";
+
+export type ReserveSide = "collateral" | "debt";
+
+/** One (user, reserve) touch extracted from a pool event. */
+export interface BorrowerActivity {
+    user: Address;      // lowercase, same form as the universe store keys
+    reserve: Address;   // lowercase underlying asset
+    side: ReserveSide;
+    event: AaveEventName;
+    blockNumber: bigint;
+    logIndex: number;
+    txHash: Hex | null;
+}
+
+function lower(a: Address): Address {
+    return a.toLowerCase() as Address;
+}
+
+/**
+ * Decodes raw pool logs into borrower activity.
+ * Only the position owner is recorded (onBehalfOf for Supply/Borrow, user otherwise);
+ * callers, repayers, liquidators and referral codes are ignored.
+ */
+export function activityFromLogs(logs: Log[]): BorrowerActivity[] {
+    const decoded = parseEventLogs({ abi: AAVE_POOL_EVENTS, logs, strict: true });
+    const out: BorrowerActivity[] = [];
+
+    for (const l of decoded) {
+        const base = {
+            event: l.eventName as AaveEventName,
+            blockNumber: l.blockNumber ?? 0n,
+            logIndex: l.logIndex ?? 0,
+            txHash: l.transactionHash ?? null,
+        };
+        const push = (user: Address, reserve: Address, side: ReserveSide) => {
+            if (user === zeroAddress || reserve === zeroAddress) return;
+            out.push({ ...base, user: lower(user), reserve: lower(reserve), side });
+        };
+
+        switch (l.eventName) {
+            case "Supply":
+                push(l.args.onBehalfOf, l.args.reserve, "collateral");
+                break;
+            case "Borrow":
+                push(l.args.onBehalfOf, l.args.reserve, "debt");
+                break;
+            case "Withdraw":
+                push(l.args.user, l.args.reserve, "collateral");
+                break;
+            case "Repay":
+                push(l.args.user, l.args.reserve, "debt");
+                break;
+            case "LiquidationCall":
+                push(l.args.user, l.args.collateralAsset, "collateral");
+                push(l.args.user, l.args.debtAsset, "debt");
+                break;
+            case "ReserveUsedAsCollateralEnabled":
+            case "ReserveUsedAsCollateralDisabled":
+                push(l.args.user, l.args.reserve, "collateral");
+                break;
+        }
+    }
+    return out;
+}
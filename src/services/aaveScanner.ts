@@ -10,23 +10,53 @@ import {
 import { arbitrum, base } from "viem/chains";
 import { loadConfig } from "../config";
 import { logger } from "../logger";
+import { HealthEngine, reservesFromUi, emodesFromUi, positionFromUi, UserPosition } from "./healthEngine";
+import type { PoolVersion } from "../lib/liquidationRules";
 
 const config = loadConfig();
 
-// Minimal ABI for UiPoolDataProviderV3
-const UI_POOL_DATA_PROVIDER_ABI = parseAbi([
-    "struct AggregatedReserveData { address underlyingAsset; string name; string symbol; uint256 decimals; uint256 baseLTVasCollateral; uint256 reserveLiquidationThreshold; uint256 reserveLiquidationBonus; uint256 reserveFactor; uint256 usageAsCollateralEnabled; uint256 borrowingEnabled; uint256 stableBorrowRateEnabled; uint256 isActive; uint256 isFrozen; uint128 liquidityIndex; uint128 variableBorrowIndex; uint128 liquidityRate; uint128 variableBorrowRate; uint128 stableBorrowRate; uint40 lastUpdateTimestamp; address aTokenAddress; address stableDebtTokenAddress; address variableDebtTokenAddress; address interestRateStrategyAddress; uint256 availableLiquidity; uint256 totalPrincipalStableDebt; uint256 averageStableRate; uint256 stableDebtLastUpdateTimestamp; uint256 totalScaledVariableDebt; uint256 priceInMarketReferenceCurrency; address priceOracle; uint256 variableRateSlope1; uint256 variableRateSlope2; uint256 stableRateSlope1; uint256 stableRateSlope2; uint256 baseStableBorrowRate; uint256 baseVariableBorrowRate; uint256 maxStableLoanPercent; uint256 flashLoanFee; uint256 availableApparentLiquidity; uint256 availableWethLiquidity; }",
+// UiPoolDataProviderV3 ABI (Aave V3.3 layout: no stable debt, eMode categories via getEModes)
+export const UI_POOL_DATA_PROVIDER_ABI = parseAbi([
+    "struct AggregatedReserveData { address underlyingAsset; string name; string symbol; uint256 decimals; uint256 baseLTVasCollateral; uint256 reserveLiquidationThreshold; uint256 reserveLiquidationBonus; uint256 reserveFactor; bool usageAsCollateralEnabled; bool borrowingEnabled; bool isActive; bool isFrozen; uint128 liquidityIndex; uint128 variableBorrowIndex; uint128 liquidityRate; uint128 variableBorrowRate; uint40 lastUpdateTimestamp; address aTokenAddress; address variableDebtTokenAddress; address interestRateStrategyAddress; uint256 availableLiquidity; uint256 totalScaledVariableDebt; uint256 priceInMarketReferenceCurrency; address priceOracle; uint256 variableRateSlope1; uint256 variableRateSlope2; uint256 baseVariableBorrowRate; uint256 optimalUsageRatio; bool isPaused; bool isSiloedBorrowing; uint128 accruedToTreasury; uint128 unbacked; uint128 isolationModeTotalDebt; bool flashLoanEnabled; uint256 debtCeiling; uint256 debtCeilingDecimals; uint256 borrowCap; uint256 supplyCap; bool borrowableInIsolation; bool virtualAccActive; uint128 virtualUnderlyingBalance; uint128 deficit; }",
     "struct BaseCurrencyInfo { uint256 marketReferenceCurrencyUnit; int256 marketReferenceCurrencyPriceInUsd; int256 networkBaseTokenPriceInUsd; uint8 networkBaseTokenPriceDecimals; }",
-    "struct UserReserveData { address underlyingAsset; uint256 scaledATokenBalance; uint256 usageAsCollateralEnabledOnUser; uint256 stableBorrowRate; uint256 scaledVariableDebt; uint256 principalStableDebt; uint256 stableBorrowLastUpdateTimestamp; }",
+    "struct UserReserveData { address underlyingAsset; uint256 scaledATokenBalance; bool usageAsCollateralEnabledOnUser; uint256 scaledVariableDebt; }",
+    "struct EModeCategory { uint16 ltv; uint16 liquidationThreshold; uint16 liquidationBonus; uint128 collateralBitmap; string label; uint128 borrowableBitmap; }",
+    "struct Emode { uint8 id; EModeCategory eMode; }",
     "function getReservesData(address provider) external view returns (AggregatedReserveData[] memory, BaseCurrencyInfo memory)",
     "function getUserReservesData(address provider, address user) external view returns (UserReserveData[] memory, uint8)",
+    "function getEModes(address provider) external view returns (Emode[] memory)",
 ]);
 
+// Same calls, Aave V3.6 layout: no unbacked / virtualAccActive, eMode categories carry an ltvzero bitmap
+export const UI_POOL_DATA_PROVIDER_ABI_V3_6 = parseAbi([
+    "struct AggregatedReserveData { address underlyingAsset; string name; string symbol; uint256 decimals; uint256 baseLTVasCollateral; uint256 reserveLiquidationThreshold; uint256 reserveLiquidationBonus; uint256 reserveFactor; bool usageAsCollateralEnabled; bool borrowingEnabled; bool isActive; bool isFrozen; uint128 liquidityIndex; uint128 variableBorrowIndex; uint128 liquidityRate; uint128 variableBorrowRate; uint40 lastUpdateTimestamp; address aTokenAddress; address variableDebtTokenAddress; address interestRateStrategyAddress; uint256 availableLiquidity; uint256 totalScaledVariableDebt; uint256 priceInMarketReferenceCurrency; address priceOracle; uint256 variableRateSlope1; uint256 variableRateSlope2; uint256 baseVariableBorrowRate; uint256 optimalUsageRatio; bool isPaused; bool isSiloedBorrowing; uint128 accruedToTreasury; uint128 isolationModeTotalDebt; bool flashLoanEnabled; uint256 debtCeiling; uint256 debtCeilingDecimals; uint256 borrowCap; uint256 supplyCap; bool borrowableInIsolation; uint128 virtualUnderlyingBalance; uint128 deficit; }",
+    "struct BaseCurrencyInfo { uint256 marketReferenceCurrencyUnit; int256 marketReferenceCurrencyPriceInUsd; int256 networkBaseTokenPriceInUsd; uint8 networkBaseTokenPriceDecimals; }",
+    "struct UserReserveData { address underlyingAsset; uint256 scaledATokenBalance; bool usageAsCollateralEnabledOnUser; uint256 scaledVariableDebt; }",
+    "struct EModeCategory { uint16 ltv; uint16 liquidationThreshold; uint16 liquidationBonus; uint128 collateralBitmap; string label; uint128 borrowableBitmap; uint128 ltvzeroBitmap; }",
+    "struct Emode { uint8 id; EModeCategory eMode; }",
+    "function getReservesData(address provider) external view returns (AggregatedReserveData[] memory, BaseCurrencyInfo memory)",
+    "function getUserReservesData(address provider, address user) external view returns (UserReserveData[] memory, uint8)",
+    "function getEModes(address provider) external view returns (Emode[] memory)",
+]);
+
+/**
+ * UiPoolDataProviderV3 ABI for a Pool version. The two layouts decode to the same fields for
+ * everything the scanner reads, so callers keep the 3.3 typing.
+ */
+export function uiPoolDataProviderAbi(version: PoolVersion): typeof UI_POOL_DATA_PROVIDER_ABI {
+    return (version === "3.6" ? UI_POOL_DATA_PROVIDER_ABI_V3_6 : UI_POOL_DATA_PROVIDER_ABI) as typeof UI_POOL_DATA_PROVIDER_ABI;
+}
+
 // Minimal ABI for Pool (to get user account data - verifying HF)
 const POOL_ABI = parseAbi([
-    "function getUserAccountData(address user) external view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)"
+    "function getUserAccountData(address user) external view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)",
+    "struct ReserveConfigurationMap { uint256 data; }",
+    "function getConfiguration(address asset) external view returns (ReserveConfigurationMap memory)",
 ]);
 
+// ReserveConfiguration bit layout: liquidation protocol fee, bits 152-167
+const LIQUIDATION_PROTOCOL_FEE_START_BIT = 152n;
+
 export interface UserHealth {
     user: Address;
     healthFactor: number;
@@ -41,9 +71,11 @@ export class AaveScanner {
     client: PublicClient;
     uiPoolDataProvider: Address;
     poolAddressProvider: Address;
+    private uiAbi = uiPoolDataProviderAbi(config.AAVE_POOL_VERSION);
 
-    constructor() {
-        this.client = createPublicClient({
+    /** `client`: share one RPC client across roles (run daemon); default: a private HTTP client. */
+    constructor(client?: PublicClient) {
+        this.client = client ?? createPublicClient({
             chain: (config.CHAIN_ID === 8453 ? base : arbitrum) as any,
             transport: http(config.ARB_RPC_URL),
             // batch: { multicall: true }, // Disabled for stability with huge UiPoolDataProvider returns
@@ -56,7 +88,7 @@ export class AaveScanner {
         try {
             const [reserves, baseCurrency] = await this.client.readContract({
                 address: this.uiPoolDataProvider,
-                abi: UI_POOL_DATA_PROVIDER_ABI,
+                abi: this.uiAbi,
                 functionName: "getReservesData",
                 args: [this.poolAddressProvider],
             });
@@ -67,11 +99,68 @@ export class AaveScanner {
         }
     }
 
+    async getEModes() {
+        return this.client.readContract({
+            address: this.uiPoolDataProvider,
+            abi: this.uiAbi,
+            functionName: "getEModes",
+            args: [this.poolAddressProvider],
+        });
+    }
+
+    /** Reserve config/indexes/prices + eMode categories, loaded into a local HF engine (positions are kept). */
+    async loadHealthEngine(engine: HealthEngine = new HealthEngine(config.AAVE_POOL_VERSION)): Promise<HealthEngine> {
+        const [{ reserves }, emodes] = await Promise.all([this.getReserves(), this.getEModes()]);
+        const states = reservesFromUi(reserves);
+        const fees = await this.getLiquidationProtocolFees(states.map((r) => r.asset as Address));
+        states.forEach((r, i) => { r.liquidationProtocolFee = fees[i]; });
+        engine.setMarket(states, emodesFromUi(emodes));
+        return engine;
+    }
+
+    /** Per reserve, bps of the liquidation bonus sent to the treasury (Pool.getConfiguration). */
+    async getLiquidationProtocolFees(assets: Address[]): Promise<number[]> {
+        const poolAddress = await this.getPoolAddress();
+        const results = await this.client.multicall({
+            contracts: assets.map((a) => ({
+                address: poolAddress,
+                abi: POOL_ABI,
+                functionName: "getConfiguration" as const,
+                args: [a] as const,
+            })),
+        });
+        return results.map((r) => {
+            if (r.status !== "success") throw new Error(`getConfiguration failed: ${r.error?.message}`);
+            return Number(((r.result as { data: bigint }).data >> LIQUIDATION_PROTOCOL_FEE_START_BIT) & 0xffffn);
+        });
+    }
+
+    /** Scaled balances + eMode per user (multicall of getUserReservesData). Failed users are skipped. */
+    async getUserPositionsBatch(users: Address[]): Promise<UserPosition[]> {
+        if (users.length === 0) return [];
+        const results = await this.client.multicall({
+            contracts: users.map((u) => ({
+                address: this.uiPoolDataProvider,
+                abi: this.uiAbi,
+                functionName: "getUserReservesData" as const,
+                args: [this.poolAddressProvider, u] as const,
+            })),
+        });
+
+        const out: UserPosition[] = [];
+        results.forEach((r, i) => {
+            if (r.status !== "success") return;
+            const [userReserves, userEmode] = r.result as readonly [any[], number];
+            out.push(positionFromUi(users[i], userReserves, userEmode));
+        });
+        return out;
+    }
+
     async getUserData(user: Address) {
         try {
             const [userReserves, userEmode] = await this.client.readContract({
                 address: this.uiPoolDataProvider,
-                abi: UI_POOL_DATA_PROVIDER_ABI,
+                abi: this.uiAbi,
                 functionName: "getUserReservesData",
                 args: [this.poolAddressProvider, user]
             });
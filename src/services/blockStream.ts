@@ -0,0 +1,144 @@
+import { createPublicClient, webSocket, Address, Chain, Log, PublicClient } from "viem";
+import { logger } from "../logger";
+import { AAVE_POOL_EVENTS } from "./aaveEvents";
+
+export type BlockStreamMode = "ws" | "poll";
+
+/** The subscriptions BlockStream uses; tests pass a stub through `connect`. */
+export type WatchClient = Pick<PublicClient, "watchBlockNumber" | "watchEvent">;
+
+export type BlockStreamOpts = {
+    wsUrl?: string;          // empty => HTTP polling only
+    chain: Chain;
+    poolAddr: Address;
+    stallMs: number;         // no head for this long => treat socket as dead
+    reconnectMs: number;     // delay before re-subscribing after a drop
+    onLogs?: (logs: Log[]) => void; // live pool events (borrower activity at the tip)
+    connect?: (wsUrl: string, chain: Chain) => WatchClient; // default: viem client over webSocket()
+};
+
+/**
+ * Block clock for the sentry/miner loops.
+ * With WS_RPC_URL it subscribes to new heads + pool logs and wakes waiters on every block;
+ * when the socket errors or stalls it degrades to timer polling and keeps retrying in the background.
+ */
+export class BlockStream {
+    private state: BlockStreamMode = "poll";
+    private unwatch: (() => void)[] = [];
+    private waiters: ((block: bigint | null) => void)[] = [];
+    private lastBlock: bigint | null = null;
+    private lastBlockAt = 0;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private stopped = false;
+
+    constructor(private readonly opts: BlockStreamOpts) { }
+
+    mode(): BlockStreamMode {
+        return this.state;
+    }
+
+    latest(): bigint | null {
+        return this.lastBlock;
+    }
+
+    start() {
+        if (!this.opts.wsUrl) return;
+        this.stopped = false;
+        this.subscribe();
+    }
+
+    stop() {
+        this.stopped = true;
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.teardown();
+        this.flush(null);
+    }
+
+    /**
+     * Resolves on the next head while the socket is healthy (or after stallMs, which drops it),
+     * otherwise after pollMs like the plain HTTP loop.
+     */
+    next(pollMs: number): Promise<bigint | null> {
+        if (this.state !== "ws") return sleep(pollMs).then(() => null);
+
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                this.waiters = this.waiters.filter((w) => w !== wake);
+                if (this.state === "ws" && Date.now() - this.lastBlockAt >= this.opts.stallMs) {
+                    this.drop(new Error(`no new head for ${this.opts.stallMs}ms`));
+                }
+                resolve(null);
+            }, this.opts.stallMs);
+            const wake = (b: bigint | null) => {
+                clearTimeout(timer);
+                resolve(b);
+            };
+            this.waiters.push(wake);
+        });
+    }
+
+    private subscribe() {
+        const client = (this.opts.connect ?? wsClient)(this.opts.wsUrl!, this.opts.chain);
+
+        const onError = (e: Error) => this.drop(e);
+        this.unwatch.push(
+            client.watchBlockNumber({
+                onBlockNumber: (n) => {
+                    this.lastBlock = n;
+                    this.lastBlockAt = Date.now();
+                    this.flush(n);
+                },
+                onError,
+            })
+        );
+        if (this.opts.onLogs) {
+            this.unwatch.push(
+                client.watchEvent({
+                    address: this.opts.poolAddr,
+                    events: AAVE_POOL_EVENTS,
+                    onLogs: (logs) => this.opts.onLogs?.(logs as Log[]),
+                    onError,
+                })
+            );
+        }
+
+        this.state = "ws";
+        this.lastBlockAt = Date.now();
+        logger.info("🔌 BlockStream: subscribed (newHeads + pool logs)");
+    }
+
+    private drop(err: Error) {
+        if (this.state !== "ws") return;
+        logger.warn({ err: err.message }, "🔌 BlockStream: socket down, falling back to HTTP polling");
+        this.teardown();
+        this.flush(null);
+        if (this.stopped) return;
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (!this.stopped) this.subscribe();
+        }, this.opts.reconnectMs);
+    }
+
+    private teardown() {
+        this.state = "poll";
+        for (const u of this.unwatch) {
+            try { u(); } catch { /* socket already gone */ }
+        }
+        this.unwatch = [];
+    }
+
+    private flush(block: bigint | null) {
+        const ws = this.waiters;
+        this.waiters = [];
+        for (const w of ws) w(block);
+    }
+}
+
+// WebSocket transport => watch actions use eth_subscribe instead of polling
+function wsClient(wsUrl: string, chain: Chain): WatchClient {
+    return createPublicClient({ chain, transport: webSocket(wsUrl, { reconnect: false, keepAlive: true }) });
+}
+
+function sleep(ms: number) {
+    return new Promise<void>((r) => setTimeout(r, ms));
+}
@@ -0,0 +1,282 @@
+import type { Address, Hex, Log, PublicClient } from "viem";
+import { logger } from "../logger";
+import type { AppConfig } from "../config";
+import { AAVE_POOL_EVENTS, activityFromLogs, BorrowerActivity } from "./aaveEvents";
+import { AdaptiveLogFetcher, FetchDirection } from "./logFetcher";
+import { UniverseStore } from "../lib/universeStore";
+import { readCursor, writeCursor, HEAD_CURSOR_FILE, DEEP_CURSOR_FILE, HeadCursor, DeepCursor, BlockCheckpoint } from "../lib/syncCursor";
+import { pushRecheck } from "../lib/recheckQueue";
+
+export type MinerLane = "head" | "backfill";
+
+export type MinerOpts = {
+    logsMaxWindow: number;
+    logsMinWindow: number;
+    initialLookback: number; // head start when no cursor exists
+    backfillFloor: number;
+    rpcBudget: number;       // getLogs calls per tick, shared by both lanes
+    headReserve: number;     // calls backfill may never touch
+    reorgDepth: number;      // blocks of hash checkpoints kept; fallback rewind depth
+};
+
+export function minerOpts(cfg: AppConfig): MinerOpts {
+    return {
+        logsMaxWindow: cfg.LOGS_MAX_WINDOW,
+        logsMinWindow: cfg.LOGS_MIN_WINDOW,
+        initialLookback: cfg.MINER_SPAN_BLOCKS,
+        backfillFloor: cfg.MINER_BACKFILL_FLOOR,
+        rpcBudget: cfg.MINER_RPC_BUDGET,
+        headReserve: Math.min(cfg.MINER_HEAD_RESERVE, cfg.MINER_RPC_BUDGET),
+        reorgDepth: cfg.MINER_REORG_DEPTH,
+    };
+}
+
+export type LaneResult = {
+    lane: MinerLane;
+    from: string | null;
+    to: string | null;
+    requests: number;
+    events: number;
+    caughtUp: boolean;
+    error?: string;
+    reorg?: { at: string; rewoundTo: string; affectedUsers: number };
+};
+
+class BudgetExhausted extends Error {
+    constructor(lane: MinerLane) {
+        super(`miner: rpc budget exhausted (${lane})`);
+    }
+}
+
+class ReorgDetected extends Error {
+    constructor(readonly at: bigint) {
+        super(`miner: parent hash mismatch at block ${at}`);
+    }
+}
+
+/** Per-tick getLogs allowance. Head may drain it; backfill stops while `reserve` calls remain. */
+export class RpcBudget {
+    private left: number;
+
+    constructor(readonly total: number, readonly reserve: number) {
+        this.left = total;
+    }
+
+    take(lane: MinerLane): boolean {
+        const floor = lane === "head" ? 0 : this.reserve;
+        if (this.left <= floor) return false;
+        this.left--;
+        return true;
+    }
+
+    remaining(): number {
+        return this.left;
+    }
+}
+
+/**
+ * Borrower discovery with two independent cursors:
+ * - head: follows the chain tip forward (sync_head.json)
+ * - backfill: walks history backward to the pool deployment (sync_deep.json)
+ * Both run in the same tick so tip coverage never waits for the backfill.
+ */
+export class BorrowerMiner {
+    private readonly fetchers: Record<MinerLane, AdaptiveLogFetcher>;
+
+    constructor(
+        private readonly client: PublicClient,
+        private readonly poolAddr: Address,
+        private readonly opts: MinerOpts,
+        readonly store: UniverseStore = UniverseStore.open()
+    ) {
+        const head = readCursor<HeadCursor>(HEAD_CURSOR_FILE);
+        const deep = readCursor<DeepCursor>(DEEP_CURSOR_FILE);
+        this.fetchers = {
+            head: this.newFetcher(head?.window),
+            backfill: this.newFetcher(deep?.window),
+        };
+    }
+
+    users(): Address[] {
+        return this.store.users();
+    }
+
+    async tick(): Promise<{ head: LaneResult; backfill: LaneResult; newUsers: number; budgetLeft: number }> {
+        const before = this.store.size;
+        const currentBlock = await this.client.getBlockNumber();
+        const budget = new RpcBudget(this.opts.rpcBudget, this.opts.headReserve);
+
+        const head = readCursor<HeadCursor>(HEAD_CURSOR_FILE);
+        const headFrom = head ? BigInt(head.lastBlock) + 1n : currentBlock - BigInt(this.opts.initialLookback) + 1n;
+
+        let deep = readCursor<DeepCursor>(DEEP_CURSOR_FILE);
+        if (!deep) {
+            // Start history right below where the head lane starts, so nothing is mined twice
+            writeCursor(DEEP_CURSOR_FILE, { deepBlock: headFrom.toString() });
+            deep = readCursor<DeepCursor>(DEEP_CURSOR_FILE)!;
+        }
+        const floor = BigInt(this.opts.backfillFloor);
+        const deepTo = BigInt(deep.deepBlock) - 1n;
+
+        const [headRes, backRes] = await Promise.all([
+            this.runLane("head", headFrom, currentBlock, "forward", budget, head),
+            this.runLane("backfill", floor, deepTo, "backward", budget),
+        ]);
+
+        return { head: headRes, backfill: backRes, newUsers: this.store.size - before, budgetLeft: budget.remaining() };
+    }
+
+    private async runLane(
+        lane: MinerLane,
+        fromBlock: bigint,
+        toBlock: bigint,
+        direction: FetchDirection,
+        budget: RpcBudget,
+        head?: HeadCursor | null
+    ): Promise<LaneResult> {
+        const res: LaneResult = { lane, from: null, to: null, requests: 0, events: 0, caughtUp: fromBlock > toBlock };
+        if (res.caughtUp) return res;
+
+        // Head only: chain of hashes from the cursor, checked against each new range's parent
+        let parentHash = head?.lastHash as Hex | undefined;
+        let checkpoints: BlockCheckpoint[] = head?.checkpoints ?? [];
+        let rangeHash: Hex | undefined;
+
+        const fetcher = this.fetchers[lane];
+        try {
+            await fetcher.fetch(
+                fromBlock,
+                toBlock,
+                async (a, b) => {
+                    // Every call of the range is charged up front: getLogs, plus the head's parent and range hash reads
+                    const calls = 1 + (lane === "head" ? 1 : 0) + (lane === "head" && parentHash ? 1 : 0);
+                    for (let i = 0; i < calls; i++) {
+                        if (!budget.take(lane)) throw new BudgetExhausted(lane);
+                        res.requests++;
+                    }
+                    if (lane === "head" && parentHash) {
+                        const first = await this.client.getBlock({ blockNumber: a });
+                        if (first.parentHash !== parentHash) throw new ReorgDetected(a);
+                    }
+                    const logs = await this.client.getLogs({ address: this.poolAddr, events: AAVE_POOL_EVENTS, fromBlock: a, toBlock: b });
+                    if (lane === "head") {
+                        rangeHash = (await this.client.getBlock({ blockNumber: b })).hash ?? undefined;
+                        // Chain moved between the two calls: logs at the range end must belong to that block
+                        if (logs.some((l) => l.blockNumber === b && l.blockHash !== rangeHash)) throw new ReorgDetected(b);
+                    }
+                    return logs;
+                },
+                async (a, b, logs) => {
+                    res.events += (await this.ingest(logs, lane === "head")).length;
+                    if (res.from === null || a < BigInt(res.from)) res.from = a.toString();
+                    if (res.to === null || b > BigInt(res.to)) res.to = b.toString();
+
+                    // Cursor only moves past ranges that were fully fetched
+                    const window = fetcher.window.toString();
+                    if (lane === "head") {
+                        parentHash = rangeHash;
+                        const keepFrom = b - BigInt(this.opts.reorgDepth);
+                        checkpoints = [...checkpoints, { block: b.toString(), hash: String(rangeHash) }]
+                            .filter((c) => BigInt(c.block) >= keepFrom);
+                        writeCursor(HEAD_CURSOR_FILE, { lastBlock: b.toString(), lastHash: rangeHash, checkpoints, window });
+                    } else {
+                        writeCursor(DEEP_CURSOR_FILE, { deepBlock: a.toString(), window });
+                    }
+                },
+                direction
+            );
+            res.caughtUp = true;
+        } catch (e: any) {
+            if (e instanceof ReorgDetected) {
+                res.reorg = await this.rewind(e.at, checkpoints, fetcher.window, budget);
+            } else if (!(e instanceof BudgetExhausted)) {
+                res.error = String(e?.shortMessage ?? e?.message ?? e);
+                logger.error({ lane, err: res.error, window: fetcher.window.toString() }, "⛏️ Miner lane stopped, cursor kept at last complete range");
+            }
+        }
+        return res;
+    }
+
+    /**
+     * Moves the head cursor back to the newest checkpoint still on the canonical chain
+     * (or reorgDepth blocks when none matches). Users active after that block are re-checked;
+     * users only ever seen there are dropped until the canonical range re-adds them.
+     */
+    private async rewind(at: bigint, checkpoints: BlockCheckpoint[], window: bigint, budget: RpcBudget) {
+        let ancestor: BlockCheckpoint | null = null;
+        for (const c of [...checkpoints].reverse()) {
+            const blk = BigInt(c.block);
+            if (blk >= at) continue;
+            if (!budget.take("head")) break; // out of budget: the full reorgDepth rewind below is the safe side
+            const onChain = await this.client.getBlock({ blockNumber: blk });
+            if (onChain.hash === c.hash) {
+                ancestor = c;
+                break;
+            }
+        }
+
+        let rewoundTo: bigint;
+        let lastHash: string | undefined;
+        if (ancestor) {
+            rewoundTo = BigInt(ancestor.block);
+            lastHash = ancestor.hash;
+        } else {
+            rewoundTo = at - 1n - BigInt(this.opts.reorgDepth);
+            lastHash = undefined; // unknown: first range after the rewind is trusted as-is
+        }
+
+        const affected: string[] = [];
+        const dropped: string[] = [];
+        for (const r of this.store.records()) {
+            if (BigInt(r.lastActivityBlock) <= rewoundTo) continue;
+            affected.push(r.user);
+            if (BigInt(r.firstSeenBlock) > rewoundTo) dropped.push(r.user);
+        }
+
+        writeCursor(HEAD_CURSOR_FILE, {
+            lastBlock: rewoundTo.toString(),
+            lastHash,
+            checkpoints: checkpoints.filter((c) => BigInt(c.block) <= rewoundTo),
+            window: window.toString(),
+        });
+        this.store.remove(dropped);
+        pushRecheck(affected);
+
+        logger.warn({ at: at.toString(), rewoundTo: rewoundTo.toString(), affected: affected.length, dropped: dropped.length }, "⛏️ Reorg detected, head rewound");
+        return { at: at.toString(), rewoundTo: rewoundTo.toString(), affectedUsers: affected.length };
+    }
+
+    /** Live pool logs (socket subscription): same ingestion, cursors untouched since the head lane re-reads the range. */
+    async ingestLive(logs: Log[]): Promise<BorrowerActivity[]> {
+        return this.ingest(logs, true);
+    }
+
+    private async ingest(logs: Log[], atTip: boolean): Promise<BorrowerActivity[]> {
+        // Only the borrower-bearing pool events, decoded (no reserve addresses / referral codes as "users")
+        const activity = activityFromLogs(logs);
+        if (activity.length === 0) return activity;
+
+        // Journal append: first-seen / last-activity blocks + reserve hints for sentry/planner
+        const added = this.store.recordActivity(activity);
+        if (added.length > 0) {
+            logger.info({ newFound: added.length, events: activity.length, total: this.store.size }, "✨ Universe Expanded");
+        }
+
+        // Possibly closed positions: the sentry re-reads them and moves zero-debt users to the dormant tier.
+        // History (backfill) is skipped, its outcome is already reflected in the sentry's regular checks.
+        if (atTip) {
+            pushRecheck(Array.from(new Set(
+                activity.filter((a) => a.event === "Repay" || a.event === "Withdraw" || a.event === "LiquidationCall").map((a) => a.user)
+            )));
+        }
+        return activity;
+    }
+
+    private newFetcher(saved?: string) {
+        return new AdaptiveLogFetcher({
+            initialWindow: BigInt(saved ?? this.opts.logsMaxWindow),
+            minWindow: BigInt(this.opts.logsMinWindow),
+            maxWindow: BigInt(this.opts.logsMaxWindow),
+        });
+    }
+}
@@ -0,0 +1,169 @@
+import net from "node:net";
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { logger } from "../logger";
+import { resolveDataDir } from "../lib/data_dir";
+
+/**
+ * Sentry -> planner/exec event stream over a local socket (Unix domain socket, named pipe on Windows).
+ * Newline-delimited JSON, one event per line. Best effort: subscribers fall back to candidates.jsonl
+ * whenever they are not connected.
+ */
+export type CandidateEventType = "exec_ready" | "watch" | "recovered";
+
+export type CandidateEvent<C = unknown> = {
+    type: CandidateEventType;
+    candidateId: string;
+    borrower: string;
+    healthFactor: number;
+    candidate: C | null; // the candidates.jsonl row; null for "recovered"
+    seq: number;         // per publisher, +1 per event
+    ts: string;
+};
+
+/** IPC_PATH, else a per-DATA_DIR socket (pipe name on Windows, where sockets are not files). */
+export function ipcPath(configured: string = ""): string {
+    if (configured) return configured;
+    const dataDir = path.resolve(resolveDataDir());
+    if (process.platform === "win32") {
+        const id = crypto.createHash("sha1").update(dataDir).digest("hex").slice(0, 12);
+        return `\\\\.\\pipe\\aave-liquidator-${id}`;
+    }
+    return path.join(dataDir, "sentry.sock");
+}
+
+export class CandidatePublisher {
+    private server: net.Server | null = null;
+    private sockets = new Set<net.Socket>();
+    private seq = 0;
+
+    constructor(readonly socketPath: string) { }
+
+    get subscribers(): number {
+        return this.sockets.size;
+    }
+
+    /** Listens; a stale socket file (dead sentry) is replaced, a live one disables publishing. */
+    async start(): Promise<boolean> {
+        try {
+            await this.listen();
+            return true;
+        } catch (e: any) {
+            if (e?.code !== "EADDRINUSE" || process.platform === "win32" || (await isLive(this.socketPath))) {
+                logger.warn({ path: this.socketPath, err: e?.message }, "📢 IPC publisher disabled (file handoff only)");
+                return false;
+            }
+            fs.rmSync(this.socketPath, { force: true });
+            await this.listen();
+            return true;
+        }
+    }
+
+    publish<C>(events: Omit<CandidateEvent<C>, "seq" | "ts">[]) {
+        if (!this.server || events.length === 0) return;
+        const ts = new Date().toISOString();
+        const payload = events.map((e) => JSON.stringify({ ...e, seq: ++this.seq, ts })).join("\n") + "\n";
+        for (const s of this.sockets) {
+            // A subscriber that can't keep up is dropped: it reconnects and reads the file meanwhile
+            if (s.writableLength > 1_000_000) s.destroy();
+            else s.write(payload);
+        }
+    }
+
+    close() {
+        for (const s of this.sockets) s.destroy();
+        this.sockets.clear();
+        this.server?.close();
+        this.server = null;
+    }
+
+    private listen(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const server = net.createServer((socket) => {
+                this.sockets.add(socket);
+                socket.on("close", () => this.sockets.delete(socket));
+                socket.on("error", () => socket.destroy());
+            });
+            server.once("error", reject);
+            server.listen(this.socketPath, () => {
+                server.off("error", reject);
+                server.on("error", (e) => logger.warn({ err: e.message }, "📢 IPC server error"));
+                this.server = server;
+                logger.info({ path: this.socketPath }, "📢 IPC publisher listening");
+                resolve();
+            });
+        });
+    }
+}
+
+function isLive(socketPath: string): Promise<boolean> {
+    return new Promise((resolve) => {
+        const s = net.connect(socketPath);
+        s.once("connect", () => { s.destroy(); resolve(true); });
+        s.once("error", () => resolve(false));
+    });
+}
+
+export class CandidateSubscriber<C = unknown> {
+    private socket: net.Socket | null = null;
+    private isConnected = false;
+    private stopped = true;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        readonly socketPath: string,
+        private readonly onEvent: (e: CandidateEvent<C>) => void,
+        private readonly reconnectMs: number = 1000,
+    ) { }
+
+    connected(): boolean {
+        return this.isConnected;
+    }
+
+    start() {
+        this.stopped = false;
+        this.connect();
+    }
+
+    stop() {
+        this.stopped = true;
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.socket?.destroy();
+        this.socket = null;
+        this.isConnected = false;
+    }
+
+    private connect() {
+        if (this.stopped) return;
+        let buf = "";
+        const socket = net.connect(this.socketPath);
+        this.socket = socket;
+        socket.setEncoding("utf8");
+        socket.on("connect", () => {
+            this.isConnected = true;
+            logger.info({ path: this.socketPath }, "📡 IPC subscribed to sentry");
+        });
+        socket.on("data", (chunk: string) => {
+            buf += chunk;
+            let nl: number;
+            while ((nl = buf.indexOf("\n")) !== -1) {
+                const line = buf.slice(0, nl);
+                buf = buf.slice(nl + 1);
+                if (!line.trim()) continue;
+                try {
+                    this.onEvent(JSON.parse(line));
+                } catch (e: any) {
+                    logger.warn({ err: e?.message }, "📡 IPC event dropped");
+                }
+            }
+        });
+        socket.on("error", () => { /* close follows */ });
+        socket.on("close", () => {
+            if (this.isConnected) logger.warn({ path: this.socketPath }, "📡 IPC channel lost, file handoff until it is back");
+            this.isConnected = false;
+            if (this.socket === socket) this.socket = null;
+            if (!this.stopped) this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectMs);
+        });
+    }
+}
@@ -0,0 +1,51 @@
+import { encodeFunctionData, parseAbi, type Address, type PublicClient } from "viem";
+import { NO_DEADLINE, type DexAdapter, type DexQuote, type DexRoute, type SwapEncodeParams } from "./types";
+
+// Algebra (Camelot V3): one pool per pair, dynamic fee, so no fee tier in the route
+const QUOTER_ABI = parseAbi([
+    "function quoteExactInputSingle(address tokenIn,address tokenOut,uint256 amountIn,uint160 limitSqrtPrice) external returns (uint256 amountOut,uint16 fee)",
+]);
+const ROUTER_ABI = parseAbi([
+    "function exactInputSingle((address tokenIn,address tokenOut,address recipient,uint256 deadline,uint256 amountIn,uint256 amountOutMinimum,uint160 limitSqrtPrice)) external payable returns (uint256 amountOut)",
+]);
+
+export class AlgebraAdapter implements DexAdapter {
+    readonly id = "algebra" as const;
+
+    constructor(private readonly client: PublicClient, private readonly quoter: Address, private readonly router: Address) { }
+
+    async quoteExactInput(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<DexQuote | null> {
+        const { result } = await this.client.simulateContract({
+            address: this.quoter,
+            abi: QUOTER_ABI,
+            functionName: "quoteExactInputSingle",
+            args: [tokenIn, tokenOut, amountIn, 0n],
+        });
+        const [amountOut, fee] = result;
+        if (amountOut <= 0n) return null;
+        return {
+            amountOut,
+            mode: `algebra_fee_${fee}`,
+            route: { dex: this.id, target: this.router, tokenIn, tokenOut, params: {} },
+        };
+    }
+}
+
+// Byte offset of amountIn in the encoded call: selector + 4 words of the (static) params tuple
+export const ALGEBRA_AMOUNT_IN_OFFSET = 4 + 4 * 32;
+
+export function encodeAlgebraSwap(route: DexRoute, p: SwapEncodeParams): `0x${string}` {
+    return encodeFunctionData({
+        abi: ROUTER_ABI,
+        functionName: "exactInputSingle",
+        args: [{
+            tokenIn: route.tokenIn,
+            tokenOut: route.tokenOut,
+            recipient: p.recipient,
+            deadline: NO_DEADLINE,
+            amountIn: p.amountIn,
+            amountOutMinimum: p.amountOutMin,
+            limitSqrtPrice: 0n,
+        }],
+    });
+}
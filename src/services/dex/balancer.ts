@@ -0,0 +1,77 @@
+import { encodeFunctionData, parseAbi, type Address, type PublicClient } from "viem";
+import { NO_DEADLINE, type DexAdapter, type DexQuote, type DexRoute, type SwapEncodeParams } from "./types";
+
+// Balancer V2 Vault, single swaps (GIVEN_IN) through the configured pools
+const VAULT_ABI = parseAbi([
+    "function getPoolTokens(bytes32 poolId) external view returns (address[] tokens,uint256[] balances,uint256 lastChangeBlock)",
+    "function queryBatchSwap(uint8 kind,(bytes32 poolId,uint256 assetInIndex,uint256 assetOutIndex,uint256 amount,bytes userData)[] swaps,address[] assets,(address sender,bool fromInternalBalance,address recipient,bool toInternalBalance) funds) external returns (int256[] assetDeltas)",
+    "function swap((bytes32 poolId,uint8 kind,address assetIn,address assetOut,uint256 amount,bytes userData) singleSwap,(address sender,bool fromInternalBalance,address recipient,bool toInternalBalance) funds,uint256 limit,uint256 deadline) external payable returns (uint256 amountCalculated)",
+]);
+const GIVEN_IN = 0;
+const ZERO: Address = "0x0000000000000000000000000000000000000000";
+
+export class BalancerAdapter implements DexAdapter {
+    readonly id = "balancer" as const;
+    private tokens = new Map<string, string[]>(); // poolId -> lowercased tokens, read once
+
+    constructor(private readonly client: PublicClient, private readonly vault: Address, private readonly poolIds: `0x${string}`[]) { }
+
+    async quoteExactInput(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<DexQuote | null> {
+        let best: DexQuote | null = null;
+        for (const poolId of this.poolIds) {
+            const tokens = await this.poolTokens(poolId);
+            if (!tokens.includes(tokenIn.toLowerCase()) || !tokens.includes(tokenOut.toLowerCase())) continue;
+            try {
+                // Deltas are from the Vault's side: the output leaves it (negative)
+                const { result } = await this.client.simulateContract({
+                    address: this.vault,
+                    abi: VAULT_ABI,
+                    functionName: "queryBatchSwap",
+                    args: [
+                        GIVEN_IN,
+                        [{ poolId, assetInIndex: 0n, assetOutIndex: 1n, amount: amountIn, userData: "0x" }],
+                        [tokenIn, tokenOut],
+                        { sender: ZERO, fromInternalBalance: false, recipient: ZERO, toInternalBalance: false },
+                    ],
+                });
+                const out = -result[1];
+                if (out > 0n && (best === null || out > best.amountOut)) {
+                    best = {
+                        amountOut: out,
+                        mode: `balancer_${poolId.slice(0, 10)}`,
+                        route: { dex: this.id, target: this.vault, tokenIn, tokenOut, params: { poolId } },
+                    };
+                }
+            } catch {
+                // pool paused / amount above its limits
+            }
+        }
+        return best;
+    }
+
+    private async poolTokens(poolId: `0x${string}`): Promise<string[]> {
+        const cached = this.tokens.get(poolId);
+        if (cached) return cached;
+        const [tokens] = await this.client.readContract({ address: this.vault, abi: VAULT_ABI, functionName: "getPoolTokens", args: [poolId] });
+        const out = tokens.map((t) => t.toLowerCase());
+        this.tokens.set(poolId, out);
+        return out;
+    }
+}
+
+// Byte offset of singleSwap.amount in the encoded call: the dynamic singleSwap tuple sits after the
+// 7-word head (its offset, funds, limit, deadline), amount is its 5th word
+export const BALANCER_AMOUNT_IN_OFFSET = 4 + 7 * 32 + 4 * 32;
+
+export function encodeBalancerSwap(route: DexRoute, p: SwapEncodeParams): `0x${string}` {
+    return encodeFunctionData({
+        abi: VAULT_ABI,
+        functionName: "swap",
+        args: [
+            { poolId: route.params.poolId as `0x${string}`, kind: GIVEN_IN, assetIn: route.tokenIn, assetOut: route.tokenOut, amount: p.amountIn, userData: "0x" },
+            { sender: p.recipient, fromInternalBalance: false, recipient: p.recipient, toInternalBalance: false },
+            p.amountOutMin,
+            NO_DEADLINE,
+        ],
+    });
+}
@@ -0,0 +1,84 @@
+import { encodeFunctionData, parseAbi, type Address, type PublicClient } from "viem";
+import type { DexAdapter, DexQuote, DexRoute, SwapEncodeParams } from "./types";
+
+// Plain / NG stableswap pools: int128 coin indices, exchange() pays msg.sender
+const POOL_ABI = parseAbi([
+    "function coins(uint256 i) external view returns (address)",
+    "function get_dy(int128 i,int128 j,uint256 dx) external view returns (uint256)",
+    "function exchange(int128 i,int128 j,uint256 dx,uint256 min_dy) external returns (uint256)",
+]);
+const MAX_COINS = 8;
+
+export class CurveAdapter implements DexAdapter {
+    readonly id = "curve" as const;
+    private coins = new Map<string, string[]>(); // pool -> lowercased coins, read once
+
+    constructor(private readonly client: PublicClient, private readonly pools: Address[]) { }
+
+    async quoteExactInput(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<DexQuote | null> {
+        const candidates: { pool: Address; i: number; j: number }[] = [];
+        for (const pool of this.pools) {
+            const coins = await this.poolCoins(pool);
+            const i = coins.indexOf(tokenIn.toLowerCase());
+            const j = coins.indexOf(tokenOut.toLowerCase());
+            if (i >= 0 && j >= 0) candidates.push({ pool, i, j });
+        }
+        if (candidates.length === 0) return null;
+
+        const results = await this.client.multicall({
+            contracts: candidates.map((c) => ({
+                address: c.pool,
+                abi: POOL_ABI,
+                functionName: "get_dy" as const,
+                args: [BigInt(c.i), BigInt(c.j), amountIn] as const,
+            })),
+        });
+
+        let best: DexQuote | null = null;
+        results.forEach((res, idx) => {
+            if (res.status !== "success") return;
+            const out = res.result as bigint;
+            const c = candidates[idx];
+            if (out > 0n && (best === null || out > best.amountOut)) {
+                best = {
+                    amountOut: out,
+                    mode: `curve_${c.pool.slice(0, 8)}_${c.i}_${c.j}`,
+                    route: { dex: this.id, target: c.pool, tokenIn, tokenOut, params: { i: c.i, j: c.j } },
+                };
+            }
+        });
+        return best;
+    }
+
+    private async poolCoins(pool: Address): Promise<string[]> {
+        const key = pool.toLowerCase();
+        const cached = this.coins.get(key);
+        if (cached) return cached;
+        const results = await this.client.multicall({
+            contracts: Array.from({ length: MAX_COINS }, (_, i) => ({
+                address: pool,
+                abi: POOL_ABI,
+                functionName: "coins" as const,
+                args: [BigInt(i)] as const,
+            })),
+        });
+        const coins: string[] = [];
+        for (const res of results) {
+            if (res.status !== "success") break; // past the last coin
+            coins.push((res.result as string).toLowerCase());
+        }
+        this.coins.set(key, coins);
+        return coins;
+    }
+}
+
+// Byte offset of dx in the encoded call: after i and j
+export const CURVE_AMOUNT_IN_OFFSET = 4 + 2 * 32;
+
+export function encodeCurveSwap(route: DexRoute, p: SwapEncodeParams): `0x${string}` {
+    return encodeFunctionData({
+        abi: POOL_ABI,
+        functionName: "exchange",
+        args: [BigInt(route.params.i as number), BigInt(route.params.j as number), p.amountIn, p.amountOutMin],
+    });
+}
@@ -0,0 +1,72 @@
+import { createPublicClient, getAddress, http, type Address, type PublicClient } from "viem";
+import { arbitrum, base } from "viem/chains";
+import type { AppConfig } from "../../config";
+import { logger } from "../../logger";
+import { AlgebraAdapter, ALGEBRA_AMOUNT_IN_OFFSET, encodeAlgebraSwap } from "./algebra";
+import { SolidlyAdapter, SOLIDLY_AMOUNT_IN_OFFSET, encodeSolidlySwap } from "./solidly";
+import { CurveAdapter, CURVE_AMOUNT_IN_OFFSET, encodeCurveSwap } from "./curve";
+import { BalancerAdapter, BALANCER_AMOUNT_IN_OFFSET, encodeBalancerSwap } from "./balancer";
+import type { DexAdapter, DexQuote, DexRoute, SwapEncodeParams } from "./types";
+
+export type { DexAdapter, DexId, DexQuote, DexRoute, SwapEncodeParams } from "./types";
+
+/** Non-Uniswap adapters enabled by config (Uniswap V3 is always quoted by quoteBest). */
+export function dexAdapters(cfg: AppConfig, client?: PublicClient): DexAdapter[] {
+    const c = client ?? (createPublicClient({
+        chain: cfg.CHAIN_ID === 8453 ? base : arbitrum,
+        transport: http(cfg.ARB_RPC_URL),
+        batch: { multicall: true },
+    }) as PublicClient);
+    const adapters: DexAdapter[] = [];
+    if (cfg.DEX_ALGEBRA_QUOTER && cfg.DEX_ALGEBRA_ROUTER) {
+        adapters.push(new AlgebraAdapter(c, getAddress(cfg.DEX_ALGEBRA_QUOTER), getAddress(cfg.DEX_ALGEBRA_ROUTER)));
+    }
+    if (cfg.DEX_SOLIDLY_ROUTER && cfg.DEX_SOLIDLY_FACTORY) {
+        adapters.push(new SolidlyAdapter(c, getAddress(cfg.DEX_SOLIDLY_ROUTER), getAddress(cfg.DEX_SOLIDLY_FACTORY)));
+    }
+    if (cfg.DEX_CURVE_POOLS.length > 0) {
+        adapters.push(new CurveAdapter(c, cfg.DEX_CURVE_POOLS.map((p) => getAddress(p))));
+    }
+    if (cfg.DEX_BALANCER_VAULT && cfg.DEX_BALANCER_POOL_IDS.length > 0) {
+        adapters.push(new BalancerAdapter(c, getAddress(cfg.DEX_BALANCER_VAULT), cfg.DEX_BALANCER_POOL_IDS as `0x${string}`[]));
+    }
+    return adapters;
+}
+
+/** Best exact-input quote over `adapters`; a failing adapter only drops out. */
+export async function quoteAdapters(adapters: DexAdapter[], tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<DexQuote | null> {
+    const quotes = await Promise.all(adapters.map(async (a) => {
+        try {
+            return await a.quoteExactInput(tokenIn, tokenOut, amountIn);
+        } catch (e: any) {
+            logger.debug({ dex: a.id, err: e?.shortMessage ?? e?.message }, "dex: quote failed");
+            return null;
+        }
+    }));
+    let best: DexQuote | null = null;
+    for (const q of quotes) if (q && (best === null || q.amountOut > best.amountOut)) best = q;
+    return best;
+}
+
+/** Executor `swapData` for a route: called on route.target with the seized collateral approved. */
+export function encodeDexSwap(route: DexRoute, p: SwapEncodeParams): `0x${string}` {
+    switch (route.dex) {
+        case "algebra": return encodeAlgebraSwap(route, p);
+        case "solidly": return encodeSolidlySwap(route, p);
+        case "curve": return encodeCurveSwap(route, p);
+        case "balancer": return encodeBalancerSwap(route, p);
+    }
+}
+
+/**
+ * Byte offset of the amountIn word in encodeDexSwap's calldata: the executor overwrites it with the
+ * collateral it actually received, which can differ from the simulated seize by the time the tx lands.
+ */
+export function dexAmountInOffset(route: DexRoute): number {
+    switch (route.dex) {
+        case "algebra": return ALGEBRA_AMOUNT_IN_OFFSET;
+        case "solidly": return SOLIDLY_AMOUNT_IN_OFFSET;
+        case "curve": return CURVE_AMOUNT_IN_OFFSET;
+        case "balancer": return BALANCER_AMOUNT_IN_OFFSET;
+    }
+}
@@ -0,0 +1,58 @@
+import { encodeFunctionData, parseAbi, type Address, type PublicClient } from "viem";
+import { NO_DEADLINE, type DexAdapter, type DexQuote, type DexRoute, type SwapEncodeParams } from "./types";
+
+// Aerodrome / Velodrome V2 router: a stable and a volatile pool per pair and factory
+const ROUTER_ABI = parseAbi([
+    "function getAmountsOut(uint256 amountIn,(address from,address to,bool stable,address factory)[] routes) external view returns (uint256[] amounts)",
+    "function swapExactTokensForTokens(uint256 amountIn,uint256 amountOutMin,(address from,address to,bool stable,address factory)[] routes,address to,uint256 deadline) external returns (uint256[] amounts)",
+]);
+
+export class SolidlyAdapter implements DexAdapter {
+    readonly id = "solidly" as const;
+
+    constructor(private readonly client: PublicClient, private readonly router: Address, private readonly factory: Address) { }
+
+    async quoteExactInput(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<DexQuote | null> {
+        const results = await this.client.multicall({
+            contracts: [false, true].map((stable) => ({
+                address: this.router,
+                abi: ROUTER_ABI,
+                functionName: "getAmountsOut" as const,
+                args: [amountIn, [{ from: tokenIn, to: tokenOut, stable, factory: this.factory }]] as const,
+            })),
+        });
+
+        let best: DexQuote | null = null;
+        results.forEach((res, idx) => {
+            if (res.status !== "success") return; // no pool of that kind
+            const amounts = res.result as readonly bigint[];
+            const out = amounts[amounts.length - 1] ?? 0n;
+            const stable = idx === 1;
+            if (out > 0n && (best === null || out > best.amountOut)) {
+                best = {
+                    amountOut: out,
+                    mode: `solidly_${stable ? "stable" : "volatile"}`,
+                    route: { dex: this.id, target: this.router, tokenIn, tokenOut, params: { stable, factory: this.factory } },
+                };
+            }
+        });
+        return best;
+    }
+}
+
+// Byte offset of amountIn in the encoded call: the first argument
+export const SOLIDLY_AMOUNT_IN_OFFSET = 4;
+
+export function encodeSolidlySwap(route: DexRoute, p: SwapEncodeParams): `0x${string}` {
+    return encodeFunctionData({
+        abi: ROUTER_ABI,
+        functionName: "swapExactTokensForTokens",
+        args: [
+            p.amountIn,
+            p.amountOutMin,
+            [{ from: route.tokenIn, to: route.tokenOut, stable: route.params.stable === true, factory: route.params.factory as Address }],
+            p.recipient,
+            NO_DEADLINE,
+        ],
+    });
+}
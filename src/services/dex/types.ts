@@ -0,0 +1,37 @@
+import type { Address } from "viem";
+
+export type DexId = "uniswap_v3" | "algebra" | "solidly" | "curve" | "balancer";
+
+/**
+ * A quoted non-Uniswap route, JSON-safe (tx_plan.json / tx_sim.json): `target` is the contract the
+ * executor calls, `params` what its adapter needs to encode the call (pool indices, pool id, ...).
+ */
+export type DexRoute = {
+    dex: Exclude<DexId, "uniswap_v3">;
+    target: Address;
+    tokenIn: Address;
+    tokenOut: Address;
+    params: Record<string, string | number | boolean>;
+};
+
+export type DexQuote = {
+    amountOut: bigint;
+    mode: string;     // e.g. "curve_0x1234…_0_1"
+    route: DexRoute;
+};
+
+/** Exact-input swap call, encoded at exec time (the recipient is the executor). */
+export type SwapEncodeParams = {
+    amountIn: bigint;
+    amountOutMin: bigint;
+    recipient: Address;
+};
+
+export interface DexAdapter {
+    readonly id: DexRoute["dex"];
+    /** Best exact-input quote of this DEX for tokenIn -> tokenOut; null when it has no pool for the pair. */
+    quoteExactInput(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<DexQuote | null>;
+}
+
+// Router deadlines are left open: the executor checks the order deadline itself
+export const NO_DEADLINE = (1n << 256n) - 1n;
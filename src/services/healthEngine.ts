@@ -0,0 +1,312 @@
+import { aTokenBalance, MAX_UINT256, mulDivCeil, normalizedDebt, normalizedIncome, percentMul, PERCENTAGE_FACTOR, variableDebtBalance, wadDiv } from "../lib/aaveMath";
+import type { PoolVersion } from "../lib/liquidationRules";
+
+type Num = bigint | string | number;
+
+export type ReserveState = {
+    asset: string;                // underlying, lowercase
+    id: number;                   // reserve index: bit position in user config / eMode bitmaps
+    symbol: string;
+    decimals: number;
+    ltv: number;                  // bps
+    liquidationThreshold: number; // bps
+    liquidationBonus: number;     // bps, e.g. 10500 = 5% bonus
+    liquidationProtocolFee: number; // bps of the bonus kept by the treasury (not in the UI provider: 0 until loaded)
+    usageAsCollateralEnabled: boolean;
+    borrowingEnabled: boolean;
+    isActive: boolean;
+    isFrozen: boolean;
+    isPaused: boolean;
+    isSiloedBorrowing: boolean;
+    borrowableInIsolation: boolean;
+    debtCeiling: bigint;          // 0 = not an isolated asset
+    liquidityIndex: bigint;       // ray
+    variableBorrowIndex: bigint;  // ray
+    liquidityRate: bigint;        // ray, per year
+    variableBorrowRate: bigint;   // ray, per year
+    lastUpdateTimestamp: bigint;
+    price: bigint;                // base currency (USD, 8 decimals on V3 markets)
+    aToken: string;
+    variableDebtToken: string;
+    priceSource: string;          // oracle source reported by the UI provider
+};
+
+export type EModeCategory = {
+    id: number;
+    label: string;
+    ltv: number;
+    liquidationThreshold: number;
+    liquidationBonus: number;
+    collateralBitmap: bigint;     // reserve ids that get the eMode LT/bonus as collateral
+    borrowableBitmap: bigint;
+};
+
+export type UserReservePosition = {
+    asset: string;
+    scaledATokenBalance: bigint;
+    usageAsCollateral: boolean;
+    scaledVariableDebt: bigint;
+};
+
+export type UserPosition = {
+    user: string;
+    eModeCategory: number;
+    reserves: UserReservePosition[]; // only reserves with a balance
+};
+
+/** One reserve's contribution to the account, base currency (same rounding as the Pool). */
+export type ReserveValue = {
+    asset: string;
+    price: bigint;
+    collateralBase: bigint;       // 0 when not counted as collateral
+    liquidationThreshold: number; // effective (eMode-aware) bps
+    debtBase: bigint;
+};
+
+/** Same fields/units as Pool.getUserAccountData (minus borrow capacity). */
+export type AccountData = {
+    totalCollateralBase: bigint;
+    totalDebtBase: bigint;
+    currentLiquidationThreshold: bigint; // bps, collateral-weighted
+    healthFactor: bigint;                // wad; MAX_UINT256 without debt
+};
+
+/**
+ * Local replica of GenericLogic.calculateUserAccountData (Aave V3.2+ eMode bitmaps), with the
+ * rounding of the configured Pool version. Holds reserve state + user scaled balances in memory;
+ * price/index updates return the users they touch so callers recompute only those.
+ */
+export class HealthEngine {
+    constructor(readonly version: PoolVersion = "3.3") { }
+
+    private reserves = new Map<string, ReserveState>();
+    private emodes = new Map<number, EModeCategory>();
+    private positions = new Map<string, UserPosition>();
+    private exposure = new Map<string, Set<string>>(); // reserve -> users holding it
+
+    setMarket(reserves: ReserveState[], emodes: EModeCategory[]) {
+        this.reserves = new Map(reserves.map((r) => [r.asset, r]));
+        this.emodes = new Map(emodes.map((e) => [e.id, e]));
+    }
+
+    reserve(asset: string): ReserveState | undefined {
+        return this.reserves.get(asset.toLowerCase());
+    }
+
+    reserveList(): ReserveState[] {
+        return Array.from(this.reserves.values());
+    }
+
+    eMode(id: number): EModeCategory | undefined {
+        return this.emodes.get(id);
+    }
+
+    position(user: string): UserPosition | undefined {
+        return this.positions.get(user.toLowerCase());
+    }
+
+    users(): string[] {
+        return Array.from(this.positions.keys());
+    }
+
+    setPosition(pos: UserPosition) {
+        this.removePosition(pos.user);
+        const p = { ...pos, user: pos.user.toLowerCase() };
+        this.positions.set(p.user, p);
+        for (const r of p.reserves) {
+            let s = this.exposure.get(r.asset);
+            if (!s) this.exposure.set(r.asset, (s = new Set()));
+            s.add(p.user);
+        }
+    }
+
+    removePosition(user: string) {
+        const u = user.toLowerCase();
+        const prev = this.positions.get(u);
+        if (!prev) return;
+        for (const r of prev.reserves) this.exposure.get(r.asset)?.delete(u);
+        this.positions.delete(u);
+    }
+
+    usersExposedTo(asset: string): string[] {
+        return Array.from(this.exposure.get(asset.toLowerCase()) ?? []);
+    }
+
+    /** New oracle answer. Returns the users whose HF it moves. */
+    updatePrice(asset: string, price: bigint): string[] {
+        const r = this.reserve(asset);
+        if (!r) return [];
+        r.price = price;
+        return this.usersExposedTo(asset);
+    }
+
+    /** New indexes/rates (ReserveDataUpdated). Returns the users whose HF it moves. */
+    updateReserve(asset: string, patch: Partial<Pick<ReserveState,
+        "liquidityIndex" | "variableBorrowIndex" | "liquidityRate" | "variableBorrowRate" | "lastUpdateTimestamp">>): string[] {
+        const r = this.reserve(asset);
+        if (!r) return [];
+        Object.assign(r, patch);
+        return this.usersExposedTo(asset);
+    }
+
+    /** Per-reserve breakdown. `now`: chain timestamp (seconds) the indexes are accrued to. Null when the user or a reserve is unknown. */
+    reserveValues(user: string, now: bigint = nowSeconds()): ReserveValue[] | null {
+        const pos = this.position(user);
+        if (!pos) return null;
+
+        const emode = pos.eModeCategory !== 0 ? this.emodes.get(pos.eModeCategory) : undefined;
+        const out: ReserveValue[] = [];
+        for (const ur of pos.reserves) {
+            const r = this.reserves.get(ur.asset);
+            if (!r) return null;
+            const assetUnit = 10n ** BigInt(r.decimals);
+            const v: ReserveValue = { asset: r.asset, price: r.price, collateralBase: 0n, liquidationThreshold: r.liquidationThreshold, debtBase: 0n };
+
+            if (r.liquidationThreshold !== 0 && ur.usageAsCollateral && ur.scaledATokenBalance > 0n) {
+                const income = normalizedIncome(r.liquidityIndex, r.liquidityRate, r.lastUpdateTimestamp, now);
+                v.collateralBase = (aTokenBalance(ur.scaledATokenBalance, income, this.version) * r.price) / assetUnit;
+                const inEMode = emode !== undefined && ((emode.collateralBitmap >> BigInt(r.id)) & 1n) === 1n;
+                if (inEMode) v.liquidationThreshold = emode.liquidationThreshold;
+            }
+
+            if (ur.scaledVariableDebt > 0n) {
+                const index = normalizedDebt(r.variableBorrowIndex, r.variableBorrowRate, r.lastUpdateTimestamp, now, this.version);
+                const debt = variableDebtBalance(ur.scaledVariableDebt, index, this.version);
+                v.debtBase = this.version === "3.6" ? mulDivCeil(debt, r.price, assetUnit) : (debt * r.price) / assetUnit;
+            }
+            out.push(v);
+        }
+        return out;
+    }
+
+    accountData(user: string, now: bigint = nowSeconds()): AccountData | null {
+        const values = this.reserveValues(user, now);
+        if (!values) return null;
+
+        let totalCollateralBase = 0n;
+        let totalDebtBase = 0n;
+        let weightedLt = 0n;
+        for (const v of values) {
+            totalCollateralBase += v.collateralBase;
+            totalDebtBase += v.debtBase;
+            weightedLt += v.collateralBase * BigInt(v.liquidationThreshold);
+        }
+
+        const currentLiquidationThreshold = totalCollateralBase !== 0n ? weightedLt / totalCollateralBase : 0n;
+        let healthFactor = MAX_UINT256;
+        if (totalDebtBase !== 0n) {
+            // 3.6 divides the weighted sum before averaging it
+            healthFactor = this.version === "3.6"
+                ? wadDiv(weightedLt, totalDebtBase) / PERCENTAGE_FACTOR
+                : wadDiv(percentMul(totalCollateralBase, currentLiquidationThreshold), totalDebtBase);
+        }
+        return { totalCollateralBase, totalDebtBase, currentLiquidationThreshold, healthFactor };
+    }
+
+    healthFactor(user: string, now?: bigint): number | null {
+        const a = this.accountData(user, now);
+        return a ? Number(a.healthFactor) / 1e18 : null;
+    }
+}
+
+// --- UiPoolDataProviderV3 (3.3 / 3.6) shapes -> engine state. Accept bigint or decimal strings (recorded fixtures). ---
+
+export type UiReserveData = {
+    underlyingAsset: string;
+    symbol: string;
+    decimals: Num;
+    baseLTVasCollateral: Num;
+    reserveLiquidationThreshold: Num;
+    reserveLiquidationBonus: Num;
+    usageAsCollateralEnabled: boolean;
+    borrowingEnabled: boolean;
+    isActive: boolean;
+    isFrozen: boolean;
+    isPaused: boolean;
+    isSiloedBorrowing: boolean;
+    borrowableInIsolation: boolean;
+    debtCeiling: Num;
+    liquidityIndex: Num;
+    variableBorrowIndex: Num;
+    liquidityRate: Num;
+    variableBorrowRate: Num;
+    lastUpdateTimestamp: Num;
+    priceInMarketReferenceCurrency: Num;
+    aTokenAddress: string;
+    variableDebtTokenAddress: string;
+    priceOracle: string;
+};
+
+export type UiEMode = {
+    id: Num;
+    eMode: { ltv: Num; liquidationThreshold: Num; liquidationBonus: Num; collateralBitmap: Num; label: string; borrowableBitmap: Num };
+};
+
+export type UiUserReserveData = {
+    underlyingAsset: string;
+    scaledATokenBalance: Num;
+    usageAsCollateralEnabledOnUser: boolean;
+    scaledVariableDebt: Num;
+};
+
+/** The UI provider lists reserves in Pool.getReservesList() order, i.e. by reserve id. */
+export function reservesFromUi(raw: readonly UiReserveData[]): ReserveState[] {
+    return raw.map((r, id) => ({
+        asset: r.underlyingAsset.toLowerCase(),
+        id,
+        symbol: r.symbol,
+        decimals: Number(r.decimals),
+        ltv: Number(r.baseLTVasCollateral),
+        liquidationThreshold: Number(r.reserveLiquidationThreshold),
+        liquidationBonus: Number(r.reserveLiquidationBonus),
+        liquidationProtocolFee: 0,
+        usageAsCollateralEnabled: r.usageAsCollateralEnabled,
+        borrowingEnabled: r.borrowingEnabled,
+        isActive: r.isActive,
+        isFrozen: r.isFrozen,
+        isPaused: r.isPaused,
+        isSiloedBorrowing: r.isSiloedBorrowing,
+        borrowableInIsolation: r.borrowableInIsolation,
+        debtCeiling: BigInt(r.debtCeiling),
+        liquidityIndex: BigInt(r.liquidityIndex),
+        variableBorrowIndex: BigInt(r.variableBorrowIndex),
+        liquidityRate: BigInt(r.liquidityRate),
+        variableBorrowRate: BigInt(r.variableBorrowRate),
+        lastUpdateTimestamp: BigInt(r.lastUpdateTimestamp),
+        price: BigInt(r.priceInMarketReferenceCurrency),
+        aToken: r.aTokenAddress.toLowerCase(),
+        variableDebtToken: r.variableDebtTokenAddress.toLowerCase(),
+        priceSource: r.priceOracle.toLowerCase(),
+    }));
+}
+
+export function emodesFromUi(raw: readonly UiEMode[]): EModeCategory[] {
+    return raw.map((e) => ({
+        id: Number(e.id),
+        label: e.eMode.label,
+        ltv: Number(e.eMode.ltv),
+        liquidationThreshold: Number(e.eMode.liquidationThreshold),
+        liquidationBonus: Number(e.eMode.liquidationBonus),
+        collateralBitmap: BigInt(e.eMode.collateralBitmap),
+        borrowableBitmap: BigInt(e.eMode.borrowableBitmap),
+    }));
+}
+
+export function positionFromUi(user: string, raw: readonly UiUserReserveData[], eModeCategory: Num): UserPosition {
+    return {
+        user: user.toLowerCase(),
+        eModeCategory: Number(eModeCategory),
+        reserves: raw
+            .map((r) => ({
+                asset: r.underlyingAsset.toLowerCase(),
+                scaledATokenBalance: BigInt(r.scaledATokenBalance),
+                usageAsCollateral: r.usageAsCollateralEnabledOnUser,
+                scaledVariableDebt: BigInt(r.scaledVariableDebt),
+            }))
+            .filter((r) => r.scaledATokenBalance > 0n || r.scaledVariableDebt > 0n),
+    };
+}
+
+function nowSeconds(): bigint {
+    return BigInt(Math.floor(Date.now() / 1000));
+}
@@ -0,0 +1,142 @@
+import type { Log } from "viem";
+import { logger } from "../logger";
+
+export type LogRangeFetch = (fromBlock: bigint, toBlock: bigint) => Promise<Log[]>;
+
+/** Called once per fully fetched sub-range, in walk order. Safe point to persist a cursor. */
+export type OnRangeDone = (fromBlock: bigint, toBlock: bigint, logs: Log[]) => Promise<void> | void;
+
+export type FetchDirection = "forward" | "backward";
+
+export type AdaptiveFetcherOpts = {
+    initialWindow: bigint;
+    minWindow: bigint;
+    maxWindow: bigint;
+    growAfter?: number; // consecutive successes before doubling the window (default 3)
+};
+
+// Provider phrasings for "shrink your range" (Alchemy, Infura, QuickNode, Ankr, llamarpc, publicnode...)
+const RANGE_ERROR_PATTERNS = [
+    "range too large",
+    "range is too large",
+    "block range",
+    "too many results",
+    "more than 10000 results",
+    "query returned more than",
+    "response size exceeded",
+    "log response size",
+    "exceed maximum block",
+    "exceeds max block",
+    "exceeds max results",
+    "too many blocks",
+];
+
+// Throttling / overload: a smaller range only means more requests, the caller has to back off instead
+const RATE_LIMIT_PATTERNS = [
+    "rate limit",
+    "rate exceeded",
+    "too many requests",
+    "limit exceeded", // Infura -32005 "Limit exceeded"
+    "compute units",
+    "throughput",
+    "capacity",
+    "query timeout",
+    "daily request",
+];
+
+function errorText(e: any): string {
+    return String(e?.details ?? e?.shortMessage ?? e?.message ?? e ?? "").toLowerCase();
+}
+
+export function isRateLimitError(e: any): boolean {
+    const status = e?.status ?? e?.cause?.status;
+    if (status === 429) return true;
+    const msg = errorText(e);
+    return RATE_LIMIT_PATTERNS.some((p) => msg.includes(p)) && !RANGE_ERROR_PATTERNS.some((p) => msg.includes(p));
+}
+
+export function isRangeLimitError(e: any): boolean {
+    if (isRateLimitError(e)) return false;
+    const code = e?.code ?? e?.cause?.code;
+    if (code === -32005) return true; // LimitExceeded, with a range/result-size message
+    const msg = errorText(e);
+    return RANGE_ERROR_PATTERNS.some((p) => msg.includes(p));
+}
+
+/** Alchemy-style hint: "...this block range should work: [0x1, 0x2]". Returns the suggested span. */
+export function suggestedSpan(e: any): bigint | null {
+    const msg = String(e?.details ?? e?.message ?? "");
+    const m = msg.match(/\[(0x[0-9a-fA-F]+),\s*(0x[0-9a-fA-F]+)\]/);
+    if (!m) return null;
+    const span = BigInt(m[2]) - BigInt(m[1]) + 1n;
+    return span > 0n ? span : null;
+}
+
+/**
+ * eth_getLogs walker that bisects on provider range/result limits and grows back after successes.
+ * Sub-ranges are reported through onRange strictly contiguous, so a cursor persisted there never
+ * skips blocks. Any non-limit error (rate limits included) is rethrown after the completed prefix was delivered.
+ */
+export class AdaptiveLogFetcher {
+    window: bigint;
+    private readonly minWindow: bigint;
+    private readonly maxWindow: bigint;
+    private readonly growAfter: number;
+    private streak = 0;
+
+    constructor(opts: AdaptiveFetcherOpts) {
+        this.minWindow = opts.minWindow > 0n ? opts.minWindow : 1n;
+        this.maxWindow = opts.maxWindow >= this.minWindow ? opts.maxWindow : this.minWindow;
+        this.window = clamp(opts.initialWindow, this.minWindow, this.maxWindow);
+        this.growAfter = opts.growAfter ?? 3;
+    }
+
+    async fetch(
+        fromBlock: bigint,
+        toBlock: bigint,
+        fetchFn: LogRangeFetch,
+        onRange?: OnRangeDone,
+        direction: FetchDirection = "forward"
+    ): Promise<{ logs: Log[]; requests: number }> {
+        const all: Log[] = [];
+        let requests = 0;
+        let lo = fromBlock;
+        let hi = toBlock;
+
+        while (lo <= hi) {
+            const span = this.window;
+            const a = direction === "forward" ? lo : max(lo, hi - span + 1n);
+            const b = direction === "forward" ? min(hi, lo + span - 1n) : hi;
+
+            let logs: Log[];
+            try {
+                requests++;
+                logs = await fetchFn(a, b);
+            } catch (e: any) {
+                if (!isRangeLimitError(e) || b - a + 1n <= this.minWindow) throw e;
+                const hint = suggestedSpan(e);
+                const next = hint !== null && hint < b - a + 1n ? hint : (b - a + 1n) / 2n;
+                this.window = clamp(next, this.minWindow, this.maxWindow);
+                this.streak = 0;
+                logger.debug({ from: a.toString(), to: b.toString(), window: this.window.toString() }, "getLogs: range limited, bisecting");
+                continue;
+            }
+
+            all.push(...logs);
+            if (onRange) await onRange(a, b, logs);
+
+            if (direction === "forward") lo = b + 1n;
+            else hi = a - 1n;
+
+            if (++this.streak >= this.growAfter && this.window < this.maxWindow) {
+                this.window = clamp(this.window * 2n, this.minWindow, this.maxWindow);
+                this.streak = 0;
+            }
+        }
+        return { logs: all, requests };
+    }
+}
+
+function min(a: bigint, b: bigint) { return a < b ? a : b; }
+function max(a: bigint, b: bigint) { return a > b ? a : b; }
+function clamp(v: bigint, lo: bigint, hi: bigint) { return v < lo ? lo : v > hi ? hi : v; }
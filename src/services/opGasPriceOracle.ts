@@ -0,0 +1,29 @@
+import { createPublicClient, formatUnits, http, zeroAddress, type Address, type Hex } from "viem";
+import { base } from "viem/chains";
+import { estimateL1Fee } from "viem/op-stack";
+
+export const OP_GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F" as const;
+
+/**
+ * L1 data fee of a transaction on an OP-stack chain (Base): GasPriceOracle.getL1Fee on the
+ * unsigned serialized transaction, which is what the sequencer charges on top of the L2 gas.
+ */
+export async function estimateOpL1FeeUsd(args: {
+    rpcUrl: string;
+    to: Address;
+    data: Hex;
+    ethPriceUsd: number;
+    oracleAddr?: Address;
+}) {
+    const client = createPublicClient({ chain: base, transport: http(args.rpcUrl) });
+    const feeWei = await estimateL1Fee(client, {
+        account: zeroAddress, // the sender is not part of the unsigned transaction
+        to: args.to,
+        data: args.data,
+        gasPriceOracleAddress: args.oracleAddr ?? OP_GAS_PRICE_ORACLE,
+    });
+    return {
+        l1FeeWei: feeWei,
+        l1FeeUsd: Number(formatUnits(feeWei, 18)) * args.ethPriceUsd,
+    };
+}
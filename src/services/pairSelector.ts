@@ -0,0 +1,180 @@
+import type { Address } from "viem";
+import type { UserAsset, UserAssets } from "../lib/getUserAssets";
+import { WAD } from "../lib/aaveMath";
+import { sizeLiquidation, type LiquidationSize, type PoolVersion } from "../lib/liquidationRules";
+import type { DexRoute } from "./dex";
+
+export type SwapQuote = {
+    amountOut: bigint;      // debt asset units
+    path: `0x${string}`;    // Uniswap V3 path collateral -> debt ("0x" for another DEX)
+    mode: string;
+    dexRoute?: DexRoute | null; // set when another DEX beats Uniswap
+};
+
+/** collateral -> debt quote for an exact input; null when no route. */
+export type QuoteFn = (tokenIn: Address, tokenOut: Address, amountIn: bigint) => Promise<SwapQuote | null>;
+
+export type PairScore = {
+    debtAsset: Address;
+    collateralAsset: Address;
+    debtSymbol: string;
+    collateralSymbol: string;
+    repayAmount: bigint;    // debt units
+    seizeAmount: bigint;    // collateral units to the liquidator (bonus included, protocol fee excluded)
+    protocolFeeUsd: number;
+    limitedBy: LiquidationSize["limitedBy"];
+    fullClose: boolean;     // 100% close factor applies
+    dust: string | null;    // dust-rule adjustment, if any
+    bonusBps: number;
+    eMode: boolean;         // bonus is the user's eMode category bonus
+    repayUsd: number;
+    seizeUsd: number;       // oracle value of the seized collateral
+    swapOutUsd: number;     // expected swap proceeds (quote, or oracle minus slippage when not quoted)
+    expectedOut: bigint;    // debt units: quote amountOut, or oracle value of the seized collateral
+    debtDecimals: number;
+    debtPriceUsd: number;
+    flashFeeUsd: number;
+    netUsd: number;         // swapOut - repay - flash fee (before gas)
+    quote: SwapQuote | null;
+    quoted: boolean;
+};
+
+export type PairSelection = {
+    best: PairScore | null;
+    ranked: PairScore[];    // best first
+    skipped: string[];      // reserves / pairs the Pool would refuse, with the reason
+    reason: string;
+};
+
+export type PairSelectorOpts = {
+    poolVersion: PoolVersion; // close factor / dust rules
+    flashFeeBps: number;
+    slippageBps: number;      // haircut for pairs scored on oracle prices only
+    quoteTop: number;         // max swap quotes per user
+    quote?: QuoteFn;
+};
+
+/**
+ * Scores every (debt, collateral) combination of a user:
+ * repay = what the Pool's close factor and dust rules allow, seize = repay value × bonus (capped by the collateral balance),
+ * then the leading pairs are re-scored with an actual swap quote.
+ */
+export async function selectPair(assets: UserAssets, opts: PairSelectorOpts): Promise<PairSelection> {
+    if (assets.healthFactor >= WAD) {
+        const why = `HF ${(Number(assets.healthFactor) / 1e18).toFixed(4)} >= 1`;
+        return { best: null, ranked: [], skipped: [why], reason: why };
+    }
+    const skipped: string[] = [];
+    const debts = assets.assets.filter((a) => a.debt > 0n && liquidatable(a, "debt", skipped));
+    const colls = assets.assets.filter((a) => a.collateral > 0n && liquidatable(a, "collateral", skipped));
+
+    const scored: PairScore[] = [];
+    for (const d of debts) {
+        for (const c of colls) {
+            const size = sizeLiquidation({
+                version: opts.poolVersion,
+                healthFactor: assets.healthFactor,
+                totalDebtBase: assets.totalDebtBase,
+                debt: { amount: d.debt, price: d.price, decimals: d.decimals },
+                collateral: {
+                    amount: c.collateral,
+                    price: c.price,
+                    decimals: c.decimals,
+                    liquidationBonus: c.liquidationBonus,
+                    liquidationProtocolFee: c.liquidationProtocolFee,
+                },
+            });
+            // The executor always swaps collateral -> debt
+            if (d.asset === c.asset) skipped.push(`${c.symbol}->${d.symbol}: same asset, no swap route`);
+            else if (size.dust === "violation") skipped.push(`${c.symbol}->${d.symbol}: dust (${size.note})`);
+            else scored.push(oracleScore(d, c, size, opts));
+        }
+    }
+    if (scored.length === 0) {
+        return { best: null, ranked: [], skipped, reason: skipped.length ? skipped.join("; ") : "no debt/collateral pair" };
+    }
+    scored.sort((a, b) => b.netUsd - a.netUsd);
+
+    // Quote the current leader until it holds after its quote (or the quote budget runs out)
+    for (let n = 0; opts.quote && n < opts.quoteTop; n++) {
+        const p = scored[0];
+        if (p.quoted) break;
+        const d = debts.find((x) => x.asset === p.debtAsset)!;
+        p.quoted = true;
+        try {
+            p.quote = await opts.quote(p.collateralAsset, p.debtAsset, p.seizeAmount);
+        } catch {
+            p.quote = null;
+        }
+        p.expectedOut = p.quote?.amountOut ?? 0n;
+        p.swapOutUsd = usd(p.expectedOut, d);
+        p.netUsd = p.swapOutUsd - p.repayUsd - p.flashFeeUsd;
+        scored.sort((a, b) => b.netUsd - a.netUsd);
+    }
+
+    const best = scored[0];
+    const why = [
+        `${best.collateralSymbol}->${best.debtSymbol}`,
+        `bonus ${((best.bonusBps - 10_000) / 100).toFixed(2)}%${best.eMode ? " (eMode)" : ""}`,
+        `repay $${best.repayUsd.toFixed(2)} (${best.limitedBy}${best.fullClose ? ", 100% close" : ""})`,
+        `seize $${best.seizeUsd.toFixed(2)}${best.protocolFeeUsd > 0 ? ` (+$${best.protocolFeeUsd.toFixed(2)} protocol fee)` : ""}`,
+        `${best.quoted ? (best.quote ? `swap ${best.quote.mode}` : "no route") : "oracle est."} $${best.swapOutUsd.toFixed(2)}`,
+        `net $${best.netUsd.toFixed(2)}`,
+    ];
+    if (best.dust) why.push(`dust: ${best.dust}`);
+    if (assets.isolated) why.push("isolation mode");
+    if (scored.length > 1) {
+        const next = scored[1];
+        why.push(`next ${next.collateralSymbol}->${next.debtSymbol} $${next.netUsd.toFixed(2)} (${scored.length} pairs)`);
+    }
+    return { best, ranked: scored, skipped, reason: why.join(" | ") };
+}
+
+function oracleScore(d: UserAsset, c: UserAsset, size: LiquidationSize, opts: PairSelectorOpts): PairScore {
+    const repayAmount = size.debtToCover;
+    const seizeAmount = size.collateralToSeize;
+    const repayUsd = usd(repayAmount, d);
+    const seizeUsd = usd(seizeAmount, c);
+    const protocolFeeUsd = usd(size.protocolFee, c);
+    const flashFeeUsd = (repayUsd * opts.flashFeeBps) / 10_000;
+    const swapOutUsd = seizeUsd * (1 - opts.slippageBps / 10_000);
+    return {
+        debtAsset: d.asset,
+        collateralAsset: c.asset,
+        debtSymbol: d.symbol,
+        collateralSymbol: c.symbol,
+        repayAmount,
+        seizeAmount,
+        limitedBy: size.limitedBy,
+        fullClose: size.fullClose,
+        dust: size.dust === "adjusted" ? size.note : null,
+        bonusBps: c.liquidationBonus,
+        eMode: c.inEMode,
+        repayUsd,
+        seizeUsd,
+        protocolFeeUsd,
+        swapOutUsd,
+        expectedOut: (seizeAmount * c.price * 10n ** BigInt(d.decimals)) / (d.price * 10n ** BigInt(c.decimals)),
+        debtDecimals: d.decimals,
+        debtPriceUsd: d.priceUsd,
+        flashFeeUsd,
+        netUsd: swapOutUsd - repayUsd - flashFeeUsd,
+        quote: null,
+        quoted: false,
+    };
+}
+
+/** ValidationLogic.validateLiquidationCall reserve checks (frozen reserves remain liquidatable). */
+function liquidatable(a: UserAsset, side: "debt" | "collateral", skipped: string[]): boolean {
+    let why: string | null = null;
+    if (!a.isActive) why = "reserve inactive";
+    else if (a.isPaused) why = "reserve paused";
+    else if (side === "collateral" && !a.collateralEnabledByUser) why = "collateral disabled by user";
+    else if (side === "collateral" && !a.usageAsCollateral) why = "LT is 0, not collateral";
+    if (why) skipped.push(`${a.symbol} ${side}: ${why}`);
+    return why === null;
+}
+
+function usd(amount: bigint, a: UserAsset): number {
+    return (Number(amount) / 10 ** a.decimals) * a.priceUsd;
+}
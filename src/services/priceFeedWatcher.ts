@@ -0,0 +1,144 @@
+import { parseAbi, parseEventLogs, type Address, type PublicClient } from "viem";
+import { logger } from "../logger";
+
+const POOL_ABI = parseAbi(["function getReservesList() external view returns (address[])"]);
+const PROVIDER_ABI = parseAbi(["function getPriceOracle() external view returns (address)"]);
+const AAVE_ORACLE_ABI = parseAbi(["function getSourceOfAsset(address asset) external view returns (address)"]);
+// Chainlink proxy -> current aggregator; Aave adapters (CAPO, synchronicity) wrap one or two Chainlink proxies
+const PROXY_ABI = parseAbi(["function aggregator() external view returns (address)"]);
+const ADAPTER_ABI = parseAbi([
+    "function ASSET_TO_USD_AGGREGATOR() external view returns (address)",
+    "function BASE_TO_USD_AGGREGATOR() external view returns (address)",
+    "function ASSET_TO_PEG() external view returns (address)",
+    "function BASE_TO_USD() external view returns (address)",
+]);
+export const ANSWER_UPDATED_ABI = parseAbi([
+    "event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt)",
+]);
+
+export type FeedUpdate = {
+    aggregator: string;
+    assets: string[];        // Aave reserves priced (partly) from this aggregator, lowercase
+    answer: bigint;
+    blockNumber: bigint;
+};
+
+export type PriceFeedWatcherOpts = {
+    poolAddr: Address;
+    addressesProvider: Address;
+    resolveEveryMs: number;  // re-map sources (Chainlink phase changes, Aave source swaps)
+    maxLookback: number;     // blocks; after a long stall only the recent past matters
+};
+
+/**
+ * Maps every Aave reserve to the Chainlink aggregators behind its oracle source and polls their
+ * AnswerUpdated logs once per sentry cycle (one getLogs for all feeds).
+ */
+export class PriceFeedWatcher {
+    private feeds = new Map<string, Set<string>>(); // aggregator -> reserves
+    private unmapped: string[] = [];
+    private lastBlock: bigint | null = null;
+    private resolvedAt = 0;
+
+    constructor(private readonly client: PublicClient, private readonly opts: PriceFeedWatcherOpts) { }
+
+    aggregators(): string[] {
+        return Array.from(this.feeds.keys());
+    }
+
+    /** Reserves whose source could not be traced to an aggregator (only covered by the rotation). */
+    unmappedAssets(): string[] {
+        return this.unmapped;
+    }
+
+    async resolve() {
+        const reserves = await this.client.readContract({ address: this.opts.poolAddr, abi: POOL_ABI, functionName: "getReservesList" });
+        const oracle = await this.client.readContract({ address: this.opts.addressesProvider, abi: PROVIDER_ABI, functionName: "getPriceOracle" });
+
+        const feeds = new Map<string, Set<string>>();
+        const unmapped: string[] = [];
+        await Promise.all(reserves.map(async (asset) => {
+            const a = asset.toLowerCase();
+            try {
+                const source = await this.client.readContract({ address: oracle, abi: AAVE_ORACLE_ABI, functionName: "getSourceOfAsset", args: [asset] });
+                const aggs = await this.aggregatorsOf(source);
+                if (aggs.length === 0) unmapped.push(a);
+                for (const agg of aggs) {
+                    let s = feeds.get(agg);
+                    if (!s) feeds.set(agg, (s = new Set()));
+                    s.add(a);
+                }
+            } catch {
+                unmapped.push(a);
+            }
+        }));
+
+        this.feeds = feeds;
+        this.unmapped = unmapped;
+        this.resolvedAt = Date.now();
+        logger.info({ reserves: reserves.length, aggregators: feeds.size, unmapped: unmapped.length }, "📡 Price feeds mapped");
+    }
+
+    /** AnswerUpdated logs since the previous call, up to `head`. First call only sets the start block. */
+    async poll(head: bigint): Promise<FeedUpdate[]> {
+        if (Date.now() - this.resolvedAt >= this.opts.resolveEveryMs) {
+            try {
+                await this.resolve();
+            } catch (e: any) {
+                logger.warn({ err: e?.shortMessage ?? e?.message }, "📡 Price feed mapping failed, keeping previous map");
+                this.resolvedAt = Date.now();
+            }
+        }
+        if (this.lastBlock === null) {
+            this.lastBlock = head;
+            return [];
+        }
+        if (head <= this.lastBlock || this.feeds.size === 0) return [];
+
+        const floor = head - BigInt(this.opts.maxLookback) + 1n;
+        const fromBlock = this.lastBlock + 1n > floor ? this.lastBlock + 1n : floor;
+        let logs;
+        try {
+            logs = await this.client.getLogs({
+                address: this.aggregators() as Address[],
+                event: ANSWER_UPDATED_ABI[0],
+                fromBlock,
+                toBlock: head,
+            });
+        } catch (e: any) {
+            logger.warn({ err: e?.shortMessage ?? e?.message }, "📡 Price feed poll failed, retrying next cycle");
+            return [];
+        }
+        this.lastBlock = head;
+
+        return parseEventLogs({ abi: ANSWER_UPDATED_ABI, logs, strict: true }).map((l) => ({
+            aggregator: l.address.toLowerCase(),
+            assets: Array.from(this.feeds.get(l.address.toLowerCase()) ?? []),
+            answer: l.args.current,
+            blockNumber: l.blockNumber,
+        }));
+    }
+
+    private async aggregatorsOf(source: Address): Promise<string[]> {
+        const direct = await this.tryRead(source, PROXY_ABI, "aggregator");
+        if (direct) return [direct.toLowerCase()];
+
+        // Adapter: resolve each wrapped Chainlink proxy (ratio feeds included)
+        const out: string[] = [];
+        for (const fn of ["ASSET_TO_USD_AGGREGATOR", "BASE_TO_USD_AGGREGATOR", "ASSET_TO_PEG", "BASE_TO_USD"] as const) {
+            const proxy = await this.tryRead(source, ADAPTER_ABI, fn);
+            if (!proxy) continue;
+            const agg = await this.tryRead(proxy, PROXY_ABI, "aggregator");
+            out.push((agg ?? proxy).toLowerCase());
+        }
+        return out;
+    }
+
+    private async tryRead(address: Address, abi: readonly unknown[], functionName: string): Promise<Address | null> {
+        try {
+            return (await this.client.readContract({ address, abi: abi as any, functionName })) as Address;
+        } catch {
+            return null;
+        }
+    }
+}
@@ -1,12 +1,15 @@
 import { createPublicClient, http, encodeFunctionData, decodeFunctionResult, parseAbi } from "viem";
 import { arbitrum } from "viem/chains";
+import { quoteAdapters, type DexAdapter, type DexId, type DexRoute } from "./dex";
+import type { V3Leg, V3LocalQuote, V3PoolCache, V3PoolSnapshot } from "./v3PoolCache";
 
 export type QuoteFail = {
   fee: number;
   leg: "single" | "hop1" | "hop2";
   tokenIn: `0x${string}`;
   tokenOut: `0x${string}`;
-  amountIn: string;
+  amountIn?: string;  // exact-input searches
+  amountOut?: string; // exact-output searches
   msg: string;
 };
 
@@ -18,6 +21,23 @@ export type QuoteBestResult = {
   // NEW: Uniswap V3 path bytes for SwapRouter02.exactInput
   path: `0x${string}`;
 
+  dex: DexId;
+  dexRoute: DexRoute | null; // non-Uniswap winner: the executor calls it (path is then "0x")
+
+  attempts: number;
+  fails: number;
+  firstFail: QuoteFail | null;
+};
+
+export type QuoteBestExactOutResult = {
+  amountIn: bigint;  // least tokenIn found for the requested amountOut
+  amountOut: bigint;
+  mode: string;      // e.g. "quoterV2_out_fee_500" | "quoterV2_out_2hop_weth_500_3000"
+  route: string;
+
+  // Uniswap V3 path bytes for SwapRouter02.exactOutput: tokenOut first (reversed)
+  path: `0x${string}`;
+
   attempts: number;
   fails: number;
   firstFail: QuoteFail | null;
@@ -32,10 +52,16 @@ type Args = {
   fees: number[];
   intermediates: `0x${string}`[];
   maxFeesPerLeg?: number; // default 3
+  adapters?: DexAdapter[]; // other DEXes, best-of with Uniswap V3
+  local?: V3PoolCache | null; // answer QuoterV2 calls from cached pool state where it can
 };
 
+type ExactOutArgs = Omit<Args, "amountIn" | "adapters"> & { amountOut: bigint }; // Uniswap V3 only
+
 const ABI = parseAbi([
   "function quoteExactInputSingle((address tokenIn,address tokenOut,uint256 amountIn,uint24 fee,uint160 sqrtPriceLimitX96)) external returns (uint256 amountOut,uint160 sqrtPriceAfterX96,uint32 initializedTicksCrossed,uint256 gasEstimate)",
+  "function quoteExactOutputSingle((address tokenIn,address tokenOut,uint256 amount,uint24 fee,uint160 sqrtPriceLimitX96)) external returns (uint256 amountIn,uint160 sqrtPriceX96After,uint32 initializedTicksCrossed,uint256 gasEstimate)",
+  "function quoteExactOutput(bytes path,uint256 amountOut) external returns (uint256 amountIn,uint160[] sqrtPriceX96AfterList,uint32[] initializedTicksCrossedList,uint256 gasEstimate)",
 ]);
 
 function takeFirstN<T>(arr: T[], n: number): T[] {
@@ -58,7 +84,7 @@ function padFee3Bytes(fee: number): string {
   return f.toString(16).padStart(6, "0");
 }
 
-function encodeV3Path(tokens: `0x${string}`[], fees: number[]): `0x${string}` {
+export function encodeV3Path(tokens: `0x${string}`[], fees: number[]): `0x${string}` {
   if (tokens.length < 2) throw new Error("encodeV3Path: need at least 2 tokens");
   if (fees.length !== tokens.length - 1) throw new Error("encodeV3Path: fees length mismatch");
 
@@ -74,7 +100,30 @@ function encodeV3Path(tokens: `0x${string}`[], fees: number[]): `0x${string}` {
   return ("0x" + out) as `0x${string}`;
 }
 
+/** Best exact-input route: the Uniswap V3 search below, against every adapter's own quote. */
 export async function quoteBestExactInput(args: Args): Promise<QuoteBestResult | null> {
+  const adapters = args.adapters ?? [];
+  if (adapters.length === 0) return quoteUniswapV3ExactInput(args);
+
+  const [uni, other] = await Promise.all([
+    quoteUniswapV3ExactInput(args).catch(() => null),
+    quoteAdapters(adapters, args.tokenIn, args.tokenOut, args.amountIn),
+  ]);
+  if (!other || (uni && uni.amountOut >= other.amountOut)) return uni;
+  return {
+    amountOut: other.amountOut,
+    mode: other.mode,
+    route: `${other.route.dex}:${other.route.target}`,
+    path: "0x",
+    dex: other.route.dex,
+    dexRoute: other.route,
+    attempts: uni?.attempts ?? 0,
+    fails: uni?.fails ?? 0,
+    firstFail: uni?.firstFail ?? null,
+  };
+}
+
+async function quoteUniswapV3ExactInput(args: Args): Promise<QuoteBestResult | null> {
   const maxFeesPerLeg = Number.isFinite(args.maxFeesPerLeg) ? Number(args.maxFeesPerLeg) : 3;
   const feesMulti = takeFirstN(args.fees, Math.max(1, Math.trunc(maxFeesPerLeg)));
 
@@ -141,7 +190,7 @@ export async function quoteBestExactInput(args: Args): Promise<QuoteBestResult |
   }
 
   // EXECUTE STAGE 1
-  const results1 = await client.multicall({ contracts: callsStage1 });
+  const results1 = await quoterMulticall(client, callsStage1, args.local);
 
   let bestOut: bigint | null = null;
   let bestSingleRes: QuoteBestResult | null = null;
@@ -168,6 +217,8 @@ export async function quoteBestExactInput(args: Args): Promise<QuoteBestResult |
             mode: `quoterV2_fee_${meta.fee}`,
             route: "single",
             path: encodeV3Path([args.tokenIn, args.tokenOut], [meta.fee]),
+            dex: "uniswap_v3",
+            dexRoute: null,
             attempts: 0, // aggregate later
             fails: 0,
             firstFail: null
@@ -196,7 +247,7 @@ export async function quoteBestExactInput(args: Args): Promise<QuoteBestResult |
 
   if (validHop1.length === 0) {
     // No need for stage 2
-    return fillStats(bestSingleRes, attempts, fails, firstFail);
+    return fillStats<QuoteBestResult>(bestSingleRes, attempts, fails, firstFail);
   }
 
   const callsStage2: any[] = [];
@@ -222,7 +273,7 @@ export async function quoteBestExactInput(args: Args): Promise<QuoteBestResult |
   }
 
   if (callsStage2.length > 0) {
-    const results2 = await client.multicall({ contracts: callsStage2 });
+    const results2 = await quoterMulticall(client, callsStage2, args.local);
 
     results2.forEach((res, idx) => {
       attempts++;
@@ -239,6 +290,8 @@ export async function quoteBestExactInput(args: Args): Promise<QuoteBestResult |
             mode: `quoterV2_2hop_${midName}_${meta.fee1}_${meta.fee}`,
             route: `${args.tokenIn}->${meta.mid}->${args.tokenOut}`,
             path: encodeV3Path([args.tokenIn, meta.mid!, args.tokenOut], [meta.fee1!, meta.fee]),
+            dex: "uniswap_v3",
+            dexRoute: null,
             attempts: 0,
             fails: 0,
             firstFail: null
@@ -250,10 +303,160 @@ export async function quoteBestExactInput(args: Args): Promise<QuoteBestResult |
     });
   }
 
-  return fillStats(bestSingleRes, attempts, fails, firstFail);
+  return fillStats<QuoteBestResult>(bestSingleRes, attempts, fails, firstFail);
 }
 
-function fillStats(res: QuoteBestResult | null, attempts: number, fails: number, firstFail: QuoteFail | null) {
+/**
+ * Exact-output counterpart of quoteBestExactInput: the least tokenIn that buys `amountOut` of tokenOut,
+ * over the same single-hop fee tiers and 2-hop intermediates.
+ *
+ * Stage 1: single hops + the last legs (MID -> tokenOut) for amountOut, which prunes the intermediates.
+ * Stage 2: quoteExactOutput on the full reversed path (tokenOut, MID, tokenIn) for each surviving last leg.
+ */
+export async function quoteBestExactOutput(args: ExactOutArgs): Promise<QuoteBestExactOutResult | null> {
+  const maxFeesPerLeg = Number.isFinite(args.maxFeesPerLeg) ? Number(args.maxFeesPerLeg) : 3;
+  const feesMulti = takeFirstN(args.fees, Math.max(1, Math.trunc(maxFeesPerLeg)));
+
+  type CallMeta = {
+    type: "single" | "hop2";
+    tokenIn: `0x${string}`;
+    tokenOut: `0x${string}`;
+    fee: number;
+    mid?: `0x${string}`;
+  };
+
+  const client = createPublicClient({
+    chain: arbitrum,
+    transport: http(args.rpcUrl),
+    batch: { multicall: true }
+  });
+
+  // --- STAGE 1: Single Hops & Leg 2 of 2-Hops ---
+
+  const callsStage1: any[] = [];
+  const metaStage1: CallMeta[] = [];
+
+  for (const fee of args.fees) {
+    callsStage1.push({
+      address: args.quoter,
+      abi: ABI,
+      functionName: "quoteExactOutputSingle",
+      args: [{ tokenIn: args.tokenIn, tokenOut: args.tokenOut, amount: args.amountOut, fee, sqrtPriceLimitX96: 0n }]
+    });
+    metaStage1.push({ type: "single", tokenIn: args.tokenIn, tokenOut: args.tokenOut, fee });
+  }
+
+  const intermediates = args.intermediates.filter(m =>
+    normAddr(m) !== normAddr(args.tokenIn) && normAddr(m) !== normAddr(args.tokenOut)
+  );
+
+  for (const mid of intermediates) {
+    for (const fee of feesMulti) {
+      callsStage1.push({
+        address: args.quoter,
+        abi: ABI,
+        functionName: "quoteExactOutputSingle",
+        args: [{ tokenIn: mid, tokenOut: args.tokenOut, amount: args.amountOut, fee, sqrtPriceLimitX96: 0n }]
+      });
+      metaStage1.push({ type: "hop2", tokenIn: mid, tokenOut: args.tokenOut, fee, mid });
+    }
+  }
+
+  const results1 = await quoterMulticall(client, callsStage1, args.local);
+
+  let best: QuoteBestExactOutResult | null = null;
+  let attempts = 0;
+  let fails = 0;
+  let firstFail: QuoteFail | null = null;
+
+  const validHop2: { mid: `0x${string}`; fee2: number }[] = [];
+
+  results1.forEach((res, idx) => {
+    attempts++;
+    const meta = metaStage1[idx];
+
+    if (res.status === "success") {
+      const amountIn = (res.result as any)[0] as bigint;
+      if (amountIn <= 0n) return;
+
+      if (meta.type === "single") {
+        if (best === null || amountIn < best.amountIn) {
+          best = {
+            amountIn,
+            amountOut: args.amountOut,
+            mode: `quoterV2_out_fee_${meta.fee}`,
+            route: "single",
+            path: encodeV3Path([args.tokenOut, args.tokenIn], [meta.fee]),
+            attempts: 0,
+            fails: 0,
+            firstFail: null
+          };
+        }
+      } else {
+        validHop2.push({ mid: meta.mid!, fee2: meta.fee });
+      }
+    } else {
+      fails++;
+      if (!firstFail) firstFail = {
+        fee: meta.fee,
+        leg: meta.type,
+        tokenIn: meta.tokenIn,
+        tokenOut: meta.tokenOut,
+        amountOut: args.amountOut.toString(),
+        msg: "Reverted"
+      };
+    }
+  });
+
+  // --- STAGE 2: full 2-hop paths, only behind a last leg that can deliver amountOut ---
+
+  const callsStage2: any[] = [];
+  const metaStage2: { mid: `0x${string}`; fee1: number; fee2: number; path: `0x${string}` }[] = [];
+
+  for (const h2 of validHop2) {
+    for (const fee1 of feesMulti) {
+      const path = encodeV3Path([args.tokenOut, h2.mid, args.tokenIn], [h2.fee2, fee1]);
+      callsStage2.push({
+        address: args.quoter,
+        abi: ABI,
+        functionName: "quoteExactOutput",
+        args: [path, args.amountOut]
+      });
+      metaStage2.push({ mid: h2.mid, fee1, fee2: h2.fee2, path });
+    }
+  }
+
+  if (callsStage2.length > 0) {
+    const results2 = await quoterMulticall(client, callsStage2, args.local);
+
+    results2.forEach((res, idx) => {
+      attempts++;
+      const meta = metaStage2[idx];
+
+      if (res.status === "success") {
+        const amountIn = (res.result as any)[0] as bigint;
+        if (amountIn > 0n && (best === null || amountIn < best.amountIn)) {
+          best = {
+            amountIn,
+            amountOut: args.amountOut,
+            mode: `quoterV2_out_2hop_${getMidName(meta.mid)}_${meta.fee1}_${meta.fee2}`,
+            route: `${args.tokenIn}->${meta.mid}->${args.tokenOut}`,
+            path: meta.path,
+            attempts: 0,
+            fails: 0,
+            firstFail: null
+          };
+        }
+      } else {
+        fails++;
+      }
+    });
+  }
+
+  return fillStats<QuoteBestExactOutResult>(best, attempts, fails, firstFail);
+}
+
+function fillStats<T extends QuoteBestResult | QuoteBestExactOutResult>(res: T | null, attempts: number, fails: number, firstFail: QuoteFail | null) {
   if (res) {
     res.attempts = attempts;
     res.fails = fails;
@@ -271,3 +474,71 @@ function getMidName(addr: string): string {
   return "mid";
 }
 
+
+function decodeV3Path(path: `0x${string}`): { tokens: `0x${string}`[]; fees: number[] } {
+  const hex = hexNo0x(path);
+  const tokens: `0x${string}`[] = [`0x${hex.slice(0, 40)}`];
+  const fees: number[] = [];
+  for (let i = 40; i < hex.length; i += 46) {
+    fees.push(parseInt(hex.slice(i, i + 6), 16));
+    tokens.push(`0x${hex.slice(i + 6, i + 46)}`);
+  }
+  return { tokens, fees };
+}
+
+/** Pool legs a QuoterV2 call swaps through, in swap order. */
+function callLegs(call: any): V3Leg[] {
+  if (call.functionName === "quoteExactOutput") {
+    // Reversed path: each pool pays the previous token out
+    const { tokens, fees } = decodeV3Path(call.args[0]);
+    return fees.map((fee, i) => ({ tokenIn: tokens[i + 1], tokenOut: tokens[i], fee }));
+  }
+  const p = call.args[0];
+  return [{ tokenIn: p.tokenIn, tokenOut: p.tokenOut, fee: p.fee }];
+}
+
+/** A QuoterV2 call answered from the snapshot, in multicall result shape; null when only the quoter can tell. */
+function localCall(snap: V3PoolSnapshot, call: any): any | null {
+  const failure = { status: "failure", error: new Error("local: swap reverts") };
+  if (call.functionName === "quoteExactOutput") {
+    let amount = call.args[1] as bigint;
+    const sqrtPrices: bigint[] = [];
+    const crossed: number[] = [];
+    for (const leg of callLegs(call)) {
+      const q: V3LocalQuote = snap.exactOutputSingle(leg, amount);
+      if (q === null) return null;
+      if (q === "revert") return failure;
+      amount = q.amountIn;
+      sqrtPrices.push(q.sqrtPriceX96After);
+      crossed.push(q.initializedTicksCrossed);
+    }
+    return { status: "success", result: [amount, sqrtPrices, crossed, 0n] };
+  }
+
+  const [leg] = callLegs(call);
+  const p = call.args[0];
+  const exactIn = call.functionName === "quoteExactInputSingle";
+  const q = exactIn ? snap.exactInputSingle(leg, p.amountIn) : snap.exactOutputSingle(leg, p.amount);
+  if (q === null) return null;
+  if (q === "revert") return failure;
+  return { status: "success", result: [exactIn ? q.amountOut : q.amountIn, q.sqrtPriceX96After, q.initializedTicksCrossed, 0n] };
+}
+
+/**
+ * QuoterV2 multicall, answered from `local` pool state where it can be: the calls whose swap
+ * leaves the cached ticks (or whose pools failed to load) still go to the quoter.
+ */
+async function quoterMulticall(client: { multicall: (a: { contracts: any[] }) => Promise<any[]> }, calls: any[], local?: V3PoolCache | null): Promise<any[]> {
+  if (!local || calls.length === 0) return client.multicall({ contracts: calls });
+
+  const snap = await local.snapshot(calls.flatMap(callLegs)).catch(() => null);
+  if (!snap) return client.multicall({ contracts: calls });
+
+  const results = calls.map((c) => localCall(snap, c));
+  const rest = results.flatMap((r, i) => (r === null ? [i] : []));
+  if (rest.length > 0) {
+    const remote = await client.multicall({ contracts: rest.map((i) => calls[i]) });
+    rest.forEach((i, k) => { results[i] = remote[k]; });
+  }
+  return results;
+}
@@ -0,0 +1,252 @@
+import { createPublicClient, getAddress, http, parseAbi, type Address, type PublicClient } from "viem";
+import { arbitrum, base } from "viem/chains";
+import type { AppConfig } from "../config";
+import { simulateSwap, type V3PoolState } from "../lib/v3SwapMath";
+
+const FACTORY_ABI = parseAbi([
+    "function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)",
+]);
+const POOL_ABI = parseAbi([
+    "function slot0() external view returns (uint160 sqrtPriceX96,int24 tick,uint16 observationIndex,uint16 observationCardinality,uint16 observationCardinalityNext,uint8 feeProtocol,bool unlocked)",
+    "function liquidity() external view returns (uint128)",
+    "function tickSpacing() external view returns (int24)",
+    "function tickBitmap(int16 wordPosition) external view returns (uint256)",
+    "function ticks(int24 tick) external view returns (uint128 liquidityGross,int128 liquidityNet,uint256 feeGrowthOutside0X128,uint256 feeGrowthOutside1X128,int56 tickCumulativeOutside,uint160 secondsPerLiquidityOutsideX128,uint32 secondsOutside,bool initialized)",
+]);
+const ZERO: Address = "0x0000000000000000000000000000000000000000";
+
+// tickBitmap words read on each side of the current one: 256 * tickSpacing ticks each, far more than a liquidation swap moves
+export const WORDS_AROUND = 2;
+
+export type V3Leg = { tokenIn: Address; tokenOut: Address; fee: number };
+
+/** A QuoterV2 answer computed locally; "revert" where QuoterV2 would revert, null where only the chain can tell. */
+export type V3LocalQuote = { amountIn: bigint; amountOut: bigint; sqrtPriceX96After: bigint; initializedTicksCrossed: number } | "revert" | null;
+
+type PoolRef = { pool: Address; token0: string }; // token0 = lowercased, sorted as the factory does
+
+function legKey(leg: V3Leg): string {
+    const [a, b] = [leg.tokenIn.toLowerCase(), leg.tokenOut.toLowerCase()].sort();
+    return `${a}:${b}:${leg.fee}`;
+}
+
+/** Pool states of one block: every quote against a snapshot sees the same chain state. */
+export class V3PoolSnapshot {
+    constructor(
+        readonly blockNumber: bigint,
+        private readonly pools: Map<string, PoolRef | null>,
+        private readonly states: Map<string, V3PoolState | null>
+    ) { }
+
+    /** Loaded state of a leg's pool; undefined when it was not loaded, null when the pool is missing or locked. */
+    state(leg: V3Leg): V3PoolState | null | undefined {
+        const ref = this.pools.get(legKey(leg));
+        if (ref === undefined) return undefined;
+        if (ref === null) return null;
+        return this.states.get(ref.pool.toLowerCase());
+    }
+
+    /** QuoterV2.quoteExactInputSingle with no price limit. */
+    exactInputSingle(leg: V3Leg, amountIn: bigint): V3LocalQuote {
+        return this.quote(leg, amountIn);
+    }
+
+    /** QuoterV2.quoteExactOutputSingle with no price limit: reverts unless the whole amountOut is delivered. */
+    exactOutputSingle(leg: V3Leg, amountOut: bigint): V3LocalQuote {
+        return this.quote(leg, -amountOut);
+    }
+
+    private quote(leg: V3Leg, amountSpecified: bigint): V3LocalQuote {
+        const ref = this.pools.get(legKey(leg));
+        if (ref === undefined) return null;
+        if (ref === null || amountSpecified === 0n) return "revert";
+        const state = this.states.get(ref.pool.toLowerCase());
+        if (state === undefined) return null;
+        if (state === null) return "revert";
+
+        let swap;
+        try {
+            swap = simulateSwap(state, leg.tokenIn.toLowerCase() === ref.token0, amountSpecified);
+        } catch {
+            return "revert"; // the pool's own require()s (not enough liquidity for the output, ...)
+        }
+        if (!swap) return null;
+        if (swap.amountIn === 0n && swap.amountOut === 0n) return "revert"; // QuoterV2's callback rejects an empty swap
+        if (amountSpecified < 0n && !swap.filled) return "revert";
+        return {
+            amountIn: swap.amountIn,
+            amountOut: swap.amountOut,
+            sqrtPriceX96After: swap.sqrtPriceX96After,
+            initializedTicksCrossed: swap.initializedTicksCrossed,
+        };
+    }
+}
+
+/**
+ * Uniswap V3 pool state for local quoting: slot0, liquidity and the initialized ticks around the
+ * current price, read once per block with a few multicalls for every pool of the requested legs.
+ * Pool addresses and tick spacings never change and are read once.
+ */
+export class V3PoolCache {
+    private pools = new Map<string, PoolRef | null>();
+    private spacing = new Map<string, number>(); // pool -> tickSpacing
+    private block: bigint | null = null;
+    private states = new Map<string, V3PoolState | null>(); // pool -> state at `block`
+    private loading = new Map<string, Promise<void>>();     // pool -> in-flight load at `block`
+
+    constructor(private readonly client: PublicClient, private readonly factory: Address) { }
+
+    /** Snapshot holding every leg's pool at `blockNumber` (default: the latest block). */
+    async snapshot(legs: V3Leg[], blockNumber?: bigint): Promise<V3PoolSnapshot> {
+        const block = blockNumber ?? await this.client.getBlockNumber();
+        if (block !== this.block) {
+            this.block = block;
+            this.states = new Map();
+            this.loading = new Map();
+        }
+        const states = this.states;
+        const loading = this.loading;
+
+        await this.resolvePools(legs);
+
+        const wanted = new Map<string, number>(); // pool -> fee
+        for (const leg of legs) {
+            const ref = this.pools.get(legKey(leg));
+            if (ref) wanted.set(ref.pool.toLowerCase(), leg.fee);
+        }
+        const missing = [...wanted.keys()].filter((p) => !states.has(p) && !loading.has(p));
+        if (missing.length > 0) {
+            const load = this.loadStates(missing.map((p) => ({ pool: p, fee: wanted.get(p)! })), block, states)
+                .catch((e) => {
+                    for (const p of missing) loading.delete(p); // the next snapshot retries
+                    throw e;
+                });
+            for (const p of missing) loading.set(p, load);
+        }
+        await Promise.all([...wanted.keys()].map((p) => loading.get(p)));
+
+        return new V3PoolSnapshot(block, this.pools, states);
+    }
+
+    private async resolvePools(legs: V3Leg[]): Promise<void> {
+        const unknown = new Map<string, V3Leg>();
+        for (const leg of legs) {
+            const key = legKey(leg);
+            if (!this.pools.has(key)) unknown.set(key, leg);
+        }
+        if (unknown.size === 0) return;
+
+        const entries = [...unknown.entries()];
+        const results = await this.client.multicall({
+            contracts: entries.map(([, leg]) => ({
+                address: this.factory,
+                abi: FACTORY_ABI,
+                functionName: "getPool" as const,
+                args: [leg.tokenIn, leg.tokenOut, leg.fee] as const,
+            })),
+        });
+        results.forEach((res, i) => {
+            const [key, leg] = entries[i];
+            if (res.status !== "success") return; // retried on the next snapshot
+            const pool = res.result as Address;
+            const [token0] = [leg.tokenIn.toLowerCase(), leg.tokenOut.toLowerCase()].sort();
+            this.pools.set(key, pool === ZERO ? null : { pool: getAddress(pool), token0 });
+        });
+    }
+
+    private async loadStates(pools: { pool: string; fee: number }[], blockNumber: bigint, into: Map<string, V3PoolState | null>): Promise<void> {
+        // 1. slot0 + liquidity (+ tickSpacing the first time)
+        const heads = await this.client.multicall({
+            blockNumber,
+            contracts: pools.flatMap(({ pool: p }) => {
+                const address = p as Address;
+                const calls = [
+                    { address, abi: POOL_ABI, functionName: "slot0" as const },
+                    { address, abi: POOL_ABI, functionName: "liquidity" as const },
+                    { address, abi: POOL_ABI, functionName: "tickSpacing" as const },
+                ];
+                return this.spacing.has(p) ? calls.slice(0, 2) : calls;
+            }),
+        });
+
+        const states = new Map<string, V3PoolState>();
+        let k = 0;
+        for (const { pool: p, fee } of pools) {
+            const slot0 = heads[k++];
+            const liquidity = heads[k++];
+            if (!this.spacing.has(p)) {
+                const spacing = heads[k++];
+                if (spacing.status === "success") this.spacing.set(p, Number(spacing.result));
+            }
+            const tickSpacing = this.spacing.get(p);
+            if (slot0.status !== "success" || liquidity.status !== "success" || tickSpacing === undefined) continue;
+            const [sqrtPriceX96, tick, , , , , unlocked] = slot0.result as readonly [bigint, number, number, number, number, number, boolean];
+            if (!unlocked) {
+                into.set(p, null); // mid-swap (reentrancy lock): QuoterV2 reverts too
+                continue;
+            }
+            const compressed = Math.floor(tick / tickSpacing);
+            states.set(p, {
+                sqrtPriceX96,
+                tick,
+                liquidity: liquidity.result as bigint,
+                fee,
+                tickSpacing,
+                minWord: (compressed >> 8) - WORDS_AROUND,
+                maxWord: (compressed >> 8) + WORDS_AROUND,
+                ticks: new Map(),
+            });
+        }
+
+        // 2. bitmap words around the current tick
+        const words: { pool: string; word: number }[] = [];
+        for (const [p, s] of states) {
+            for (let w = s.minWord; w <= s.maxWord; w++) words.push({ pool: p, word: w });
+        }
+        const bitmaps = await this.client.multicall({
+            blockNumber,
+            contracts: words.map((w) => ({ address: w.pool as Address, abi: POOL_ABI, functionName: "tickBitmap" as const, args: [w.word] as const })),
+        });
+
+        const initialized: { pool: string; tick: number }[] = [];
+        const incomplete = new Set<string>();
+        bitmaps.forEach((res, i) => {
+            const { pool, word } = words[i];
+            if (res.status !== "success") {
+                incomplete.add(pool);
+                return;
+            }
+            const spacing = states.get(pool)!.tickSpacing;
+            let bits = res.result as bigint;
+            for (let bit = 0; bits > 0n; bit++, bits >>= 1n) {
+                if (bits & 1n) initialized.push({ pool, tick: (word * 256 + bit) * spacing });
+            }
+        });
+
+        // 3. liquidityNet of every initialized tick found
+        if (initialized.length > 0) {
+            const ticks = await this.client.multicall({
+                blockNumber,
+                contracts: initialized.map((t) => ({ address: t.pool as Address, abi: POOL_ABI, functionName: "ticks" as const, args: [t.tick] as const })),
+            });
+            ticks.forEach((res, i) => {
+                const { pool, tick } = initialized[i];
+                if (res.status !== "success") incomplete.add(pool);
+                else states.get(pool)!.ticks.set(tick, (res.result as readonly unknown[])[1] as bigint);
+            });
+        }
+
+        // A pool without its full tick map is left unloaded: its quotes go to QuoterV2
+        for (const [p, s] of states) if (!incomplete.has(p)) into.set(p, s);
+    }
+}
+
+/** Pool cache on the configured chain; null when local quoting is off. */
+export function v3PoolCache(cfg: AppConfig, client?: PublicClient): V3PoolCache | null {
+    if (!cfg.QUOTE_V3_LOCAL) return null;
+    const c = client ?? (createPublicClient({
+        chain: cfg.CHAIN_ID === 8453 ? base : arbitrum,
+        transport: http(cfg.ARB_RPC_URL),
+    }) as PublicClient);
+    return new V3PoolCache(c, getAddress(cfg.UNISWAP_V3_FACTORY));
+}
@@ -5,17 +5,29 @@ export async function ensureDir(dir: string) {
   await fs.mkdir(dir, { recursive: true });
 }
 
-export async function writeJson(filePath: string, data: unknown) {
+const bigintReplacer = (_: string, v: unknown) => (typeof v === "bigint" ? v.toString() : v);
+
+let tmpCounter = 0;
+
+/** Write to a temp file in the same directory, then rename over the target: readers see the old or the new file, never a torn one. */
+async function writeAtomic(filePath: string, payload: string) {
   await ensureDir(path.dirname(filePath));
-  const payload = JSON.stringify(data, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
-  await fs.writeFile(filePath, payload, "utf8");
+  const tmp = `${filePath}.${process.pid}.${++tmpCounter}.tmp`;
+  try {
+    await fs.writeFile(tmp, payload, "utf8");
+    await fs.rename(tmp, filePath);
+  } catch (e) {
+    await fs.rm(tmp, { force: true });
+    throw e;
+  }
+}
+
+export async function writeJson(filePath: string, data: unknown) {
+  await writeAtomic(filePath, JSON.stringify(data, bigintReplacer, 2));
 }
 
 export async function writeJsonl(filePath: string, rows: unknown[]) {
-  await ensureDir(path.dirname(filePath));
-  const payload =
-    rows.map((r) => JSON.stringify(r, (_, v) => (typeof v === "bigint" ? v.toString() : v))).join("\n") + "\n";
-  await fs.writeFile(filePath, payload, "utf8");
+  await writeAtomic(filePath, rows.map((r) => JSON.stringify(r, bigintReplacer)).join("\n") + "\n");
 }
 
 function csvEscape(v: unknown): string {
@@ -30,11 +42,145 @@ export async function writeCsv(
   headers: string[],
   rows: Record<string, unknown>[]
 ) {
-  await ensureDir(path.dirname(filePath));
   const lines: string[] = [];
   lines.push(headers.join(","));
   for (const row of rows) {
     lines.push(headers.map((h) => csvEscape(row[h])).join(","));
   }
-  await fs.writeFile(filePath, lines.join("\n") + "\n", "utf8");
+  await writeAtomic(filePath, lines.join("\n") + "\n");
+}
+
+// =================================================================
+// Pipeline artifacts (candidates.jsonl, tx_plan.json, tx_sim.json, tx_exec.json)
+// JSON: `_meta` first, then the payload fields. JSONL: a `{"_meta":...}` header line, then one row per line.
+// =================================================================
+
+/** Bump when an artifact's shape changes incompatibly: readers reject other versions. */
+export const ARTIFACT_SCHEMA_VERSION = 1;
+
+export type ArtifactMeta = {
+  schema: number;
+  kind: string;       // file name, e.g. "tx_plan.json"
+  seq: number;        // +1 per write of this artifact (continues from the file on disk)
+  writtenAt: string;  // ISO
+  rows?: number;      // JSONL: rows that follow the header
+};
+
+export type ArtifactReadOpts = {
+  maxAgeMs?: number;  // older than this => "stale"
+  minSeq?: number;    // seq below this (already consumed) => "stale"
+};
+
+export type ArtifactErrorReason = "missing" | "partial" | "schema" | "stale";
+
+export class ArtifactError extends Error {
+  constructor(readonly reason: ArtifactErrorReason, readonly file: string, detail: string) {
+    super(`${path.basename(file)}: ${reason} (${detail})`);
+  }
+}
+
+const lastSeq = new Map<string, number>();
+
+async function nextSeq(filePath: string): Promise<number> {
+  let onDisk = 0;
+  try {
+    onDisk = (await readMeta(filePath)).seq;
+  } catch { /* first write, or unreadable: start over from what this process saw */ }
+  const seq = Math.max(onDisk, lastSeq.get(filePath) ?? 0) + 1;
+  lastSeq.set(filePath, seq);
+  return seq;
+}
+
+async function stamp(filePath: string, rows?: number): Promise<ArtifactMeta> {
+  return {
+    schema: ARTIFACT_SCHEMA_VERSION,
+    kind: path.basename(filePath),
+    seq: await nextSeq(filePath),
+    writtenAt: new Date().toISOString(),
+    ...(rows !== undefined ? { rows } : {}),
+  };
+}
+
+/** Atomic, stamped JSON artifact. Returns the stamp (seq) it was written with. */
+export async function writeArtifact(filePath: string, data: object): Promise<ArtifactMeta> {
+  const meta = await stamp(filePath);
+  await writeJson(filePath, { _meta: meta, ...data });
+  return meta;
+}
+
+/** Atomic, stamped JSONL artifact: header line with the row count, then the rows. */
+export async function writeJsonlArtifact(filePath: string, rows: unknown[]): Promise<ArtifactMeta> {
+  const meta = await stamp(filePath, rows.length);
+  await writeJsonl(filePath, [{ _meta: meta }, ...rows]);
+  return meta;
+}
+
+export async function readArtifact<T>(filePath: string, opts: ArtifactReadOpts = {}): Promise<{ meta: ArtifactMeta; data: T }> {
+  const raw = await readRaw(filePath);
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e: any) {
+    throw new ArtifactError("partial", filePath, `invalid JSON: ${e?.message}`);
+  }
+  const meta = checkMeta(filePath, parsed?._meta, opts);
+  const { _meta, ...data } = parsed;
+  return { meta, data: data as T };
+}
+
+/** Every row or nothing: a bad line or a row count that differs from the header rejects the file. */
+export async function readJsonlArtifact<T>(filePath: string, opts: ArtifactReadOpts = {}): Promise<{ meta: ArtifactMeta; rows: T[] }> {
+  const lines = (await readRaw(filePath)).split(/\r?\n/).filter((ln) => ln.trim() !== "");
+  const parsed: any[] = [];
+  for (const [i, ln] of lines.entries()) {
+    try {
+      parsed.push(JSON.parse(ln));
+    } catch {
+      throw new ArtifactError("partial", filePath, `line ${i + 1} is not JSON`);
+    }
+  }
+  const meta = checkMeta(filePath, parsed[0]?._meta, opts);
+  const rows = parsed.slice(1) as T[];
+  if (meta.rows !== rows.length) {
+    throw new ArtifactError("partial", filePath, `header says ${meta.rows} rows, found ${rows.length}`);
+  }
+  return { meta, rows };
+}
+
+/** Just the stamp (JSON or JSONL header), validated for schema only. */
+export async function readMeta(filePath: string): Promise<ArtifactMeta> {
+  const raw = await readRaw(filePath);
+  const nl = raw.indexOf("\n");
+  const first = filePath.endsWith(".jsonl") && nl !== -1 ? raw.slice(0, nl) : raw;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(first);
+  } catch {
+    throw new ArtifactError("partial", filePath, "unreadable stamp");
+  }
+  return checkMeta(filePath, parsed?._meta, {});
+}
+
+async function readRaw(filePath: string): Promise<string> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (e: any) {
+    if (e?.code === "ENOENT") throw new ArtifactError("missing", filePath, "no such file");
+    throw e;
+  }
+}
+
+function checkMeta(filePath: string, meta: any, opts: ArtifactReadOpts): ArtifactMeta {
+  if (!meta || typeof meta !== "object") throw new ArtifactError("schema", filePath, "no _meta stamp (written by an older version?)");
+  if (meta.schema !== ARTIFACT_SCHEMA_VERSION) {
+    throw new ArtifactError("schema", filePath, `schema ${meta.schema}, expected ${ARTIFACT_SCHEMA_VERSION}`);
+  }
+  if (opts.minSeq !== undefined && !(meta.seq >= opts.minSeq)) {
+    throw new ArtifactError("stale", filePath, `seq ${meta.seq} < ${opts.minSeq}`);
+  }
+  if (opts.maxAgeMs !== undefined) {
+    const age = Date.now() - Date.parse(meta.writtenAt);
+    if (!(age <= opts.maxAgeMs)) throw new ArtifactError("stale", filePath, `written ${Math.round(age / 1000)}s ago, max ${Math.round(opts.maxAgeMs / 1000)}s`);
+  }
+  return meta as ArtifactMeta;
 }
@@ -0,0 +1,64 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { encodeAbiParameters, encodeEventTopics, parseAbiParameters, type Log } from "viem";
+import { AAVE_POOL_EVENTS, activityFromLogs } from "../src/services/aaveEvents.js";
+
+const POOL = "0x794a61358d6845594f94dc1db02a252b5b4814ad" as const;
+const USDC = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831" as const;
+const WETH = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1" as const;
+const ALICE = "0x1111111111111111111111111111111111111111" as const;
+const BOB = "0x2222222222222222222222222222222222222222" as const;
+const ROUTER = "0x3333333333333333333333333333333333333333" as const;
+
+function mkLog(topics: readonly `0x${string}`[], data: `0x${string}`, blockNumber: bigint, logIndex = 0): Log {
+  return {
+    address: POOL,
+    topics: topics as any,
+    data,
+    blockNumber,
+    logIndex,
+    blockHash: "0x" + "ab".repeat(32) as `0x${string}`,
+    transactionHash: "0x" + "cd".repeat(32) as `0x${string}`,
+    transactionIndex: 0,
+    removed: false,
+  };
+}
+
+test("activityFromLogs: Borrow records onBehalfOf (not the caller) on the debt side", () => {
+  const topics = encodeEventTopics({
+    abi: AAVE_POOL_EVENTS,
+    eventName: "Borrow",
+    args: { reserve: USDC, onBehalfOf: ALICE, referralCode: 0 },
+  });
+  const data = encodeAbiParameters(parseAbiParameters("address, uint256, uint8, uint256"), [ROUTER, 1000n, 2, 5n]);
+
+  const out = activityFromLogs([mkLog(topics as any, data, 100n)]);
+  assert.equal(out.length, 1);
+  assert.equal(out[0].user, ALICE.toLowerCase());
+  assert.equal(out[0].reserve, USDC.toLowerCase());
+  assert.equal(out[0].side, "debt");
+  assert.equal(out[0].event, "Borrow");
+});
+
+test("activityFromLogs: LiquidationCall yields both sides for the liquidated user", () => {
+  const topics = encodeEventTopics({
+    abi: AAVE_POOL_EVENTS,
+    eventName: "LiquidationCall",
+    args: { collateralAsset: WETH, debtAsset: USDC, user: BOB },
+  });
+  const data = encodeAbiParameters(parseAbiParameters("uint256, uint256, address, bool"), [10n, 20n, ROUTER, false]);
+
+  const out = activityFromLogs([mkLog(topics as any, data, 101n)]);
+  assert.deepEqual(
+    out.map((a) => [a.user, a.reserve, a.side]),
+    [
+      [BOB.toLowerCase(), WETH.toLowerCase(), "collateral"],
+      [BOB.toLowerCase(), USDC.toLowerCase(), "debt"],
+    ]
+  );
+});
+
+test("activityFromLogs: ignores logs that are not borrower events", () => {
+  const junk = mkLog(["0x" + "11".repeat(32) as `0x${string}`, "0x" + "00".repeat(12) + "44".repeat(20) as `0x${string}`], "0x", 5n);
+  assert.equal(activityFromLogs([junk]).length, 0);
+});
@@ -0,0 +1,97 @@
+import test, { mock } from "node:test";
+import assert from "node:assert/strict";
+import { arbitrum } from "viem/chains";
+import { BlockStream, type WatchClient } from "../src/services/blockStream.js";
+
+const POOL = "0x794a61358d6845594f94dc1db02a252b5b4814ad";
+
+// Fake socket: every connect() is one subscription whose head / error callbacks the test drives
+function fakeSocket() {
+  const subs: { head: (n: bigint) => void; fail: (e: Error) => void; unwatched: number }[] = [];
+  const connect = (): WatchClient => {
+    const sub = { head: (_n: bigint) => { }, fail: (_e: Error) => { }, unwatched: 0 };
+    subs.push(sub);
+    return {
+      watchBlockNumber: ({ onBlockNumber, onError }: any) => {
+        sub.head = (n) => onBlockNumber(n, undefined);
+        sub.fail = (e) => onError(e);
+        return () => { sub.unwatched++; };
+      },
+      watchEvent: () => () => { sub.unwatched++; },
+    } as unknown as WatchClient;
+  };
+  return { subs, connect };
+}
+
+function stream(connect: () => WatchClient) {
+  return new BlockStream({ wsUrl: "ws://stub", chain: arbitrum, poolAddr: POOL, stallMs: 1_000, reconnectMs: 5_000, onLogs: () => { }, connect });
+}
+
+// Settled state of a promise without waiting for it
+async function peek<T>(p: Promise<T>): Promise<{ value: T } | "pending"> {
+  return Promise.race([p.then((value) => ({ value })), new Promise<"pending">((r) => setImmediate(() => r("pending")))]);
+}
+
+test("BlockStream: heads wake waiters; a stall degrades to poll and the reconnect goes back to ws", async (t) => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"] });
+  t.after(() => mock.timers.reset());
+  const sock = fakeSocket();
+  const s = stream(sock.connect);
+
+  s.start();
+  assert.equal(s.mode(), "ws");
+  const first = s.next(200);
+  sock.subs[0].head(10n);
+  assert.deepEqual(await peek(first), { value: 10n });
+  assert.equal(s.latest(), 10n);
+
+  // No head for stallMs: the waiter gets null and the socket is dropped
+  const stalled = s.next(200);
+  mock.timers.tick(999);
+  assert.equal(await peek(stalled), "pending");
+  mock.timers.tick(1);
+  assert.deepEqual(await peek(stalled), { value: null });
+  assert.equal(s.mode(), "poll");
+  assert.equal(sock.subs[0].unwatched, 2); // newHeads + pool logs
+
+  // While polling, next() is the plain timer
+  const polled = s.next(200);
+  mock.timers.tick(200);
+  assert.deepEqual(await peek(polled), { value: null });
+
+  mock.timers.tick(5_000 - 200);
+  assert.equal(sock.subs.length, 2);
+  assert.equal(s.mode(), "ws");
+  const again = s.next(200);
+  sock.subs[1].head(11n);
+  assert.deepEqual(await peek(again), { value: 11n });
+  s.stop();
+});
+
+test("BlockStream: a socket error resolves every waiter with null; stop() flushes and never reconnects", async (t) => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"] });
+  t.after(() => mock.timers.reset());
+  const sock = fakeSocket();
+  const s = stream(sock.connect);
+
+  s.start();
+  const waiters = [s.next(200), s.next(200)];
+  sock.subs[0].fail(new Error("socket closed"));
+  for (const w of waiters) assert.deepEqual(await peek(w), { value: null });
+  assert.equal(s.mode(), "poll");
+
+  mock.timers.tick(5_000);
+  assert.equal(s.mode(), "ws");
+
+  const pending = s.next(200);
+  s.stop();
+  assert.deepEqual(await peek(pending), { value: null });
+  assert.equal(s.mode(), "poll");
+  assert.equal(sock.subs[1].unwatched, 2);
+
+  // A late error from the closed socket schedules nothing
+  sock.subs[1].fail(new Error("late"));
+  mock.timers.tick(60_000);
+  assert.equal(sock.subs.length, 2);
+  assert.equal(s.mode(), "poll");
+});
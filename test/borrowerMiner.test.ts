@@ -0,0 +1,123 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { RpcBudget, BorrowerMiner } from "../src/services/borrowerMiner.js";
+import { drainRecheck, pushRecheck } from "../src/lib/recheckQueue.js";
+
+const POOL = "0x794a61358d6845594f94dc1db02a252b5b4814ad" as const;
+
+// Deterministic chain: hash(n) derives from n and a fork tag
+const h = (n: bigint, fork = "0") => ("0x" + fork + n.toString(16).padStart(63, "0")) as `0x${string}`;
+
+function withDataDir(fn: (dir: string) => Promise<void>) {
+  return async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "miner-"));
+    const prev = process.env.DATA_DIR;
+    process.env.DATA_DIR = dir;
+    try {
+      await fn(dir);
+    } finally {
+      if (prev === undefined) delete process.env.DATA_DIR;
+      else process.env.DATA_DIR = prev;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+const OPTS = {
+  logsMaxWindow: 500,
+  logsMinWindow: 10,
+  initialLookback: 1000,
+  backfillFloor: 4000,
+  rpcBudget: 10,
+  headReserve: 2,
+  reorgDepth: 64,
+};
+
+test("RpcBudget: backfill never eats the head reserve", () => {
+  const b = new RpcBudget(4, 2);
+  assert.equal(b.take("backfill"), true);
+  assert.equal(b.take("backfill"), true);
+  assert.equal(b.take("backfill"), false);
+  assert.equal(b.take("head"), true);
+  assert.equal(b.take("head"), true);
+  assert.equal(b.take("head"), false);
+});
+
+test("BorrowerMiner.tick: advances head and deep cursors independently", withDataDir(async (dir) => {
+  const calls: [bigint, bigint][] = [];
+  let blockReads = 0;
+  const client = {
+    getBlockNumber: async () => 10_000n,
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => {
+      blockReads++;
+      return { hash: h(blockNumber), parentHash: h(blockNumber - 1n) };
+    },
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      calls.push([fromBlock, toBlock]);
+      return [];
+    },
+  } as any;
+  fs.writeFileSync(path.join(dir, "sync_head.json"), JSON.stringify({ lastBlock: "9000", lastHash: h(9000n) }));
+  fs.writeFileSync(path.join(dir, "sync_deep.json"), JSON.stringify({ deepBlock: "5000" }));
+
+  const t = await new BorrowerMiner(client, POOL, OPTS).tick();
+
+  assert.equal(t.head.caughtUp, true);
+  assert.equal(t.backfill.caughtUp, true);
+  const head = JSON.parse(fs.readFileSync(path.join(dir, "sync_head.json"), "utf8"));
+  const deep = JSON.parse(fs.readFileSync(path.join(dir, "sync_deep.json"), "utf8"));
+  assert.equal(head.lastBlock, "10000");
+  assert.equal(head.lastHash, h(10_000n));
+  assert.equal(deep.deepBlock, "4000");
+  assert.ok(calls.length <= 10);
+  // Hash reads are head-lane RPCs too: the budget accounts for every call made
+  assert.equal(OPTS.rpcBudget - t.budgetLeft, calls.length + blockReads);
+}));
+
+test("BorrowerMiner.tick: parent hash mismatch rewinds to the last canonical checkpoint", withDataDir(async (dir) => {
+  const client = {
+    getBlockNumber: async () => 120n,
+    // Blocks >= 100 were replaced by a fork
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+      hash: h(blockNumber, blockNumber >= 100n ? "f" : "0"),
+      parentHash: h(blockNumber - 1n, blockNumber - 1n >= 100n ? "f" : "0"),
+    }),
+    getLogs: async () => [],
+  } as any;
+  fs.writeFileSync(path.join(dir, "sync_head.json"), JSON.stringify({
+    lastBlock: "100",
+    lastHash: h(100n),
+    checkpoints: [{ block: "90", hash: h(90n) }, { block: "100", hash: h(100n) }],
+  }));
+  fs.writeFileSync(path.join(dir, "sync_deep.json"), JSON.stringify({ deepBlock: "4000" }));
+  fs.writeFileSync(path.join(dir, "borrowers.json"), JSON.stringify(["0xaaa", "0xbbb"]));
+  fs.writeFileSync(path.join(dir, "borrower_activity.json"), JSON.stringify({
+    "0xaaa": { firstBlock: 50, lastBlock: 95, reserves: {} },
+    "0xbbb": { firstBlock: 97, lastBlock: 100, reserves: {} },
+  }));
+
+  const miner = new BorrowerMiner(client, POOL, OPTS);
+  const t = await miner.tick();
+
+  assert.deepEqual(t.head.reorg, { at: "101", rewoundTo: "90", affectedUsers: 2 });
+  const head = JSON.parse(fs.readFileSync(path.join(dir, "sync_head.json"), "utf8"));
+  assert.equal(head.lastBlock, "90");
+  assert.equal(head.lastHash, h(90n));
+  assert.deepEqual(miner.users(), ["0xaaa"]);
+  assert.deepEqual(drainRecheck().sort(), ["0xaaa", "0xbbb"]);
+}));
+
+test("recheckQueue: pushes append, a drain takes them all once", withDataDir(async () => {
+  assert.deepEqual(drainRecheck(), []);
+  pushRecheck(["0xAAA", "0xbbb"]);
+  pushRecheck(["0xaaa", "0xccc"]);
+  assert.deepEqual(drainRecheck().sort(), ["0xaaa", "0xbbb", "0xccc"]);
+  assert.deepEqual(drainRecheck(), []);
+
+  // A push after the drain's rename lands in the next batch
+  pushRecheck(["0xddd"]);
+  assert.deepEqual(drainRecheck(), ["0xddd"]);
+}));
@@ -0,0 +1,56 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { CandidateBook } from "../src/lib/candidateBook.js";
+
+type C = { borrower: string; healthFactor: number; status: string; liqDistancePct: number | null };
+const c = (borrower: string, healthFactor: number, liqDistancePct: number | null = null): C => ({
+  borrower,
+  healthFactor,
+  status: healthFactor < 1 ? "exec_ready" : "watch",
+  liqDistancePct,
+});
+
+test("candidateBook: merges by borrower, keeps first seen and a bounded HF history", () => {
+  const book = new CandidateBook<C>({ ttlMs: 60_000, hotSize: 10, historyLen: 2 });
+  book.upsert(c("0xA", 1.08), 1_000);
+  book.upsert(c("0xa", 1.04), 2_000);
+  const e = book.upsert(c("0xA", 0.99), 3_000);
+
+  assert.equal(book.size, 1);
+  assert.equal(e.status, "exec_ready");
+  assert.equal(e.firstSeen, new Date(1_000).toISOString());
+  assert.equal(e.lastSeen, new Date(3_000).toISOString());
+  assert.deepEqual(e.hfHistory.map((p) => p.hf), [1.04, 0.99]);
+});
+
+test("candidateBook: entries unseen for the TTL expire; recovered ones are removed", () => {
+  const book = new CandidateBook<C>({ ttlMs: 10_000, hotSize: 10 });
+  book.upsert(c("0xa", 1.05), 0);
+  book.upsert(c("0xb", 1.06), 5_000);
+  book.upsert(c("0xc", 1.07), 5_000);
+
+  assert.deepEqual(book.expire(9_999), []);
+  assert.deepEqual(book.expire(10_000).map((e) => e.borrower), ["0xa"]);
+  assert.equal(book.remove("0xB"), true);
+  assert.deepEqual(book.ranked().map((e) => e.borrower), ["0xc"]);
+});
+
+test("candidateBook: hot queue ranks exec_ready, then liquidation distance, then HF, bounded", () => {
+  const book = new CandidateBook<C>({ ttlMs: 60_000, hotSize: 3 });
+  book.upsert(c("0xfar", 1.02, 9));
+  book.upsert(c("0xnear", 1.09, 1));
+  book.upsert(c("0xunknown", 1.01));
+  book.upsert(c("0xliq", 0.97, 5));
+  assert.deepEqual(book.hot().map((e) => e.borrower), ["0xliq", "0xnear", "0xfar"]);
+});
+
+test("candidateBook: restore keeps rows within the TTL", () => {
+  const src = new CandidateBook<C>({ ttlMs: 60_000, hotSize: 10 });
+  src.upsert(c("0xold", 1.05), 0);
+  src.upsert(c("0xnew", 1.05), 50_000);
+
+  const book = new CandidateBook<C>({ ttlMs: 60_000, hotSize: 10 });
+  assert.equal(book.restore(src.ranked(), 70_000), 1);
+  assert.equal(book.get("0xNEW")?.hfHistory.length, 1);
+  assert.equal(book.get("0xold"), undefined);
+});
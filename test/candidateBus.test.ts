@@ -0,0 +1,50 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { CandidatePublisher, CandidateSubscriber, CandidateEvent } from "../src/services/candidateBus.js";
+
+const until = async (cond: () => boolean, ms = 2000) => {
+  const t0 = Date.now();
+  while (!cond()) {
+    if (Date.now() - t0 > ms) throw new Error("timed out");
+    await new Promise((r) => setTimeout(r, 10));
+  }
+};
+
+test("candidate bus: events reach the subscriber in order; it reconnects after a publisher restart", { skip: process.platform === "win32" }, async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "bus-"));
+  const sock = path.join(dir, "sentry.sock");
+  const got: CandidateEvent<{ id: number }>[] = [];
+  let pub = new CandidatePublisher(sock);
+  const sub = new CandidateSubscriber<{ id: number }>(sock, (e) => got.push(e), 50);
+  try {
+    assert.equal(await pub.start(), true);
+    sub.start();
+    await until(() => sub.connected() && pub.subscribers === 1);
+
+    pub.publish([
+      { type: "exec_ready", candidateId: "a", borrower: "0xa", healthFactor: 0.98, candidate: { id: 1 } },
+      { type: "recovered", candidateId: "b", borrower: "0xb", healthFactor: 1.3, candidate: null },
+    ]);
+    await until(() => got.length === 2);
+    assert.deepEqual(got.map((e) => [e.type, e.seq]), [["exec_ready", 1], ["recovered", 2]]);
+    assert.deepEqual(got[0].candidate, { id: 1 });
+
+    pub.close();
+    await until(() => !sub.connected());
+
+    // Sentry restarts on the same path: the subscriber finds it again
+    pub = new CandidatePublisher(sock);
+    assert.equal(await pub.start(), true);
+    await until(() => sub.connected() && pub.subscribers === 1);
+    pub.publish([{ type: "watch", candidateId: "c", borrower: "0xc", healthFactor: 1.05, candidate: { id: 3 } }]);
+    await until(() => got.length === 3);
+    assert.equal(got[2].type, "watch");
+  } finally {
+    sub.stop();
+    pub.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
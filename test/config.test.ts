@@ -51,3 +51,22 @@ test("PRIVATE_KEY placeholder is allowed (becomes undefined)", () => {
     }
   );
 });
+
+test("CHAIN_ID=8453 defaults the ETH/USD feed, Uniswap V3 and 2-hop intermediates to Base", () => {
+  const unset = { ETH_USD_FEED: undefined, SWAP_INTERMEDIATES: undefined, UNISWAP_V3_QUOTER_V2: undefined, WETH_ADDRESS: undefined };
+  withEnv({ ...unset, CHAIN_ID: "8453" }, () => {
+    const cfg = loadConfig();
+    assert.equal(cfg.ETH_USD_FEED, "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70");
+    assert.equal(cfg.UNISWAP_V3_QUOTER_V2, "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a");
+    assert.equal(cfg.SWAP_INTERMEDIATES[0], cfg.WETH_ADDRESS);
+    assert.equal(cfg.SWAP_INTERMEDIATES.length, 4);
+  });
+  withEnv({ ...unset, CHAIN_ID: "42161" }, () => {
+    const cfg = loadConfig();
+    assert.equal(cfg.ETH_USD_FEED, "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612");
+    assert.equal(cfg.SWAP_INTERMEDIATES[0], cfg.WETH_ADDRESS.toLowerCase());
+  });
+  withEnv({ ...unset, CHAIN_ID: "8453", SWAP_INTERMEDIATES: "0xa, 0xb" }, () => {
+    assert.deepEqual(loadConfig().SWAP_INTERMEDIATES, ["0xa", "0xb"]);
+  });
+});
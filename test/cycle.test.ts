@@ -0,0 +1,45 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { runCycleSteps, CYCLE_EXIT_CODES } from "../src/commands/cycle.js";
+
+const ORDER = ["scan", "plan", "simulate", "preflight", "exec"] as const;
+
+function stubs(failing: string | null) {
+  const ran: string[] = [];
+  const steps = ORDER.map((name) => [name, async () => {
+    ran.push(name);
+    if (name === failing) throw new Error(`${name} broke`);
+  }] as [typeof name, () => Promise<unknown>]);
+  return { ran, steps };
+}
+
+test("cycle: exit code 0 and every step runs in order when nothing fails", async () => {
+  const { ran, steps } = stubs(null);
+  const { exitCode, results } = await runCycleSteps(steps, true);
+  assert.equal(exitCode, 0);
+  assert.deepEqual(ran, [...ORDER]);
+  assert.deepEqual(results.map((r) => r.status), ["ok", "ok", "ok", "ok", "ok"]);
+});
+
+test("cycle: a failing step sets its exit code and no later step runs", async () => {
+  const expected = { scan: 1, plan: 2, simulate: 3, preflight: 4, exec: 5 };
+  assert.deepEqual(CYCLE_EXIT_CODES, expected);
+
+  for (const [i, failing] of ORDER.entries()) {
+    const { ran, steps } = stubs(failing);
+    const { exitCode, results } = await runCycleSteps(steps, true);
+    assert.equal(exitCode, expected[failing], failing);
+    assert.deepEqual(ran, ORDER.slice(0, i + 1), failing);
+    assert.equal(results[i].status, "failed");
+    assert.match(String(results[i].detail), new RegExp(`${failing} broke`));
+    for (const r of results.slice(i + 1)) assert.equal(r.status, "skipped", `${failing} -> ${r.step}`);
+  }
+});
+
+test("cycle: exec is skipped, not failed, when EXEC_ENABLED is off", async () => {
+  const { ran, steps } = stubs(null);
+  const { exitCode, results } = await runCycleSteps(steps, false);
+  assert.equal(exitCode, 0);
+  assert.deepEqual(ran, ["scan", "plan", "simulate", "preflight"]);
+  assert.deepEqual(results[4], { step: "exec", status: "skipped", ms: 0, detail: "EXEC_ENABLED off" });
+});
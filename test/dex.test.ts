@@ -0,0 +1,77 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { decodeFunctionData, parseAbi, type Address } from "viem";
+import { dexAmountInOffset, encodeDexSwap, quoteAdapters, type DexAdapter, type DexRoute } from "../src/services/dex/index.js";
+
+const WETH: Address = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1";
+const USDC: Address = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+const EXECUTOR: Address = "0x000000000000000000000000000000000000bEEF";
+const params = { amountIn: 10n ** 18n, amountOutMin: 3_000_000_000n, recipient: EXECUTOR };
+
+function fake(id: DexAdapter["id"], amountOut: bigint | Error): DexAdapter {
+  return {
+    id,
+    async quoteExactInput(tokenIn, tokenOut) {
+      if (amountOut instanceof Error) throw amountOut;
+      return { amountOut, mode: id, route: { dex: id, target: EXECUTOR, tokenIn, tokenOut, params: {} } };
+    },
+  };
+}
+
+test("dex: best-of across adapters, a failing adapter drops out", async () => {
+  const best = await quoteAdapters([fake("curve", 5n), fake("balancer", new Error("rpc down")), fake("solidly", 7n)], WETH, USDC, 1n);
+  assert.equal(best?.route.dex, "solidly");
+  assert.equal(best?.amountOut, 7n);
+  assert.equal(await quoteAdapters([], WETH, USDC, 1n), null);
+});
+
+test("dex: curve route encodes exchange(i, j, dx, min_dy)", () => {
+  const route: DexRoute = { dex: "curve", target: EXECUTOR, tokenIn: WETH, tokenOut: USDC, params: { i: 1, j: 0 } };
+  const { functionName, args } = decodeFunctionData({
+    abi: parseAbi(["function exchange(int128 i,int128 j,uint256 dx,uint256 min_dy) external returns (uint256)"]),
+    data: encodeDexSwap(route, params),
+  });
+  assert.equal(functionName, "exchange");
+  assert.deepEqual(args, [1n, 0n, params.amountIn, params.amountOutMin]);
+});
+
+test("dex: solidly and balancer routes pay the executor", () => {
+  const solidly = decodeFunctionData({
+    abi: parseAbi(["function swapExactTokensForTokens(uint256 amountIn,uint256 amountOutMin,(address from,address to,bool stable,address factory)[] routes,address to,uint256 deadline) external returns (uint256[] amounts)"]),
+    data: encodeDexSwap({ dex: "solidly", target: EXECUTOR, tokenIn: WETH, tokenOut: USDC, params: { stable: false, factory: USDC } }, params),
+  });
+  assert.equal(solidly.args[1], params.amountOutMin);
+  assert.equal(solidly.args[2][0].stable, false);
+  assert.equal(solidly.args[3], EXECUTOR);
+
+  const poolId = `0x${"ab".repeat(32)}` as const;
+  const balancer = decodeFunctionData({
+    abi: parseAbi(["function swap((bytes32 poolId,uint8 kind,address assetIn,address assetOut,uint256 amount,bytes userData) singleSwap,(address sender,bool fromInternalBalance,address recipient,bool toInternalBalance) funds,uint256 limit,uint256 deadline) external payable returns (uint256 amountCalculated)"]),
+    data: encodeDexSwap({ dex: "balancer", target: EXECUTOR, tokenIn: WETH, tokenOut: USDC, params: { poolId } }, params),
+  });
+  assert.equal(balancer.args[0].poolId, poolId);
+  assert.equal(balancer.args[0].amount, params.amountIn);
+  assert.equal(balancer.args[1].sender, EXECUTOR);
+  assert.equal(balancer.args[1].recipient, EXECUTOR);
+  assert.equal(balancer.args[2], params.amountOutMin);
+});
+
+test("dex: dexAmountInOffset points at amountIn in every encoding (the executor overwrites it)", () => {
+  const routes: DexRoute[] = [
+    { dex: "algebra", target: EXECUTOR, tokenIn: WETH, tokenOut: USDC, params: {} },
+    { dex: "solidly", target: EXECUTOR, tokenIn: WETH, tokenOut: USDC, params: { stable: true, factory: USDC } },
+    { dex: "curve", target: EXECUTOR, tokenIn: WETH, tokenOut: USDC, params: { i: 1, j: 0 } },
+    { dex: "balancer", target: EXECUTOR, tokenIn: WETH, tokenOut: USDC, params: { poolId: `0x${"ab".repeat(32)}` } },
+  ];
+  const amountIn = 0x1234567890abcdefn;
+  for (const route of routes) {
+    const data = encodeDexSwap(route, { ...params, amountIn });
+    const offset = dexAmountInOffset(route);
+    const word = BigInt(`0x${data.slice(2 + offset * 2, 2 + (offset + 32) * 2)}`);
+    assert.equal(word, amountIn, route.dex);
+
+    // what the executor does with the seize it actually got
+    const patched = `${data.slice(0, 2 + offset * 2)}${(42n).toString(16).padStart(64, "0")}${data.slice(2 + (offset + 32) * 2)}`;
+    assert.equal(patched, encodeDexSwap(route, { ...params, amountIn: 42n }), route.dex);
+  }
+});
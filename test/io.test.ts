@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  ARTIFACT_SCHEMA_VERSION,
+  ArtifactError,
+  readArtifact,
+  readJsonlArtifact,
+  writeArtifact,
+  writeJsonlArtifact,
+} from "../src/utils/io.js";
+
+function withDir(fn: (dir: string) => Promise<void>) {
+  return async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+    try {
+      await fn(dir);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+const rejectsWith = (p: Promise<unknown>, reason: string) =>
+  assert.rejects(p, (e: unknown) => e instanceof ArtifactError && e.reason === reason);
+
+test("artifacts: stamped, seq increases per write, no temp files left", withDir(async (dir) => {
+  const file = path.join(dir, "tx_plan.json");
+  const a = await writeArtifact(file, { items: [1], repay: 5n });
+  const b = await writeArtifact(file, { items: [2] });
+  assert.equal(a.schema, ARTIFACT_SCHEMA_VERSION);
+  assert.equal(b.seq, a.seq + 1);
+
+  const { meta, data } = await readArtifact<{ items: number[] }>(file);
+  assert.equal(meta.seq, b.seq);
+  assert.deepEqual(data, { items: [2] });
+  assert.deepEqual(fs.readdirSync(dir), ["tx_plan.json"]);
+}));
+
+test("artifacts: seq continues from the file on disk (another process wrote it)", withDir(async (dir) => {
+  const file = path.join(dir, "tx_sim.json");
+  fs.writeFileSync(file, JSON.stringify({ _meta: { schema: ARTIFACT_SCHEMA_VERSION, kind: "tx_sim.json", seq: 41, writtenAt: new Date().toISOString() } }));
+  assert.equal((await writeArtifact(file, {})).seq, 42);
+}));
+
+test("artifacts: jsonl rows round-trip; truncated or torn files are rejected whole", withDir(async (dir) => {
+  const file = path.join(dir, "candidates.jsonl");
+  await writeJsonlArtifact(file, [{ id: 1 }, { id: 2 }, { id: 3 }]);
+  assert.deepEqual((await readJsonlArtifact(file)).rows, [{ id: 1 }, { id: 2 }, { id: 3 }]);
+
+  const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+  fs.writeFileSync(file, lines.slice(0, 3).join("\n") + "\n");
+  await rejectsWith(readJsonlArtifact(file), "partial");
+
+  fs.writeFileSync(file, lines.join("\n").slice(0, -5));
+  await rejectsWith(readJsonlArtifact(file), "partial");
+}));
+
+test("artifacts: missing, unstamped, other schema and stale data are rejected", withDir(async (dir) => {
+  const file = path.join(dir, "tx_plan.json");
+  await rejectsWith(readArtifact(file), "missing");
+
+  fs.writeFileSync(file, JSON.stringify({ items: [] }));
+  await rejectsWith(readArtifact(file), "schema");
+
+  fs.writeFileSync(file, JSON.stringify({ _meta: { schema: ARTIFACT_SCHEMA_VERSION + 1, seq: 1, writtenAt: new Date().toISOString() } }));
+  await rejectsWith(readArtifact(file), "schema");
+
+  fs.writeFileSync(file, JSON.stringify({ _meta: { schema: ARTIFACT_SCHEMA_VERSION, seq: 7, writtenAt: new Date(Date.now() - 120_000).toISOString() } }));
+  await rejectsWith(readArtifact(file, { maxAgeMs: 60_000 }), "stale");
+  await rejectsWith(readArtifact(file, { minSeq: 8 }), "stale");
+  assert.equal((await readArtifact(file, { minSeq: 7 })).meta.seq, 7);
+}));
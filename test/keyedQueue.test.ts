@@ -0,0 +1,34 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { KeyedQueue } from "../src/lib/keyedQueue.js";
+
+test("keyedQueue: latest item per key, re-pushed keys move to the back", () => {
+  const q = new KeyedQueue<number>();
+  q.push("a", 1);
+  q.push("b", 2);
+  q.push("a", 3);
+  assert.equal(q.size, 2);
+  assert.deepEqual(q.drain(), [2, 3]);
+  assert.equal(q.size, 0);
+});
+
+test("keyedQueue: wait resolves on push, before the timeout", async () => {
+  const q = new KeyedQueue<string>();
+  const t0 = Date.now();
+  setTimeout(() => q.push("x", "hot"), 10);
+  await q.wait(5_000);
+  assert.ok(Date.now() - t0 < 1_000);
+  assert.deepEqual(q.drain(), ["hot"]);
+});
+
+test("keyedQueue: wait resolves on timeout or abort with nothing queued", async () => {
+  const q = new KeyedQueue<string>();
+  await q.wait(5);
+  assert.equal(q.size, 0);
+
+  const ac = new AbortController();
+  const t0 = Date.now();
+  setTimeout(() => ac.abort(), 10);
+  await q.wait(5_000, ac.signal);
+  assert.ok(Date.now() - t0 < 1_000);
+});
@@ -0,0 +1,64 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculateAvailableCollateralToLiquidate } from "../src/lib/liquidationCollateral.js";
+
+// Expected values: the Solidity formula evaluated with arbitrary-precision integers (Python), not this module.
+
+const usdcWeth = {
+  debtPrice: 10n ** 8n,
+  collateralPrice: 2000n * 10n ** 8n,
+  debtDecimals: 6,
+  collateralDecimals: 18,
+  liquidationBonus: 10500,
+  liquidationProtocolFee: 1000,
+};
+
+test("seized collateral: bonus on top, protocol fee taken from the bonus", () => {
+  const r = calculateAvailableCollateralToLiquidate({ ...usdcWeth, debtToCover: 1000n * 10n ** 6n, userCollateralBalance: 100n * 10n ** 18n });
+  assert.equal(r.collateralTotal, 525_000_000_000_000_000n);        // 0.5 WETH + 5%
+  assert.equal(r.protocolFee, 2_500_000_000_000_000n);              // 10% of the 0.025 bonus
+  assert.equal(r.collateralToLiquidator, 522_500_000_000_000_000n);
+  assert.equal(r.debtAmountNeeded, 1000n * 10n ** 6n);
+  assert.equal(r.capped, false);
+});
+
+test("seized collateral: a small balance caps the seize and the debt repaid", () => {
+  const r = calculateAvailableCollateralToLiquidate({ ...usdcWeth, debtToCover: 1000n * 10n ** 6n, userCollateralBalance: 3n * 10n ** 17n });
+  assert.equal(r.capped, true);
+  assert.equal(r.collateralTotal, 3n * 10n ** 17n);
+  assert.equal(r.debtAmountNeeded, 571_428_571n);
+  assert.equal(r.protocolFee, 1_428_571_428_571_429n);
+  assert.equal(r.collateralToLiquidator, 298_571_428_571_428_571n);
+});
+
+test("seized collateral: rounding matches the Pool with odd prices and decimals", () => {
+  // USDT debt (6) at 0.99987654 vs WBTC collateral (8) at 61234.56789012, 6.5% bonus, 20% fee
+  const r = calculateAvailableCollateralToLiquidate({
+    debtToCover: 12_345_678_901n,
+    userCollateralBalance: 10n ** 12n,
+    debtPrice: 99_987_654n,
+    collateralPrice: 6_123_456_789_012n,
+    debtDecimals: 6,
+    collateralDecimals: 8,
+    liquidationBonus: 10650,
+    liquidationProtocolFee: 2000,
+  });
+  assert.equal(r.collateralTotal, 21_469_123n);
+  assert.equal(r.protocolFee, 262_064n);
+  assert.equal(r.collateralToLiquidator, 21_207_059n);
+
+  // 18-decimal debt vs 6-decimal collateral, capped, no fee
+  const c = calculateAvailableCollateralToLiquidate({
+    debtToCover: 777n * 10n ** 18n + 123n,
+    userCollateralBalance: 500n * 10n ** 6n,
+    debtPrice: 100_010_000n,
+    collateralPrice: 99_950_000n,
+    debtDecimals: 18,
+    collateralDecimals: 6,
+    liquidationBonus: 10450,
+    liquidationProtocolFee: 0,
+  });
+  assert.equal(c.debtAmountNeeded, 478_181_846_887_081_626_766n);
+  assert.equal(c.protocolFee, 0n);
+  assert.equal(c.collateralToLiquidator, 500n * 10n ** 6n);
+});
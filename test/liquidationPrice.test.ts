@@ -0,0 +1,46 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { liquidationPrices, nearestLiquidation } from "../src/lib/liquidationPrice.js";
+
+const WETH = "0xweth";
+const USDC = "0xusdc";
+const WBTC = "0xwbtc";
+const usd = (n: number) => BigInt(Math.round(n * 1e8));
+
+test("liquidationPrices: single collateral / single debt", () => {
+  // $10k WETH @ LT 80% vs $6k USDC debt: HF = 8000/6000 = 1.333 -> WETH must drop 25%, USDC rise 33.3%
+  const l = liquidationPrices([
+    { asset: WETH, price: usd(2000), collateralBase: usd(10_000), liquidationThreshold: 8000, debtBase: 0n },
+    { asset: USDC, price: usd(1), collateralBase: 0n, liquidationThreshold: 7800, debtBase: usd(6000) },
+  ]);
+  const weth = l.find((x) => x.asset === WETH)!;
+  const usdc = l.find((x) => x.asset === USDC)!;
+  assert.equal(weth.side, "collateral");
+  assert.equal(weth.liquidationPrice, usd(1500));
+  assert.ok(Math.abs(weth.distancePct! - 25) < 1e-9);
+  assert.equal(usdc.side, "debt");
+  assert.ok(Math.abs(usdc.distancePct! - 100 / 3) < 1e-9);
+  assert.equal(nearestLiquidation(l)!.asset, WETH);
+});
+
+test("liquidationPrices: other collateral covering the debt makes an asset unreachable", () => {
+  // WBTC alone covers the debt (HF from WBTC = 9000/6000 > 1): WETH going to 0 can't liquidate
+  const l = liquidationPrices([
+    { asset: WBTC, price: usd(60_000), collateralBase: usd(12_000), liquidationThreshold: 7500, debtBase: 0n },
+    { asset: WETH, price: usd(2000), collateralBase: usd(1_000), liquidationThreshold: 8000, debtBase: 0n },
+    { asset: USDC, price: usd(1), collateralBase: 0n, liquidationThreshold: 7800, debtBase: usd(6000) },
+  ]);
+  const weth = l.find((x) => x.asset === WETH)!;
+  assert.equal(weth.liquidationPrice, null);
+  assert.equal(weth.distancePct, null);
+  assert.equal(nearestLiquidation(l)!.asset, WBTC);
+});
+
+test("liquidationPrices: already liquidatable positions are at distance 0; no debt, no prices", () => {
+  const l = liquidationPrices([
+    { asset: WETH, price: usd(2000), collateralBase: usd(10_000), liquidationThreshold: 8000, debtBase: 0n },
+    { asset: USDC, price: usd(1), collateralBase: 0n, liquidationThreshold: 7800, debtBase: usd(9000) },
+  ]);
+  assert.equal(nearestLiquidation(l)!.distancePct, 0);
+  assert.deepEqual(liquidationPrices([{ asset: WETH, price: usd(2000), collateralBase: usd(1), liquidationThreshold: 8000, debtBase: 0n }]), []);
+});
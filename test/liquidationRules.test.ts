@@ -0,0 +1,91 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { maxLiquidatableDebt, sizeLiquidation, type LiquidationInput, type PoolVersion } from "../src/lib/liquidationRules.js";
+
+const E6 = 10n ** 6n;
+const E18 = 10n ** 18n;
+const wad = (x: number) => BigInt(Math.round(x * 1e6)) * 10n ** 12n;
+const base = (usd: number) => BigInt(usd) * 10n ** 8n;
+
+// USDC debt ($1, 6 decimals) against WETH collateral ($2000, 18 decimals, 5% bonus)
+function input(version: PoolVersion, hf: number, debtUsdc: number, wethMilli: number, totalDebtUsd = debtUsdc): LiquidationInput {
+  return {
+    version,
+    healthFactor: wad(hf),
+    totalDebtBase: base(totalDebtUsd),
+    debt: { amount: BigInt(debtUsdc) * E6, price: base(1), decimals: 6 },
+    collateral: { amount: (BigInt(wethMilli) * E18) / 1000n, price: base(2000), decimals: 18, liquidationBonus: 10500, liquidationProtocolFee: 0 },
+  };
+}
+
+test("close factor: 100% at or below HF 0.95 on every version", () => {
+  for (const v of ["3.0", "3.2", "3.3"] as const) {
+    const m = maxLiquidatableDebt(input(v, 0.95, 5000, 10_000));
+    assert.equal(m.max, 5000n * E6);
+    assert.equal(m.fullClose, true);
+  }
+});
+
+test("close factor: pre-3.3 halves the debt reserve regardless of size", () => {
+  const m = maxLiquidatableDebt(input("3.2", 0.97, 1500, 10_000, 8000));
+  assert.equal(m.max, 750n * E6);
+  assert.equal(m.fullClose, false);
+});
+
+test("close factor: 3.3 caps at half the total debt and closes small reserves fully", () => {
+  // $6k of $8k total debt: cap = $4k
+  assert.equal(maxLiquidatableDebt(input("3.3", 0.97, 6000, 10_000, 8000)).max, 4000n * E6);
+  // reserve below half the total: all of it
+  const under = maxLiquidatableDebt(input("3.3", 0.97, 3000, 10_000, 8000));
+  assert.equal(under.max, 3000n * E6);
+  assert.equal(under.fullClose, false);
+  // debt reserve < $2000, or collateral reserve < $2000: 100%
+  assert.equal(maxLiquidatableDebt(input("3.3", 0.97, 1500, 10_000, 8000)).fullClose, true);
+  assert.equal(maxLiquidatableDebt(input("3.3", 0.97, 6000, 900, 8000)).fullClose, true);
+});
+
+test("close factor / seize: 3.6 keeps the 3.3 rules, a capped seize repays the debt rounded up", () => {
+  assert.equal(maxLiquidatableDebt(input("3.6", 0.97, 6000, 10_000, 8000)).max, 4000n * E6);
+  assert.equal(maxLiquidatableDebt(input("3.6", 0.97, 1500, 10_000, 8000)).fullClose, true);
+  const s = sizeLiquidation(input("3.6", 0.9, 5000, 500));
+  assert.equal(s.limitedBy, "collateral");
+  assert.equal(s.debtToCover, 952_380_953n); // 3.3: 952_380_952
+});
+
+test("sizeLiquidation: collateral caps the repay", () => {
+  // $1000 of WETH can only cover 1000 / 1.05 of debt
+  const s = sizeLiquidation(input("3.3", 0.9, 5000, 500));
+  assert.equal(s.limitedBy, "collateral");
+  assert.equal(s.collateralToSeize, E18 / 2n);
+  assert.equal(s.debtToCover, 952_380_952n);
+  assert.equal(s.dust, "ok");
+});
+
+test("sizeLiquidation: 3.3 shrinks a partial liquidation that would leave dust debt", () => {
+  // $2100 of $3000 debt: half-total cap $1500 would leave $600
+  const s = sizeLiquidation(input("3.3", 0.97, 2100, 10_000, 3000));
+  assert.equal(s.maxLiquidatableDebt, 1500n * E6);
+  assert.equal(s.dust, "adjusted");
+  assert.equal(s.limitedBy, "dust");
+  assert.equal(s.debtToCover, 1100n * E6);
+  assert.match(s.note!, /\$600\.00 debt/);
+  // 3.2 has no dust rule
+  assert.equal(sizeLiquidation(input("3.2", 0.97, 2100, 10_000, 3000)).dust, "ok");
+});
+
+test("sizeLiquidation: 3.3 shrinks to keep $1000 of collateral", () => {
+  // $2100 WETH, $2100 debt: repaying $1050 seizes $1102.50, leaving $997.50
+  const s = sizeLiquidation(input("3.3", 0.97, 2100, 1050));
+  assert.equal(s.dust, "adjusted");
+  const left = (input("3.3", 0.97, 2100, 1050).collateral.amount - s.collateralToSeize) * 2000n / E18;
+  assert.ok(left >= 1000n);
+  assert.ok(s.debtToCover < 1050n * E6 && s.debtToCover > 1047n * E6);
+});
+
+test("sizeLiquidation: a requested amount that must leave dust is flagged", () => {
+  // $900 debt is below the leftover floor: only a full repay is legal
+  const s = sizeLiquidation({ ...input("3.3", 0.97, 900, 10_000), debtToCover: 500n * E6 });
+  assert.equal(s.dust, "violation");
+  assert.equal(s.debtToCover, 0n);
+  assert.match(s.note!, /\$400\.00 debt/);
+});
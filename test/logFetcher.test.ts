@@ -0,0 +1,88 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { AdaptiveLogFetcher, isRangeLimitError, isRateLimitError } from "../src/services/logFetcher.js";
+
+// Fake provider: rejects spans above `limit`, records every served range
+function fakeProvider(limit: bigint, failAt?: bigint) {
+  const served: [bigint, bigint][] = [];
+  const fn = async (a: bigint, b: bigint) => {
+    if (failAt !== undefined && a <= failAt && failAt <= b) throw new Error("fetch failed: ECONNRESET");
+    if (b - a + 1n > limit) throw new Error("query returned more than 10000 results");
+    served.push([a, b]);
+    return [];
+  };
+  return { fn, served };
+}
+
+test("isRangeLimitError: recognizes provider limit errors", () => {
+  assert.equal(isRangeLimitError(new Error("eth_getLogs block range too large")), true);
+  assert.equal(isRangeLimitError({ code: -32005, message: "x" }), true);
+  assert.equal(isRangeLimitError(new Error("fetch failed")), false);
+  assert.equal(isRangeLimitError({ code: -32005, message: "query returned more than 10000 results" }), true);
+  assert.equal(isRangeLimitError(new Error("Log response size exceeded. You can make eth_getLogs requests with up to a 2K block range")), true);
+});
+
+test("isRangeLimitError: rate limits and overload are not range errors", () => {
+  for (const e of [
+    { code: -32005, message: "Limit exceeded" }, // Infura throttling
+    { code: -32005, message: "project ID request rate exceeded" },
+    new Error("Your app has exceeded its compute units per second capacity"),
+    new Error("query timeout"),
+    { status: 429, message: "HTTP request failed." },
+  ]) {
+    assert.equal(isRateLimitError(e), true, String(e.message));
+    assert.equal(isRangeLimitError(e), false, String(e.message));
+  }
+});
+
+test("fetch: a rate-limited request is rethrown at once, without bisecting", async () => {
+  const f = new AdaptiveLogFetcher({ initialWindow: 1000n, minWindow: 10n, maxWindow: 1000n });
+  let calls = 0;
+  const throttled = async () => {
+    calls++;
+    throw Object.assign(new Error("Limit exceeded"), { code: -32005 });
+  };
+  await assert.rejects(f.fetch(1n, 1000n, throttled), /Limit exceeded/);
+  assert.equal(calls, 1);
+  assert.equal(f.window, 1000n);
+});
+
+test("fetch: bisects on limit errors and covers the range without gaps", async () => {
+  const p = fakeProvider(300n);
+  const f = new AdaptiveLogFetcher({ initialWindow: 1000n, minWindow: 10n, maxWindow: 1000n });
+  const done: [bigint, bigint][] = [];
+
+  await f.fetch(1n, 1000n, p.fn, (a, b) => { done.push([a, b]); });
+
+  assert.equal(done[0][0], 1n);
+  assert.equal(done[done.length - 1][1], 1000n);
+  for (let i = 1; i < done.length; i++) assert.equal(done[i][0], done[i - 1][1] + 1n);
+  assert.ok(f.window <= 300n * 2n);
+});
+
+test("fetch: backward walk reports ranges top-down and contiguous", async () => {
+  const p = fakeProvider(1000n);
+  const f = new AdaptiveLogFetcher({ initialWindow: 250n, minWindow: 10n, maxWindow: 250n });
+  const done: [bigint, bigint][] = [];
+
+  await f.fetch(1n, 1000n, p.fn, (a, b) => { done.push([a, b]); }, "backward");
+
+  assert.deepEqual(done[0], [751n, 1000n]);
+  assert.deepEqual(done[done.length - 1], [1n, 250n]);
+});
+
+test("fetch: non-limit error stops after the completed prefix", async () => {
+  const p = fakeProvider(100n, 450n);
+  const f = new AdaptiveLogFetcher({ initialWindow: 100n, minWindow: 10n, maxWindow: 100n });
+  let cursor = 0n;
+
+  await assert.rejects(f.fetch(1n, 1000n, p.fn, (_a, b) => { cursor = b; }), /ECONNRESET/);
+  assert.equal(cursor, 400n);
+});
+
+test("fetch: grows the window back after consecutive successes", async () => {
+  const p = fakeProvider(10_000n);
+  const f = new AdaptiveLogFetcher({ initialWindow: 100n, minWindow: 10n, maxWindow: 800n, growAfter: 2 });
+  await f.fetch(1n, 5000n, p.fn);
+  assert.equal(f.window, 800n);
+});
@@ -0,0 +1,153 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Address } from "viem";
+import type { UserAsset, UserAssets } from "../src/lib/getUserAssets.js";
+import { selectPair, type QuoteFn } from "../src/services/pairSelector.js";
+
+const USDC = "0x00000000000000000000000000000000000000c1" as Address;
+const WETH = "0x00000000000000000000000000000000000000e1" as Address;
+const ARB = "0x00000000000000000000000000000000000000a1" as Address;
+
+function asset(a: Address, symbol: string, decimals: number, priceUsd: number, collateral: number, debt: number, bonus: number): UserAsset {
+  const unit = 10 ** decimals;
+  return {
+    asset: a,
+    symbol,
+    decimals,
+    price: BigInt(Math.round(priceUsd * 1e8)),
+    priceUsd,
+    collateral: BigInt(Math.round(collateral * unit)),
+    collateralUsd: collateral * priceUsd,
+    usageAsCollateral: collateral > 0,
+    collateralEnabledByUser: collateral > 0,
+    debt: BigInt(Math.round(debt * unit)),
+    debtUsd: debt * priceUsd,
+    liquidationThreshold: 8000,
+    liquidationBonus: bonus,
+    liquidationProtocolFee: 0,
+    inEMode: false,
+    isActive: true,
+    isFrozen: false,
+    isPaused: false,
+    debtCeiling: 0n,
+  };
+}
+
+// $8k USDC debt against $10k WETH (5% bonus) and $3k ARB (10% bonus)
+const user: UserAssets = {
+  user: "0x0000000000000000000000000000000000000001",
+  eModeCategory: 0,
+  eModeLabel: null,
+  isolated: false,
+  healthFactor: 97n * 10n ** 16n,
+  totalDebtBase: 8000n * 10n ** 8n,
+  assets: [
+    asset(WETH, "WETH", 18, 2000, 5, 0, 10500),
+    asset(USDC, "USDC", 6, 1, 0, 8000, 10450),
+    asset(ARB, "ARB", 18, 1, 3000, 0, 11000),
+  ],
+  bestDebt: USDC,
+  bestCollateral: WETH,
+  bestDebtAmount: 8000n * 10n ** 6n,
+  bestCollateralAmount: 5n * 10n ** 18n,
+};
+
+const opts = { poolVersion: "3.3" as const, flashFeeBps: 0, slippageBps: 0, quoteTop: 3 };
+
+test("selectPair: the higher bonus beats the larger collateral, capped by the balance", async () => {
+  const sel = await selectPair(user, opts);
+  assert.equal(sel.ranked.length, 2);
+  const best = sel.best!;
+  assert.equal(best.collateralAsset, ARB);
+  assert.equal(best.limitedBy, "collateral");
+  // all $3k ARB seized; repay = 3000 / 1.10
+  assert.equal(best.seizeAmount, 3000n * 10n ** 18n);
+  assert.equal(best.repayAmount, 2_727_272_727n);
+  assert.ok(Math.abs(best.netUsd - (3000 - 3000 / 1.1)) < 1e-6);
+
+  const weth = sel.ranked[1];
+  assert.equal(weth.limitedBy, "closeFactor");
+  assert.equal(weth.repayAmount, 4000n * 10n ** 6n);
+  assert.equal(weth.seizeAmount, 21n * 10n ** 17n); // 4000 * 1.05 / 2000
+  assert.ok(Math.abs(weth.netUsd - 200) < 1e-6);
+  assert.match(sel.reason, /^ARB->USDC/);
+});
+
+test("selectPair: a thin swap route demotes the oracle winner", async () => {
+  const calls: Address[] = [];
+  const quote: QuoteFn = async (tokenIn, _tokenOut, amountIn) => {
+    calls.push(tokenIn);
+    // ARB pool only returns $2.5k for the $3k seized; WETH swaps at oracle price
+    const out = tokenIn === ARB ? 2500n * 10n ** 6n : (amountIn * 2000n) / 10n ** 12n;
+    return { amountOut: out, path: "0x01", mode: "test" };
+  };
+  const sel = await selectPair(user, { ...opts, quote });
+  assert.deepEqual(calls.sort(), [ARB, WETH].sort());
+  assert.equal(sel.best!.collateralAsset, WETH);
+  assert.equal(sel.best!.quote!.path, "0x01");
+  assert.equal(sel.best!.expectedOut, 4200n * 10n ** 6n); // 2.1 WETH at $2000
+  assert.ok(sel.ranked[1].netUsd < 0);
+});
+
+test("selectPair: quotes stop at the budget; a pair without a route falls behind", async () => {
+  const calls: Address[] = [];
+  const quote: QuoteFn = async (tokenIn) => {
+    calls.push(tokenIn);
+    return null; // no route
+  };
+  const sel = await selectPair(user, { ...opts, quoteTop: 1, quote });
+  assert.deepEqual(calls, [ARB]);
+  // unquoted WETH estimate now leads
+  assert.equal(sel.best!.collateralAsset, WETH);
+  assert.equal(sel.best!.quoted, false);
+  assert.equal(sel.ranked[1].swapOutUsd, 0);
+  assert.match(sel.reason, /oracle est\./);
+});
+
+test("selectPair: paused, disabled and LT-0 reserves are skipped with a reason; frozen ones are not", async () => {
+  const [weth, usdc, arb] = user.assets;
+  const sel = await selectPair({
+    ...user,
+    assets: [
+      { ...weth, isFrozen: true },
+      usdc,
+      { ...arb, isPaused: true },
+    ],
+  }, opts);
+  assert.equal(sel.best!.collateralAsset, WETH);
+  assert.deepEqual(sel.skipped, ["ARB collateral: reserve paused"]);
+
+  const off = await selectPair({
+    ...user,
+    assets: [
+      { ...weth, usageAsCollateral: false, collateralEnabledByUser: false },
+      usdc,
+      { ...arb, usageAsCollateral: false, liquidationThreshold: 0 },
+    ],
+  }, opts);
+  assert.equal(off.best, null);
+  assert.deepEqual(off.skipped, ["WETH collateral: collateral disabled by user", "ARB collateral: LT is 0, not collateral"]);
+
+  const inactiveDebt = await selectPair({ ...user, assets: [weth, { ...usdc, isActive: false }, arb] }, opts);
+  assert.equal(inactiveDebt.best, null);
+  assert.match(inactiveDebt.reason, /USDC debt: reserve inactive/);
+});
+
+test("selectPair: same-asset pairs are skipped (the executor always swaps)", async () => {
+  const [, usdc] = user.assets;
+  const sel = await selectPair({ ...user, assets: [{ ...usdc, collateral: 5000n * 10n ** 6n, usageAsCollateral: true, collateralEnabledByUser: true }] }, opts);
+  assert.equal(sel.best, null);
+  assert.deepEqual(sel.skipped, ["USDC->USDC: same asset, no swap route"]);
+});
+
+test("selectPair: healthy users are skipped", async () => {
+  const sel = await selectPair({ ...user, healthFactor: 10n ** 18n }, opts);
+  assert.equal(sel.best, null);
+  assert.deepEqual(sel.skipped, ["HF 1.0000 >= 1"]);
+});
+
+test("selectPair: nothing to liquidate", async () => {
+  const sel = await selectPair({ ...user, assets: user.assets.filter((a) => a.debt === 0n) }, opts);
+  assert.equal(sel.best, null);
+  assert.equal(sel.ranked.length, 0);
+});
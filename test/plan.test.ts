@@ -2,7 +2,9 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { planCmd } from "../src/commands/plan.js";
+import { planCmd, buildPlan, orderGuards, type AaveCandidate } from "../src/commands/plan.js";
+import type { PairScore } from "../src/services/pairSelector.js";
+import type { UserAssets } from "../src/lib/getUserAssets.js";
 
 test("plan writes tx_plan.json and marks WATCH when proximity < 1", async () => {
   await fs.mkdir("./data", { recursive: true });
@@ -24,3 +26,72 @@ test("plan writes tx_plan.json and marks WATCH when proximity < 1", async () =>
   assert.equal(plan.watchCount, 1);
   assert.equal(plan.items[0].action, "WATCH");
 });
+
+test("buildPlan: a failing borrower read is a SKIP item, the other candidates still get planned", async () => {
+  const candidate = (borrower: string, status: string): AaveCandidate => ({
+    candidateId: `aave:${borrower}`,
+    borrower: borrower as `0x${string}`,
+    healthFactor: 0.98,
+    proximity: 1,
+    totalCollateralUSD: 1000,
+    totalDebtUSD: 900,
+    status,
+    ts: "2026-01-01T00:00:00Z",
+  });
+  const broken = "0x00000000000000000000000000000000000000b1";
+  const empty = "0x00000000000000000000000000000000000000b2";
+  const watched = "0x00000000000000000000000000000000000000b3";
+
+  const read: string[] = [];
+  const assetsOf = async (borrower: `0x${string}`): Promise<UserAssets> => {
+    read.push(borrower);
+    if (borrower === broken) throw new Error("rpc timeout");
+    return {
+      user: borrower,
+      eModeCategory: 0,
+      eModeLabel: null,
+      isolated: false,
+      healthFactor: 0n,
+      totalDebtBase: 0n,
+      assets: [],
+      bestDebt: borrower,
+      bestCollateral: borrower,
+      bestDebtAmount: 0n,
+      bestCollateralAmount: 0n,
+    };
+  };
+
+  const plan = await buildPlan([candidate(broken, "exec_ready"), candidate(empty, "exec_ready"), candidate(watched, "watch")], assetsOf);
+
+  assert.deepEqual(read, [broken, empty]);
+  assert.deepEqual(plan.items.map((i) => [i.borrower, i.action]), [[broken, "SKIP"], [empty, "SKIP"], [watched, "WATCH"]]);
+  assert.equal(plan.items[0].pass, false);
+  assert.deepEqual(plan.items[0].skipReasons, ["pair selection failed: rpc timeout"]);
+  assert.match(plan.items[0].note, /ORDER_BUILD_SKIPPED \(pair selection failed: rpc timeout\)/);
+  assert.equal(plan.execBuilt, 0);
+});
+
+test("orderGuards: the premium is rounded like the Pool, so the plan never EXECs an order the executor reverts", () => {
+  // 5 bps of 1_235_000 = 617.5: the Pool charges 618, a floored premium would be 617
+  const pair = {
+    repayAmount: 1_235_000n,
+    expectedOut: 1_235_000n + 618n + 1_000_000n, // + minProfit of $1 at $1, 6 decimals
+    debtPriceUsd: 1,
+    debtDecimals: 6,
+    netUsd: 1,
+    quote: null,
+    collateralSymbol: "WETH",
+    debtSymbol: "USDC",
+  } as unknown as PairScore;
+  const opts = { minProfitUsd: 1, flashFeeBps: 5, slippageBps: 50, requireQuote: false };
+
+  const ok = orderGuards(pair, opts);
+  assert.equal(ok.minProfit, 1_000_000n);
+  assert.equal(ok.skip, null);
+  assert.equal(ok.amountOutMin, (pair.expectedOut * 9_950n) / 10_000n);
+
+  const short = orderGuards({ ...pair, expectedOut: pair.expectedOut - 1n }, opts);
+  assert.match(short.skip ?? "", /expected out below repay \+ premium \+ minProfit/);
+
+  assert.equal(orderGuards(pair, { ...opts, requireQuote: true }).skip, "no swap quote for WETH->USDC");
+});
@@ -0,0 +1,81 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { encodeAbiParameters, encodeEventTopics, parseAbiParameters } from "viem";
+import { PriceFeedWatcher, ANSWER_UPDATED_ABI } from "../src/services/priceFeedWatcher.js";
+
+const POOL = "0x794a61358d6845594f94dc1db02a252b5b4814ad";
+const PROVIDER = "0xa97684ead0e402dc232d5a977953df7ecbab3cdb";
+const ORACLE = "0x0000000000000000000000000000000000000a0a";
+const WETH = "0x82af49447d8a07e3bd95bd0d56f35241523fbab1";
+const WSTETH = "0x5979d7b546e38e414f7e9822514be443a4800529";
+const ETH_PROXY = "0x00000000000000000000000000000000000000e1";
+const ETH_AGG = "0x00000000000000000000000000000000000000e2";
+const RATIO_PROXY = "0x00000000000000000000000000000000000000f1";
+const RATIO_AGG = "0x00000000000000000000000000000000000000f2";
+const CAPO = "0x00000000000000000000000000000000000000c0";
+
+// Oracle: WETH -> plain Chainlink proxy; wstETH -> CAPO adapter over (ratio feed, ETH/USD)
+function fakeClient(logs: any[] = []) {
+  const reads: Record<string, any> = {
+    [`${POOL}:getReservesList`]: [WETH, WSTETH],
+    [`${PROVIDER}:getPriceOracle`]: ORACLE,
+    [`${ORACLE}:getSourceOfAsset:${WETH}`]: ETH_PROXY,
+    [`${ORACLE}:getSourceOfAsset:${WSTETH}`]: CAPO,
+    [`${ETH_PROXY}:aggregator`]: ETH_AGG,
+    [`${RATIO_PROXY}:aggregator`]: RATIO_AGG,
+    [`${CAPO}:ASSET_TO_USD_AGGREGATOR`]: RATIO_PROXY,
+    [`${CAPO}:BASE_TO_USD_AGGREGATOR`]: ETH_PROXY,
+  };
+  const calls: any[] = [];
+  return {
+    calls,
+    readContract: async ({ address, functionName, args }: any) => {
+      const key = [address.toLowerCase(), functionName, ...(args ?? []).map((a: string) => a.toLowerCase())].join(":");
+      if (!(key in reads)) throw new Error(`revert ${key}`);
+      return reads[key];
+    },
+    getLogs: async (params: any) => {
+      calls.push(params);
+      return logs;
+    },
+  } as any;
+}
+
+function answerLog(aggregator: string, answer: bigint, blockNumber: bigint) {
+  return {
+    address: aggregator,
+    topics: encodeEventTopics({ abi: ANSWER_UPDATED_ABI, eventName: "AnswerUpdated", args: { current: answer, roundId: 7n } }),
+    data: encodeAbiParameters(parseAbiParameters("uint256"), [1_700_000_000n]),
+    blockNumber,
+    logIndex: 0,
+    transactionIndex: 0,
+    transactionHash: "0x" + "ab".repeat(32),
+    blockHash: "0x" + "cd".repeat(32),
+    removed: false,
+  };
+}
+
+const OPTS = { poolAddr: POOL, addressesProvider: PROVIDER, resolveEveryMs: 3_600_000, maxLookback: 100 } as any;
+
+test("PriceFeedWatcher.resolve: proxies and adapter sources map to their aggregators", async () => {
+  const w = new PriceFeedWatcher(fakeClient(), OPTS);
+  await w.resolve();
+  assert.deepEqual(w.aggregators().sort(), [ETH_AGG, RATIO_AGG].sort());
+  assert.deepEqual(w.unmappedAssets(), []);
+});
+
+test("PriceFeedWatcher.poll: updates carry every reserve priced from the aggregator", async () => {
+  const client = fakeClient([answerLog(ETH_AGG, 2500_00000000n, 1001n)]);
+  const w = new PriceFeedWatcher(client, OPTS);
+
+  assert.deepEqual(await w.poll(1000n), []); // sets the start block
+  const updates = await w.poll(1001n);
+  assert.equal(updates.length, 1);
+  assert.equal(updates[0].answer, 2500_00000000n);
+  assert.deepEqual(updates[0].assets.sort(), [WETH, WSTETH].sort()); // ETH/USD feeds both
+  assert.equal(client.calls[0].fromBlock, 1001n);
+
+  // Long stall: only maxLookback blocks are fetched
+  await w.poll(5000n);
+  assert.equal(client.calls[1].fromBlock, 4901n);
+});
@@ -0,0 +1,104 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { V3Leg, V3PoolCache } from "../src/services/v3PoolCache.js";
+import { encodeV3Path, quoteBestExactOutput } from "../src/services/quoteBest.js";
+import { sellJustEnough, type ExactOutQuoteFn } from "../src/commands/plan.js";
+import { percentMul } from "../src/lib/aaveMath.js";
+
+const COLL = "0x00000000000000000000000000000000000000aa";
+const DEBT = "0x00000000000000000000000000000000000000bb";
+const MID = "0x00000000000000000000000000000000000000cc";
+
+type ExactOutFn = (leg: V3Leg, amountOut: bigint) => bigint | "revert";
+
+/** A pool cache that answers every QuoterV2 exact-output call locally, so no RPC is reached. */
+function localPools(amountIn: ExactOutFn) {
+  const quoted: string[] = [];
+  const snap = {
+    exactOutputSingle(leg: V3Leg, amountOut: bigint) {
+      quoted.push(`${leg.tokenIn}->${leg.tokenOut}:${leg.fee}`);
+      const a = amountIn(leg, amountOut);
+      return a === "revert" ? a : { amountIn: a, amountOut, sqrtPriceX96After: 1n, initializedTicksCrossed: 0 };
+    },
+  };
+  return { quoted, local: { snapshot: async () => snap } as unknown as V3PoolCache };
+}
+
+const args = (local: V3PoolCache, intermediates: `0x${string}`[] = []) => ({
+  rpcUrl: "http://127.0.0.1:1", // never reached: every call is answered locally
+  quoter: "0x0000000000000000000000000000000000000001" as const,
+  tokenIn: COLL as `0x${string}`,
+  tokenOut: DEBT as `0x${string}`,
+  amountOut: 1_000n,
+  fees: [500, 3000, 100],
+  intermediates,
+  maxFeesPerLeg: 2,
+  local,
+});
+
+test("quoteBestExactOutput: least amountIn over the fee tiers, path reversed (tokenOut first)", async () => {
+  const { local } = localPools((leg, out) =>
+    leg.tokenIn !== COLL ? "revert" : leg.fee === 500 ? (out * 105n) / 100n : leg.fee === 3000 ? (out * 102n) / 100n : "revert"
+  );
+  const q = await quoteBestExactOutput(args(local));
+  assert.ok(q);
+  assert.equal(q.amountIn, 1_020n);
+  assert.equal(q.amountOut, 1_000n);
+  assert.equal(q.mode, "quoterV2_out_fee_3000");
+  assert.equal(q.path, encodeV3Path([DEBT, COLL], [3000]));
+  assert.equal(q.path, `0x${DEBT.slice(2)}000bb8${COLL.slice(2)}`);
+  assert.equal(q.fails, 1); // the 100 tier
+});
+
+test("quoteBestExactOutput: 2-hop path is tokenOut, fee2, MID, fee1, tokenIn and quoted last leg first", async () => {
+  const { local, quoted } = localPools((leg, out) => {
+    if (leg.tokenIn === COLL && leg.tokenOut === DEBT) return "revert";
+    if (leg.tokenIn === MID) return leg.fee === 500 ? out * 2n : leg.fee === 3000 ? out * 3n : "revert"; // MID -> DEBT
+    return leg.fee === 500 ? out + 10n : leg.fee === 3000 ? out + 1n : "revert";                         // COLL -> MID
+  });
+  const q = await quoteBestExactOutput(args(local, [MID, COLL]));
+  assert.ok(q);
+  assert.equal(q.amountIn, 2_001n); // MID -> DEBT at 500 (2x), COLL -> MID at 3000 (+1)
+  assert.equal(q.route, `${COLL}->${MID}->${DEBT}`);
+  assert.equal(q.mode, "quoterV2_out_2hop_mid_3000_500");
+  assert.equal(q.path, encodeV3Path([DEBT, MID, COLL], [500, 3000]));
+  assert.equal(q.path, `0x${DEBT.slice(2)}0001f4${MID.slice(2)}000bb8${COLL.slice(2)}`);
+  // reversed path swaps the MID -> DEBT pool first, for the full amountOut
+  assert.ok(quoted.indexOf(`${MID}->${DEBT}:500`) < quoted.indexOf(`${COLL}->${MID}:3000`));
+});
+
+test("quoteBestExactOutput: null when no route delivers amountOut", async () => {
+  const { local } = localPools(() => "revert");
+  assert.equal(await quoteBestExactOutput(args(local, [MID])), null);
+});
+
+const pair = { collateralAsset: COLL, debtAsset: DEBT, repayAmount: 1_000_000n, seizeAmount: 1_000_000n } as const;
+
+test("sellJustEnough: buys repay + percentMul(repay, premium bps) + minProfit", async () => {
+  let asked = 0n;
+  const quoteOut: ExactOutQuoteFn = async (tokenIn, tokenOut, amountOut) => {
+    assert.deepEqual([tokenIn, tokenOut], [COLL, DEBT]);
+    asked = amountOut;
+    return { amountIn: 900_000n, path: encodeV3Path([DEBT, COLL], [500]) };
+  };
+  const repayAmount = 1_235_000n;
+  const je = await sellJustEnough({ ...pair, repayAmount, seizeAmount: 2_000_000n }, { minProfit: 10n, flashFeeBps: 5, slippageBps: 50, quoteOut });
+  // percentMul rounds half up (617.5 -> 618) like the Pool; a floored premium would trip ProfitTooLow by a wei
+  assert.equal(percentMul(repayAmount, 5n), 618n);
+  assert.equal(asked, repayAmount + 618n + 10n);
+  assert.deepEqual(je, { target: asked, amountIn: 900_000n, kept: 1_100_000n, path: encodeV3Path([DEBT, COLL], [500]) });
+});
+
+test("sellJustEnough: falls back to sell_all past the SLIPPAGE_BPS headroom or without a route", async () => {
+  const needs = (amountIn: bigint): ExactOutQuoteFn => async () => ({ amountIn, path: "0x" });
+  const opts = { minProfit: 0n, flashFeeBps: 5, slippageBps: 50 };
+
+  // maxIn = 1_000_000 * 9950 / 10000
+  assert.ok("target" in await sellJustEnough(pair, { ...opts, quoteOut: needs(995_000n) }));
+  assert.deepEqual(await sellJustEnough(pair, { ...opts, quoteOut: needs(995_001n) }), {
+    note: "needs 995001 of 1000000 seized (slippage headroom), selling all",
+  });
+  assert.deepEqual(await sellJustEnough(pair, { ...opts, quoteOut: async () => null }), { note: "no exact-output route, selling all" });
+  assert.deepEqual(await sellJustEnough(pair, { ...opts, quoteOut: async () => { throw new Error("rpc"); } }), { note: "no exact-output route, selling all" });
+  assert.deepEqual(await sellJustEnough(pair, opts), { note: "QUOTE_ENABLED off: no exact-output quote, selling all" });
+});
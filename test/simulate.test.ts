@@ -0,0 +1,49 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { orderEconomics, type OrderEconomicsInput } from "../src/commands/simulate.js";
+
+// USDC-like debt at $1: 1e6 units = $1
+const usdc = (x: bigint) => Number(x) / 1e6;
+
+const base: OrderEconomicsInput = {
+  amountOut: 1_060_000_000n, // $1060 out of the swap
+  repayAmount: 1_000_000_000n,
+  repaid: 1_000_000_000n,
+  premium: 500_000n,         // 5 bps
+  minProfit: 10_000_000n,
+  debtUsd: usdc,
+  keptUsd: 0,
+  gasUsd: 2,
+  l1FeeUsd: 0.5,
+  requiredNetUsd: 5,
+  execOk: true,
+};
+
+test("orderEconomics: amountOut - repay - premium - gas - L1 fee", () => {
+  const r = orderEconomics(base);
+  assert.ok(Math.abs(r.netProfitUsd - (1060 - 1000 - 0.5 - 2 - 0.5)) < 1e-9, String(r.netProfitUsd));
+  assert.equal(r.minProfitOk, true);
+  assert.equal(r.pass, true);
+});
+
+test("orderEconomics: debt the Pool does not pull and kept collateral count as proceeds", () => {
+  const r = orderEconomics({ ...base, amountOut: 900_000_000n, repaid: 950_000_000n, keptUsd: 120 });
+  // 900 + (1000 - 950) left in the executor - 1000.5 flash + 120 kept - 2.5 fees
+  assert.ok(Math.abs(r.netProfitUsd - 67) < 1e-9, String(r.netProfitUsd));
+  // the executor's ProfitTooLow guard only looks at amountOut
+  assert.equal(r.minProfitOk, false);
+  assert.equal(r.pass, false);
+});
+
+test("orderEconomics: pass needs minProfit, requiredNetUsd and execOk", () => {
+  // exactly repay + premium + minProfit passes the contract guard
+  const edge = orderEconomics({ ...base, amountOut: 1_010_500_000n, gasUsd: 0, l1FeeUsd: 0 });
+  assert.equal(edge.minProfitOk, true);
+  assert.equal(edge.pass, true);
+  assert.equal(orderEconomics({ ...base, amountOut: 1_010_499_999n }).minProfitOk, false);
+
+  assert.equal(orderEconomics({ ...base, l1FeeUsd: 55 }).pass, false); // net 2.5 < 5
+  assert.equal(orderEconomics({ ...base, requiredNetUsd: 56.99 }).pass, true);
+  assert.equal(orderEconomics({ ...base, requiredNetUsd: 57.01 }).pass, false);
+  assert.equal(orderEconomics({ ...base, execOk: false }).pass, false); // unquoted, degraded pricing or no L1 fee estimator
+});
@@ -0,0 +1,207 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { UniverseStore } from "../src/lib/universeStore.js";
+import type { BorrowerActivity } from "../src/services/aaveEvents.js";
+
+const USDC = "0xaf88d065e77c8cc2239327c5edb3a432268e5831";
+const WETH = "0x82af49447d8a07e3bd95bd0d56f35241523fbab1";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+
+const act = (user: string, reserve: string, side: "collateral" | "debt", block: bigint): BorrowerActivity => ({
+  user: user as `0x${string}`,
+  reserve: reserve as `0x${string}`,
+  side,
+  event: side === "debt" ? "Borrow" : "Supply",
+  blockNumber: block,
+  logIndex: 0,
+  txHash: null,
+});
+
+function withDir(fn: (dir: string) => void) {
+  return () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "universe-"));
+    try {
+      fn(dir);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+test("UniverseStore: activity upserts track blocks and index reserves by side", withDir((dir) => {
+  const s = UniverseStore.open({ dir });
+  const added = s.recordActivity([act(ALICE, USDC, "debt", 60n), act(ALICE, WETH, "collateral", 50n)]);
+  assert.deepEqual(added, [ALICE]);
+  assert.deepEqual(s.recordActivity([act(ALICE, USDC, "debt", 70n)]), []);
+
+  const r = s.get(ALICE)!;
+  assert.equal(r.firstSeenBlock, 50);
+  assert.equal(r.lastActivityBlock, 70);
+  assert.equal(r.reserves[USDC].debt, true);
+  assert.equal(r.reserves[USDC].collateral, false);
+  assert.deepEqual(s.usersWithDebtIn(USDC), [ALICE]);
+  assert.deepEqual(s.usersWithCollateralIn(WETH), [ALICE]);
+  assert.deepEqual(s.usersWithDebtIn(WETH), []);
+}));
+
+test("UniverseStore: query filters on HF and sorts by debt", withDir((dir) => {
+  const s = UniverseStore.open({ dir });
+  s.recordActivity([act(ALICE, USDC, "debt", 1n), act(BOB, USDC, "debt", 2n)]);
+  s.recordHealth(ALICE, { hf: 1.2, debtUsd: 500, collateralUsd: 700 });
+  s.recordHealth(BOB, { hf: 1.05, debtUsd: 9000, collateralUsd: 10000 });
+
+  assert.deepEqual(s.query({ maxHf: 1.3 }).map((r) => r.user), [BOB, ALICE]);
+  assert.deepEqual(s.query({ maxHf: 1.1 }).map((r) => r.user), [BOB]);
+  assert.deepEqual(s.query({ maxHf: 1.3, limit: 1, debtIn: USDC }).map((r) => r.user), [BOB]);
+}));
+
+test("UniverseStore: a second process sees journal appends and survives compaction", withDir((dir) => {
+  const writer = UniverseStore.open({ dir, compactAfter: 1_000 });
+  const reader = UniverseStore.open({ dir });
+  writer.recordActivity([act(ALICE, USDC, "debt", 10n)]);
+  writer.recordHealth(ALICE, { hf: 0.98, debtUsd: 100, collateralUsd: 101 });
+
+  assert.equal(reader.refresh(), 2);
+  assert.equal(reader.get(ALICE)?.hf, 0.98);
+
+  writer.compact();
+  writer.recordActivity([act(BOB, WETH, "collateral", 11n)]);
+  reader.refresh();
+  assert.deepEqual(reader.users().sort(), [ALICE, BOB]);
+
+  writer.remove([ALICE]);
+  reader.refresh();
+  assert.deepEqual(reader.users(), [BOB]);
+  assert.deepEqual(reader.usersWithDebtIn(USDC), []);
+
+  // Restart: snapshot + journal replay
+  assert.deepEqual(UniverseStore.open({ dir }).users(), [BOB]);
+}));
+
+test("UniverseStore: own appends are not re-read on refresh, others' still are", withDir((dir) => {
+  const s = UniverseStore.open({ dir, compactAfter: 1_000 });
+  const other = UniverseStore.open({ dir, compactAfter: 1_000 });
+  s.recordActivity([act(ALICE, USDC, "debt", 10n)]);
+  s.recordHealth(ALICE, { hf: 1.5, debtUsd: 100, collateralUsd: 150 });
+  assert.equal(s.refresh(), 0);
+
+  other.recordActivity([act(BOB, WETH, "collateral", 11n)]);
+  s.recordHealth(ALICE, { hf: 1.4, debtUsd: 100, collateralUsd: 140 }); // lands after the other writer's line
+  assert.equal(s.refresh(), 2); // BOB, then its own line once more (idempotent)
+  assert.equal(s.refresh(), 0);
+  assert.deepEqual(s.users().sort(), [ALICE, BOB]);
+}));
+
+test("UniverseStore: two writers interleaving appends both end up with every patch", withDir((dir) => {
+  const miner = UniverseStore.open({ dir, compactAfter: 1_000 });
+  const sentry = UniverseStore.open({ dir, compactAfter: 1_000 });
+  const users = Array.from({ length: 6 }, (_, i) => `0x${String(i + 1).repeat(40)}`);
+  users.forEach((u, i) => {
+    (i % 2 ? sentry : miner).recordActivity([act(u, USDC, "debt", BigInt(10 + i))]);
+    (i % 2 ? miner : sentry).recordHealth(u, { hf: 1 + i / 10, debtUsd: 100 + i, collateralUsd: 200 });
+    if (i === 3) sentry.refresh(); // catch up mid-way, then fall behind again
+  });
+  miner.refresh();
+  sentry.refresh();
+
+  const fresh = UniverseStore.open({ dir });
+  for (const s of [miner, sentry]) {
+    assert.deepEqual(s.users().sort(), [...users].sort());
+    for (const u of users) assert.deepEqual(s.get(u), fresh.get(u));
+    assert.equal(s.refresh(), 0);
+  }
+
+  // The other process appends right before our own write lands: its line must not be skipped
+  const realWrite = fs.writeSync;
+  let raced = false;
+  (fs as { writeSync: unknown }).writeSync = (...a: Parameters<typeof fs.writeSync>) => {
+    if (!raced) {
+      raced = true;
+      fs.appendFileSync(path.join(dir, "universe.journal.jsonl"), JSON.stringify({ u: ALICE, t: "del" }) + "\n");
+    }
+    return (realWrite as (...b: typeof a) => number)(...a);
+  };
+  try {
+    miner.recordActivity([act(ALICE, WETH, "collateral", 20n)]);
+  } finally {
+    (fs as { writeSync: unknown }).writeSync = realWrite;
+  }
+  assert.equal(raced, true);
+  assert.equal(miner.refresh(), 2); // the foreign del, then its own line again
+  assert.deepEqual(miner.get(ALICE), UniverseStore.open({ dir }).get(ALICE));
+
+  // Compacting on one side keeps the other's later appends
+  miner.compact();
+  sentry.recordHealth(users[0], { hf: 0.9, debtUsd: 100, collateralUsd: 95 });
+  miner.recordHealth(users[1], { hf: 0.8, debtUsd: 101, collateralUsd: 90 });
+  miner.refresh();
+  sentry.refresh();
+  for (const s of [miner, sentry, UniverseStore.open({ dir })]) {
+    assert.equal(s.get(users[0])?.hf, 0.9);
+    assert.equal(s.get(users[1])?.hf, 0.8);
+  }
+}));
+
+test("UniverseStore: a full repay drops the user from the debt index", withDir((dir) => {
+  const s = UniverseStore.open({ dir });
+  s.recordActivity([act(ALICE, USDC, "debt", 10n), act(ALICE, WETH, "collateral", 10n)]);
+  s.recordHealth(ALICE, { hf: 1.5, debtUsd: 100, collateralUsd: 150 });
+  assert.deepEqual(s.usersWithDebtIn(USDC), [ALICE]);
+
+  s.recordHealth(ALICE, { hf: Infinity, debtUsd: 0, collateralUsd: 150 });
+  assert.deepEqual(s.usersWithDebtIn(USDC), []);
+  assert.deepEqual(s.usersWithCollateralIn(WETH), [ALICE]);
+
+  // An older borrow found by the backfill does not bring it back; a new one does
+  s.recordActivity([act(ALICE, USDC, "debt", 5n)]);
+  assert.deepEqual(s.usersWithDebtIn(USDC), []);
+  s.recordActivity([act(ALICE, USDC, "debt", 20n)]);
+  assert.deepEqual(s.usersWithDebtIn(USDC), [ALICE]);
+
+  // Restart: the journal replays to the same index
+  assert.deepEqual(UniverseStore.open({ dir }).usersWithDebtIn(USDC), [ALICE]);
+}));
+
+test("UniverseStore: migrates borrowers.json + borrower_activity.json on first open", withDir((dir) => {
+  const prev = process.env.DATA_DIR;
+  process.env.DATA_DIR = dir;
+  try {
+    fs.writeFileSync(path.join(dir, "borrowers.json"), JSON.stringify([ALICE, BOB]));
+    fs.writeFileSync(path.join(dir, "borrower_activity.json"), JSON.stringify({
+      [BOB]: { firstBlock: 5, lastBlock: 9, reserves: { [USDC]: { collateral: false, debt: true, lastEvent: "Borrow", lastBlock: 9 } } },
+    }));
+
+    const s = UniverseStore.open();
+    assert.equal(s.size, 2);
+    assert.equal(s.get(BOB)?.firstSeenBlock, 5);
+    assert.deepEqual(s.usersWithDebtIn(USDC), [BOB]);
+    assert.ok(fs.existsSync(path.join(dir, "universe.json")));
+  } finally {
+    if (prev === undefined) delete process.env.DATA_DIR;
+    else process.env.DATA_DIR = prev;
+  }
+}));
+
+test("UniverseStore: zero debt moves a user to the dormant tier until a newer Borrow", withDir((dir) => {
+  const s = UniverseStore.open({ dir });
+  s.recordActivity([act(ALICE, USDC, "debt", 100n), act(BOB, USDC, "debt", 100n)]);
+  const v0 = s.membershipVersion;
+
+  s.recordHealth(ALICE, { hf: 1e59, debtUsd: 0, collateralUsd: 50 });
+  assert.deepEqual(s.activeUsers(), [BOB]);
+  assert.equal(s.get(ALICE)?.dormantSince, 100);
+  assert.notEqual(s.membershipVersion, v0);
+  assert.deepEqual(s.query({ tier: "dormant" }).map((r) => r.user), [ALICE]);
+
+  // Older borrow surfacing from the backfill: stays dormant
+  s.recordActivity([act(ALICE, WETH, "debt", 40n)]);
+  assert.equal(s.get(ALICE)?.dormantSince, 100);
+
+  s.recordActivity([act(ALICE, USDC, "debt", 130n)]);
+  assert.deepEqual(s.activeUsers().sort(), [ALICE, BOB]);
+  assert.equal(UniverseStore.open({ dir }).get(ALICE)?.dormantSince, null);
+}));